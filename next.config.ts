@@ -8,6 +8,12 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  experimental: {
+    serverActions: {
+      // Backup archives embed their images and are uploaded through a server action.
+      bodySizeLimit: '200mb',
+    },
+  },
   images: {
     remotePatterns: [
       {
@@ -15,6 +15,8 @@ const CategorizeQuestionInputSchema = z.object({
   questionText: z.string().describe('The text of the question.'),
   options: z.array(z.string()).optional().describe('The options for the question, if it is a multiple choice question.'),
   correctAnswer: z.union([z.string(), z.array(z.string())]).optional().describe('The correct answer(s) to the question.'),
+  subject: z.string().describe('The subject (course) the question belongs to.'),
+  chapters: z.array(z.string()).describe("The subject's chapters, in order."),
 });
 export type CategorizeQuestionInput = z.infer<typeof CategorizeQuestionInputSchema>;
 
@@ -33,25 +35,12 @@ const prompt = ai.definePrompt({
   output: {schema: CategorizeQuestionOutputSchema},
   prompt: `You are an expert at categorizing exam questions. Your task is to assign the given question to the most appropriate chapter from the list below.
 
-  CRITICAL: You must choose only ONE chapter from this list, and the 'chapter' field in your output JSON must be an EXACT string match to one of the options provided. Do not abbreviate or use only numbers. The subject is always "Cyber Security".
+  CRITICAL: You must choose only ONE chapter from this list, and the 'chapter' field in your output JSON must be an EXACT string match to one of the options provided. Do not abbreviate or use only numbers. The subject is "{{{subject}}}".
 
   Available Chapters:
-  - Chapter 1: Summarizing Fundamental Security Concepts
-  - Chapter 2: Comparing Threat Types
-  - Chapter 3: Explaining Appropriate Cryptographic Solutions
-  - Chapter 4: Implement Identity and Access Management
-  - Chapter 5: Maintain Enterprise Campus Network Architecture
-  - Chapter 6: Secure Cloud Network Architecture
-  - Chapter 7: Explain Resiliency and Site Security Concepts
-  - Chapter 8: Evaluate Network Security Capabilities
-  - Chapter 9: Explain Vulnerability Management
-  - Chapter 10: Assess Endpoint Security Capabilities
-  - Chapter 11: Enhance Application Security Capabilities
-  - Chapter 12: Explain Alerting and Monitoring Concepts
-  - Chapter 13: Analyze Indicators of Malicious Activity
-  - Chapter 14: Summarize Security Governance Concepts
-  - Chapter 15: Explain Risk Management Processes
-  - Chapter 16: Summarize Data Protection and Compliance Concepts
+  {{#each chapters}}
+  - {{{this}}}
+  {{/each}}
 
   Analyze the following question and determine its chapter.
 
@@ -0,0 +1,77 @@
+'use server';
+
+/**
+ * @fileOverview An AI agent that decides which of a few English questions is the translation of an Arabic one.
+ *
+ * - matchTranslation - A function that picks the translation among the candidates, if any.
+ * - MatchTranslationInput - The input type for the matchTranslation function.
+ * - MatchTranslationOutput - The return type for the matchTranslation function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+
+const MatchQuestionSchema = z.object({
+  id: z.string(),
+  questionText: z.string(),
+  options: z.array(z.string()).optional().default([]),
+  correctAnswer: z.union([z.string(), z.array(z.string())]).optional(),
+});
+
+const MatchTranslationInputSchema = z.object({
+  question: MatchQuestionSchema.describe('The Arabic question.'),
+  candidates: z.array(MatchQuestionSchema).describe('English questions that may be its translation.'),
+});
+export type MatchTranslationInput = z.infer<typeof MatchTranslationInputSchema>;
+
+const MatchTranslationOutputSchema = z.object({
+  matchId: z.string().describe('The ID of the candidate that is a translation of the question, or an empty string if none is.'),
+  confidence: z.number().describe('How sure the match is, in [0,1]. 0 when matchId is empty.'),
+});
+export type MatchTranslationOutput = z.infer<typeof MatchTranslationOutputSchema>;
+
+export async function matchTranslation(input: MatchTranslationInput): Promise<MatchTranslationOutput> {
+  return matchTranslationFlow(input);
+}
+
+const prompt = ai.definePrompt({
+  name: 'matchTranslationPrompt',
+  input: {schema: MatchTranslationInputSchema},
+  output: {schema: MatchTranslationOutputSchema},
+  prompt: `You are a bilingual (Arabic/English) exam editor. Decide which English candidate, if any, is a translation of the Arabic question.
+
+A translation asks the same thing and has the same options and the same correct answer(s), in any order and with any reasonable wording. Technical terms may be kept in English or spelled out (e.g. "TPM" = "Trusted Platform Module" = "وحدة النظام الأساسي الموثوق به").
+A question on the same topic with a different correct answer or different options is NOT a translation.
+
+ARABIC QUESTION:
+- ID: {{{question.id}}}
+- Text: {{{question.questionText}}}
+- Options: {{#each question.options}}{{{this}}} || {{/each}}
+- Correct: {{#if question.correctAnswer}}{{{question.correctAnswer}}}{{else}}N/A{{/if}}
+
+ENGLISH CANDIDATES:
+{{#each candidates}}
+- ID: {{{this.id}}}
+  Text: {{{this.questionText}}}
+  Options: {{#each this.options}}{{{this}}} || {{/each}}
+  Correct: {{#if this.correctAnswer}}{{{this.correctAnswer}}}{{else}}N/A{{/if}}
+{{/each}}
+
+Return the ID of the one translation as matchId, or an empty string if no candidate is a translation.`,
+});
+
+const matchTranslationFlow = ai.defineFlow(
+  {
+    name: 'matchTranslationFlow',
+    inputSchema: MatchTranslationInputSchema,
+    outputSchema: MatchTranslationOutputSchema,
+  },
+  async input => {
+    const {output} = await prompt(input);
+    // Only an ID that was offered counts as a match.
+    if (!output || !input.candidates.some(c => c.id === output.matchId)) {
+      return {matchId: '', confidence: 0};
+    }
+    return output;
+  }
+);
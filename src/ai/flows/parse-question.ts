@@ -19,6 +19,10 @@ const ParseQuestionsInputSchema = z.object({
     .describe(
       'A block of mixed-format exam questions in English and Arabic to be parsed.'
     ),
+  subjects: z
+    .array(z.object({name: z.string(), chapters: z.array(z.string())}))
+    .optional()
+    .describe('The subjects hosted by the bank, each with its ordered chapters.'),
 });
 export type ParseQuestionsInput = z.infer<typeof ParseQuestionsInputSchema>;
 
@@ -59,25 +63,15 @@ const parseQuestionsPrompt = ai.definePrompt({
 
   CRITICAL: If the answer is specified by letter (e.g., "Answer: A" or "Correct Answer: B, C"), you MUST map that letter back to the full text of the corresponding option. For example, if option A is "Jump server", then "Answer: A" means the correctAnswer is "Jump server". If there are multiple correct answers indicated (e.g. a list of letters or answers), the questionType MUST be set to "checkbox" and the correctAnswer field should be an array of the full option texts.
 
-  CRITICAL: Infer the subject and chapter for each question based on its content. The subject is always "Cyber Security". The chapter must be one of the following 16 options. Choose the one that best fits the question's topic.
-
-  Available Chapters:
-  - Chapter 1: Summarizing Fundamental Security Concepts
-  - Chapter 2: Comparing Threat Types
-  - Chapter 3: Explaining Appropriate Cryptographic Solutions
-  - Chapter 4: Implement Identity and Access Management
-  - Chapter 5: Maintain Enterprise Campus Network Architecture
-  - Chapter 6: Secure Cloud Network Architecture
-  - Chapter 7: Explain Resiliency and Site Security Concepts
-  - Chapter 8: Evaluate Network Security Capabilities
-  - Chapter 9: Explain Vulnerability Management
-  - Chapter 10: Assess Endpoint Security Capabilities
-  - Chapter 11: Enhance Application Security Capabilities
-  - Chapter 12: Explain Alerting and Monitoring Concepts
-  - Chapter 13: Analyze Indicators of Malicious Activity
-  - Chapter 14: Summarize Security Governance Concepts
-  - Chapter 15: Explain Risk Management Processes
-  - Chapter 16: Summarize Data Protection and Compliance Concepts
+  CRITICAL: Infer the subject and chapter for each question based on its content. The subject must be one of the subjects below, spelled exactly as listed, and the chapter must be one of that subject's chapters. Choose the one that best fits the question's topic.
+
+  Available Subjects and Chapters:
+  {{#each subjects}}
+  Subject: {{{name}}}
+  {{#each chapters}}
+  - {{{this}}}
+  {{/each}}
+  {{/each}}
 
   Also infer these fields:
   - topicTags: Generate a few relevant topic tags.
@@ -0,0 +1,325 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Download, Loader2, Upload } from "lucide-react";
+import { handleCreateBackup, handlePreviewRestore, handleRestoreBackup } from "@/lib/actions";
+import {
+  DEFAULT_RESTORE_OPTIONS,
+  backupFileName,
+  type ExistingQuestionAction,
+  type RestoreOptions,
+  type RestorePreview,
+  type RestoreStatus
+} from "@/lib/backup";
+import { upsertQuestions } from "@/hooks/use-question-bank";
+import { setTaxonomy } from "@/hooks/use-taxonomy";
+import { readEditorName } from "@/context/lock-context";
+import { downloadFile } from "@/lib/download";
+
+const STATUS_LABELS: Record<RestoreStatus, string> = {
+  new: "New",
+  changed: "Changed",
+  conflict: "Conflicting",
+  unchanged: "Unchanged"
+};
+
+const ACTION_LABELS: Record<ExistingQuestionAction, string> = {
+  overwrite: "Overwrite with the backup",
+  copy: "Import as new copies",
+  skip: "Skip"
+};
+
+// The preview only needs to know which questions have images, not their contents.
+function withoutImageData(archive: any) {
+  if (!archive || typeof archive !== "object" || !archive.images || typeof archive.images !== "object") {
+    return archive;
+  }
+  const images = Object.fromEntries(
+    Object.entries(archive.images).map(([id, image]) => [id, { ...(image as object), data: "" }])
+  );
+  return { ...archive, images };
+}
+
+function ActionSelect({
+  value,
+  onChange
+}: {
+  value: ExistingQuestionAction;
+  onChange: (value: ExistingQuestionAction) => void;
+}) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as ExistingQuestionAction)}>
+      <SelectTrigger className="w-[240px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(ACTION_LABELS) as ExistingQuestionAction[]).map((action) => (
+          <SelectItem key={action} value={action}>
+            {ACTION_LABELS[action]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export default function BackupPage() {
+  const [isBackingUp, setIsBackingUp] = React.useState(false);
+  const [archive, setArchive] = React.useState<unknown>(null);
+  const [preview, setPreview] = React.useState<RestorePreview | null>(null);
+  const [options, setOptions] = React.useState<RestoreOptions>(DEFAULT_RESTORE_OPTIONS);
+  const [isReading, setIsReading] = React.useState(false);
+  const [isRestoring, setIsRestoring] = React.useState(false);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const backup = async () => {
+    setIsBackingUp(true);
+    try {
+      const result = await handleCreateBackup();
+      if (!result.success || !result.archive) throw new Error("Backup failed on the server.");
+      downloadFile(JSON.stringify(result.archive), backupFileName(result.archive.createdAt), "application/json");
+      toast({
+        title: "Backup Ready",
+        description:
+          result.missingImages.length > 0
+            ? `${result.archive.questions.length} question(s) saved. ${result.missingImages.length} image(s) could not be found and were left out.`
+            : `${result.archive.questions.length} question(s) and ${Object.keys(result.archive.images).length} image(s) saved.`
+      });
+    } catch (error) {
+      console.error("Error creating backup: ", error);
+      toast({ title: "Error", description: "Could not create the backup.", variant: "destructive" });
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const resetRestore = () => {
+    setArchive(null);
+    setPreview(null);
+    setOptions(DEFAULT_RESTORE_OPTIONS);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const readFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setIsReading(true);
+    setPreview(null);
+    try {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(await file.text());
+      } catch {
+        toast({ title: "Unreadable File", description: "The file is not valid JSON.", variant: "destructive" });
+        return;
+      }
+      const result = await handlePreviewRestore(withoutImageData(parsed));
+      if (!result.success || !result.preview) {
+        toast({
+          title: "Cannot Restore",
+          description: result.errors?.join(" ") || "The backup could not be read.",
+          variant: "destructive"
+        });
+        return;
+      }
+      setArchive(parsed);
+      setPreview(result.preview);
+    } catch (error) {
+      console.error("Error reading backup: ", error);
+      toast({ title: "Error", description: "Could not read the backup.", variant: "destructive" });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const restore = async () => {
+    if (!archive) return;
+    setIsRestoring(true);
+    try {
+      const result = await handleRestoreBackup(archive, options, readEditorName());
+      if (!result.success) {
+        toast({
+          title: "Restore Failed",
+          description: result.errors?.join(" ") || "Nothing was restored.",
+          variant: "destructive"
+        });
+        return;
+      }
+      upsertQuestions(result.restoredQuestions);
+      if (result.taxonomy) setTaxonomy(result.taxonomy);
+      toast({
+        title: "Restore Complete",
+        description:
+          result.failedImages.length > 0
+            ? `${result.restoredQuestions.length} question(s) restored. ${result.failedImages.length} image(s) could not be uploaded.`
+            : `${result.restoredQuestions.length} question(s) restored.`
+      });
+      resetRestore();
+    } catch (error) {
+      console.error("Error restoring backup: ", error);
+      toast({ title: "Error", description: "The restore did not complete.", variant: "destructive" });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const pending = preview
+    ? preview.counts.new +
+      (options.changed === "skip" ? 0 : preview.counts.changed) +
+      (options.conflicts === "skip" ? 0 : preview.counts.conflict)
+    : 0;
+
+  return (
+    <div className="min-h-screen bg-background text-foreground flex flex-col">
+      <header className="sticky top-0 z-10 flex items-center justify-between border-b border-border bg-background/80 p-4 backdrop-blur-sm">
+        <Button variant="outline" onClick={() => router.back()}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back
+        </Button>
+        <h1 className="font-headline text-2xl">Backup & Restore</h1>
+        <div className="w-[90px]"></div>
+      </header>
+
+      <main className="flex-1 container mx-auto max-w-4xl p-4 sm:p-8 space-y-8">
+        <Card className="shadow-lg">
+          <CardHeader>
+            <CardTitle className="font-headline text-xl">Backup</CardTitle>
+            <CardDescription>
+              Downloads every question with all of its fields, trashed questions included, together with their images
+              and the subjects and chapters.
+            </CardDescription>
+          </CardHeader>
+          <CardFooter>
+            <Button onClick={backup} disabled={isBackingUp}>
+              {isBackingUp ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+              Download Backup
+            </Button>
+          </CardFooter>
+        </Card>
+
+        <Card className="shadow-lg">
+          <CardHeader>
+            <CardTitle className="font-headline text-xl">Restore</CardTitle>
+            <CardDescription>
+              Compares a backup with the question bank first. Nothing is written until you confirm.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex items-center gap-2">
+              <Input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                onChange={readFile}
+                disabled={isReading || isRestoring}
+              />
+              {isReading && <Loader2 className="h-5 w-5 animate-spin text-primary" />}
+            </div>
+
+            {preview && (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  Backup taken {new Date(preview.createdAt).toLocaleString()}, with {preview.images} image(s).
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {(Object.keys(STATUS_LABELS) as RestoreStatus[]).map((status) => (
+                    <Badge key={status} variant={status === "conflict" && preview.counts.conflict > 0 ? "destructive" : "secondary"}>
+                      {STATUS_LABELS[status]}: {preview.counts[status]}
+                    </Badge>
+                  ))}
+                  {preview.invalid.length > 0 && (
+                    <Badge variant="destructive">Invalid (skipped): {preview.invalid.length}</Badge>
+                  )}
+                </div>
+
+                <div className="space-y-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <Label>Changed questions ({preview.counts.changed})</Label>
+                    <ActionSelect value={options.changed} onChange={(changed) => setOptions((o) => ({ ...o, changed }))} />
+                  </div>
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <Label>Conflicting questions ({preview.counts.conflict})</Label>
+                    <ActionSelect
+                      value={options.conflicts}
+                      onChange={(conflicts) => setOptions((o) => ({ ...o, conflicts }))}
+                    />
+                  </div>
+                  {preview.hasTaxonomy && (
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="restore-taxonomy"
+                        checked={options.restoreTaxonomy}
+                        onCheckedChange={(c) => setOptions((o) => ({ ...o, restoreTaxonomy: c === true }))}
+                      />
+                      <Label htmlFor="restore-taxonomy" className="font-normal">
+                        Also replace the subjects and chapters with the ones in the backup
+                      </Label>
+                    </div>
+                  )}
+                </div>
+
+                {preview.conflicts.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-sm text-muted-foreground">
+                      These questions were edited after the backup was taken:
+                    </p>
+                    <ScrollArea className="h-48 rounded-md border p-2">
+                      <div className="space-y-2">
+                        {preview.conflicts.map((c) => (
+                          <div key={c.id} className="text-sm">
+                            <p className="line-clamp-2">{c.questionText}</p>
+                            <p className="text-xs text-muted-foreground">
+                              Backup: {new Date(c.archivedAt).toLocaleString()} · Now:{" "}
+                              {new Date(c.storedAt).toLocaleString()}
+                            </p>
+                          </div>
+                        ))}
+                      </div>
+                    </ScrollArea>
+                  </div>
+                )}
+
+                {preview.invalid.length > 0 && (
+                  <ScrollArea className="h-32 rounded-md border p-2">
+                    <div className="space-y-1 text-xs text-destructive">
+                      {preview.invalid.map((q) => (
+                        <p key={q.index}>
+                          #{q.index + 1}
+                          {q.id ? ` (${q.id})` : ""}: {Object.values(q.errors).filter(Boolean).join(" ")}
+                        </p>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                )}
+              </>
+            )}
+          </CardContent>
+          {preview && (
+            <CardFooter className="gap-2">
+              <Button variant="outline" onClick={resetRestore} disabled={isRestoring}>
+                Cancel
+              </Button>
+              <Button onClick={restore} disabled={isRestoring || (pending === 0 && !options.restoreTaxonomy)}>
+                {isRestoring ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                Restore {pending} Question(s)
+              </Button>
+            </CardFooter>
+          )}
+        </Card>
+      </main>
+    </div>
+  );
+}
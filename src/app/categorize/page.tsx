@@ -7,14 +7,13 @@ import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { ArrowLeft, Loader2, Save, Wand2 } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
-import { db } from "@/lib/firebase";
-import { collection, getDocs, query, orderBy } from "firebase/firestore";
 import { handleCategorizeQuestion, handleUpdateMultipleQuestions } from "@/lib/actions";
+import { useQuestionBank } from "@/hooks/use-question-bank";
+import { readEditorName } from "@/context/lock-context";
 
 export default function CategorizePage() {
-  const [allQuestions, setAllQuestions] = React.useState<Question[]>([]);
+  const { questions: allQuestions, isLoading, error, upsertQuestions } = useQuestionBank();
   const [updatedQuestions, setUpdatedQuestions] = React.useState<Question[]>([]);
-  const [isLoading, setIsLoading] = React.useState(true);
   const [isCategorizing, setIsCategorizing] = React.useState(false);
   const [isSaving, setIsSaving] = React.useState(false);
   const [progress, setProgress] = React.useState(0);
@@ -25,26 +24,13 @@ export default function CategorizePage() {
   const { toast } = useToast();
 
   React.useEffect(() => {
-    const fetchAllQuestions = async () => {
-      try {
-        const questionsCollection = collection(db, 'questions');
-        const q = query(questionsCollection, orderBy("createdAt", "desc"));
-        const querySnapshot = await getDocs(q);
-        const questionsData = querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Question));
-        setAllQuestions(questionsData);
-      } catch (error) {
-        console.error("Error fetching all questions: ", error);
-        toast({
-          title: "Error fetching questions",
-          description: "Could not load questions from the database.",
-          variant: "destructive"
-        });
-      } finally {
-        setIsLoading(false);
-      }
-    };
-    fetchAllQuestions();
-  }, [toast]);
+    if (!error) return;
+    toast({
+      title: "Error fetching questions",
+      description: "Could not load questions from the database.",
+      variant: "destructive"
+    });
+  }, [error, toast]);
 
   const startCategorization = async () => {
     setIsCategorizing(true);
@@ -81,16 +67,28 @@ export default function CategorizePage() {
   const saveChanges = async () => {
     setIsSaving(true);
     try {
-        const result = await handleUpdateMultipleQuestions(updatedQuestions);
-        if (result.success) {
-            toast({
-                title: "Success!",
-                description: "All questions have been updated in the database.",
-            });
-            router.push('/');
-        } else {
+        const result = await handleUpdateMultipleQuestions(
+            updatedQuestions,
+            { actor: readEditorName(), action: "batch-categorize" },
+            Object.fromEntries(updatedQuestions.map((q) => [q.id, q.updatedAt]))
+        );
+        const conflicts = result.conflicts ?? [];
+        if (!result.success && conflicts.length === 0) {
             throw new Error("Batch update failed on the server.");
         }
+        // The records as written carry the new updatedAt, so the next edit starts from it.
+        // Questions someone else saved while the AI ran keep their new version.
+        upsertQuestions([...result.questions, ...conflicts]);
+        toast(
+            conflicts.length > 0
+                ? {
+                      title: "Saved with Conflicts",
+                      description: `${conflicts.length} question(s) were changed by someone else in the meantime and were left as they are.`,
+                      variant: "destructive",
+                  }
+                : { title: "Success!", description: "All questions have been updated in the database." }
+        );
+        router.push('/');
     } catch(error) {
         console.error("Error saving multiple questions", error);
         toast({
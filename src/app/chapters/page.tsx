@@ -0,0 +1,267 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Combine, Loader2, Pencil, Split } from "lucide-react";
+import { handleMergeChapters, handleRenameChapter, handleSplitChapter } from "@/lib/actions";
+import { useQuestionBank } from "@/hooks/use-question-bank";
+import { setTaxonomy, useTaxonomy } from "@/hooks/use-taxonomy";
+import { readEditorName } from "@/context/lock-context";
+import { groupChapters } from "@/lib/taxonomy";
+
+type ChapterAction = { mode: "rename" | "merge" | "split"; chapter: string };
+
+const ACTION_TITLES: Record<ChapterAction["mode"], string> = {
+  rename: "Rename Chapter",
+  merge: "Merge Into Another Chapter",
+  split: "Move Questions to Another Chapter"
+};
+
+export default function ChaptersPage() {
+  const { questions, isLoading, upsertQuestions } = useQuestionBank();
+  const taxonomy = useTaxonomy();
+  const [action, setAction] = React.useState<ChapterAction | null>(null);
+
+  const router = useRouter();
+
+  const counts = React.useMemo(() => {
+    const map = new Map<string, number>();
+    questions.forEach((q) => map.set(q.chapter, (map.get(q.chapter) ?? 0) + 1));
+    return map;
+  }, [questions]);
+
+  const groups = React.useMemo(
+    () => groupChapters(taxonomy, questions.map((q) => q.chapter)),
+    [taxonomy, questions]
+  );
+  const allChapters = React.useMemo(() => groups.flatMap((g) => g.chapters), [groups]);
+
+  return (
+    <div className="min-h-screen bg-background text-foreground flex flex-col">
+      <header className="sticky top-0 z-10 flex items-center justify-between border-b border-border bg-background/80 p-4 backdrop-blur-sm">
+        <Button variant="outline" onClick={() => router.back()}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back
+        </Button>
+        <h1 className="font-headline text-2xl">Manage Chapters</h1>
+        <div className="w-[90px]"></div>
+      </header>
+
+      <main className="flex-1 container mx-auto max-w-4xl p-4 sm:p-8">
+        {isLoading ? (
+          <div className="flex justify-center items-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            <p className="ml-4 text-muted-foreground">Loading chapters...</p>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            {groups.map((group) => (
+              <Card key={group.subject} className="shadow-lg">
+                <CardHeader>
+                  <CardTitle className="font-headline text-xl">{group.subject}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {group.chapters.map((chapter) => (
+                    <div key={chapter} className="flex flex-wrap items-center gap-2 rounded-md border p-3">
+                      <p className="flex-1 min-w-[200px]">{chapter}</p>
+                      <Badge variant="secondary">{counts.get(chapter) ?? 0} question(s)</Badge>
+                      <Button variant="ghost" size="sm" onClick={() => setAction({ mode: "rename", chapter })}>
+                        <Pencil className="mr-2 h-4 w-4" />
+                        Rename
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={allChapters.length < 2}
+                        onClick={() => setAction({ mode: "merge", chapter })}
+                      >
+                        <Combine className="mr-2 h-4 w-4" />
+                        Merge
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={!counts.get(chapter)}
+                        onClick={() => setAction({ mode: "split", chapter })}
+                      >
+                        <Split className="mr-2 h-4 w-4" />
+                        Split
+                      </Button>
+                    </div>
+                  ))}
+                  {group.chapters.length === 0 && <p className="text-sm text-muted-foreground">No chapters.</p>}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </main>
+
+      {action && (
+        <ChapterActionDialog
+          action={action}
+          onClose={() => setAction(null)}
+          chapters={allChapters}
+          chapterQuestions={questions.filter((q) => q.chapter === action.chapter)}
+          onDone={(updated) => upsertQuestions(updated)}
+        />
+      )}
+    </div>
+  );
+}
+
+type ChapterActionDialogProps = {
+  action: ChapterAction;
+  onClose: () => void;
+  chapters: string[];
+  chapterQuestions: { id: string; questionText: string }[];
+  onDone: (updated: Awaited<ReturnType<typeof handleRenameChapter>>["updatedQuestions"]) => void;
+};
+
+function ChapterActionDialog({ action, onClose, chapters, chapterQuestions, onDone }: ChapterActionDialogProps) {
+  const { mode, chapter } = action;
+  const [target, setTarget] = React.useState(mode === "rename" ? chapter : "");
+  const [selectedIds, setSelectedIds] = React.useState<Set<string>>(new Set());
+  const [isWorking, setIsWorking] = React.useState(false);
+  const { toast } = useToast();
+
+  const otherChapters = chapters.filter((c) => c !== chapter);
+  const canSubmit =
+    !!target.trim() && target.trim() !== chapter && (mode !== "split" || selectedIds.size > 0);
+
+  const toggle = (id: string, checked: boolean) =>
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+
+  const submit = async () => {
+    setIsWorking(true);
+    try {
+      const actor = readEditorName();
+      const result =
+        mode === "rename"
+          ? await handleRenameChapter(chapter, target, actor)
+          : mode === "merge"
+            ? await handleMergeChapters(chapter, target, actor)
+            : await handleSplitChapter(chapter, [...selectedIds], target, actor);
+
+      if (!result.success) {
+        toast({ title: "Error", description: result.error || "The change was not applied.", variant: "destructive" });
+        return;
+      }
+      onDone(result.updatedQuestions);
+      if (result.taxonomy) setTaxonomy(result.taxonomy);
+      toast({
+        title: "Chapter Updated",
+        description: `Moved ${result.updatedQuestions.length} question(s) to "${target.trim()}".`
+      });
+      onClose();
+    } catch (error) {
+      console.error("Error updating chapter", error);
+      toast({ title: "Error", description: "The change was not applied.", variant: "destructive" });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-headline text-2xl">{ACTION_TITLES[mode]}</DialogTitle>
+          <DialogDescription>{chapter}</DialogDescription>
+        </DialogHeader>
+
+        {mode === "merge" ? (
+          <div className="space-y-2">
+            <Label>Merge into</Label>
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a chapter" />
+              </SelectTrigger>
+              <SelectContent>
+                {otherChapters.map((c) => (
+                  <SelectItem key={c} value={c}>
+                    {c}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              All {chapterQuestions.length} question(s) move to the selected chapter, and this chapter is removed.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="chapter-target">{mode === "rename" ? "New name" : "Move to chapter"}</Label>
+            <Input
+              id="chapter-target"
+              list="chapter-names"
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              placeholder="An existing chapter or a new name"
+            />
+            <datalist id="chapter-names">
+              {otherChapters.map((c) => (
+                <option key={c} value={c} />
+              ))}
+            </datalist>
+            {mode === "rename" && otherChapters.includes(target.trim()) && (
+              <p className="text-xs text-amber-500">That chapter exists already; this will merge the two.</p>
+            )}
+          </div>
+        )}
+
+        {mode === "split" && (
+          <ScrollArea className="h-72 rounded-md border p-2">
+            <div className="space-y-2">
+              {chapterQuestions.map((q) => (
+                <div key={q.id} className="flex items-start space-x-2">
+                  <Checkbox
+                    id={`split-${q.id}`}
+                    className="mt-1"
+                    checked={selectedIds.has(q.id)}
+                    onCheckedChange={(c) => toggle(q.id, c === true)}
+                  />
+                  <Label htmlFor={`split-${q.id}`} className="font-normal">
+                    {q.questionText}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={submit} disabled={!canSubmit || isWorking}>
+            {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {mode === "split" ? `Move ${selectedIds.size} Question(s)` : "Apply"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
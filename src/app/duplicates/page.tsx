@@ -5,13 +5,22 @@ import { useRouter } from "next/navigation";
 import { type Question } from "@/types";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, Loader2, Trash2, ShieldCheck } from "lucide-react";
-import { db } from "@/lib/firebase";
-import { collection, getDocs, query, orderBy } from "firebase/firestore";
-import { handleFindDuplicateQuestions, handleDeleteQuestion } from "@/lib/actions";
+import { ToastAction } from "@/components/ui/toast";
+import { ArrowLeft, Combine, Loader2, Trash2, ShieldCheck } from "lucide-react";
+import {
+  handleDeleteQuestion,
+  handleRestoreQuestions
+} from "@/lib/actions";
+import { DEFAULT_NEAR_THRESHOLD, findDuplicateGroups, type DuplicateGroup } from "@/lib/duplicates";
+import { useQuestionBank } from "@/hooks/use-question-bank";
+import { MergeQuestionsDialog } from "@/components/qbank/merge-questions-dialog";
+import { readEditorName } from "@/context/lock-context";
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Slider } from "@/components/ui/slider";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -24,91 +33,29 @@ import {
   AlertDialogTrigger
 } from "@/components/ui/alert-dialog";
 
-/* ---------------------------------- */
-/* Helper: upgrade partial -> Question */
-/* ---------------------------------- */
-function toFullQuestion(partial: Partial<Question>, byId: Map<string, Question>): Question {
-  // لو السؤال موجود كامل من فايرستور، رجّعه مباشرة
-  const fromDb = partial?.id ? byId.get(partial.id) : undefined;
-  if (fromDb) return fromDb;
-
-  const now = new Date().toISOString();
-  const options = Array.isArray(partial?.options) ? partial!.options! : [];
-  const correct =
-    typeof partial?.correctAnswer === "string" || Array.isArray(partial?.correctAnswer)
-      ? partial!.correctAnswer!
-      : (options[0] ?? "");
-
-  return {
-    id: partial?.id ?? (typeof crypto !== "undefined" && crypto.randomUUID ? crypto.randomUUID() : `q_${Math.random().toString(36).slice(2)}`),
-    questionText: partial?.questionText ?? "",
-    options,
-    correctAnswer: correct, // يطابق union: string | string[]
-    chapter: partial?.chapter ?? "",
-    subject: partial?.subject ?? "Cyber Security",
-    questionType: partial?.questionType ?? "mcq",
-    difficulty: partial?.difficulty ?? "medium",
-    language: partial?.language ?? "en",
-    createdAt: partial?.createdAt ?? now,
-    updatedAt: partial?.updatedAt ?? now,
-  };
-}
-
-
 export default function DuplicatesPage() {
-  const [allQuestions, setAllQuestions] = React.useState<Question[]>([]);
-  const [duplicateGroups, setDuplicateGroups] = React.useState<Question[][]>([]);
+  const { refresh, upsertQuestions, removeQuestions } = useQuestionBank();
+  const [bank, setBank] = React.useState<Question[]>([]);
   const [isLoading, setIsLoading] = React.useState(true);
   const [isDeleting, setIsDeleting] = React.useState<Record<string, boolean>>({});
   const [removedCount, setRemovedCount] = React.useState(0);
+  const [threshold, setThreshold] = React.useState(DEFAULT_NEAR_THRESHOLD);
+  // The slider moves faster than the bank can be regrouped.
+  const deferredThreshold = React.useDeferredValue(threshold);
 
   const router = useRouter();
   const { toast } = useToast();
 
   React.useEffect(() => {
-    const fetchAndFindDuplicates = async () => {
+    const loadBank = async () => {
       setIsLoading(true);
       try {
-        // 1) Fetch all questions (نسخ كاملة من فايرستور)
-        const questionsCollection = collection(db, "questions");
-        const q = query(questionsCollection, orderBy("createdAt", "desc"));
-        const querySnapshot = await getDocs(q);
-        const questionsData = querySnapshot.docs.map(
-          (doc) => ({ id: doc.id, ...doc.data() } as Question)
-        );
-        setAllQuestions(questionsData);
-
-        // 2) استخدم الـ AI للعثور على المجموعات المتشابهة (قد ترجع عناصر ناقصة الحقول)
-        if (questionsData.length > 0) {
-          const rawResults /* any[][] */ = await handleFindDuplicateQuestions({
-            questionBank: questionsData
-          });
-
-          // تجاهل المجموعات التي أقل من عنصرين
-          const actualDuplicates = (rawResults || []).filter(
-            (group: any[]) => Array.isArray(group) && group.length > 1
-          );
-
-          // 3) Hydration: اربط كل عنصر جزئي بالنسخة الكاملة أو أنشئ نسخة كاملة افتراضيًا
-          const byId = new Map(questionsData.map((q) => [q.id, q] as const));
-          const hydrated: Question[][] = actualDuplicates.map((group: any[]) =>
-            group.map((partial) => toFullQuestion(partial, byId))
-          );
-
-          setDuplicateGroups(hydrated);
-
-          if (hydrated.length === 0) {
-            toast({
-              title: "No Duplicates Found",
-              description: "The AI did not find any duplicate questions in your question bank."
-            });
-          }
-        }
+        setBank(await refresh());
       } catch (error) {
-        console.error("Error finding duplicates: ", error);
+        console.error("Error loading questions: ", error);
         toast({
           title: "Error",
-          description: "Could not find duplicate questions. See console for details.",
+          description: "Could not load the question bank. See console for details.",
           variant: "destructive"
         });
       } finally {
@@ -116,8 +63,10 @@ export default function DuplicatesPage() {
       }
     };
 
-    fetchAndFindDuplicates();
-  }, [toast]);
+    loadBank();
+  }, [toast, refresh]);
+
+  const report = React.useMemo(() => findDuplicateGroups(bank, deferredThreshold), [bank, deferredThreshold]);
 
   const handleRemoveDuplicates = async (group: Question[], keepId: string) => {
     if (!keepId) {
@@ -129,17 +78,18 @@ export default function DuplicatesPage() {
       return;
     }
 
-    const groupId = group[0].id;
+    const groupId = groupKey(group);
     setIsDeleting((prev) => ({ ...prev, [groupId]: true }));
 
     const questionsToDelete = group.filter((q) => q.id !== keepId);
-    let deletedCount = 0;
+    const deletedIds: string[] = [];
+    const actor = readEditorName();
 
     for (const question of questionsToDelete) {
       try {
-        const res = await handleDeleteQuestion(question.id);
+        const res = await handleDeleteQuestion(question.id, actor);
         if (res?.success) {
-          deletedCount++;
+          deletedIds.push(question.id);
         } else {
           toast({
             title: `Error deleting Q# ${question.id}`,
@@ -156,21 +106,56 @@ export default function DuplicatesPage() {
       }
     }
 
+    const deletedCount = deletedIds.length;
+    removeQuestions(deletedIds);
+    setBank((prev) => prev.filter((q) => !deletedIds.includes(q.id)));
     setRemovedCount((prev) => prev + deletedCount);
-    // احذف المجموعة من الواجهة
-    setDuplicateGroups((prev) => prev.filter((g) => g[0].id !== groupId));
 
     toast({
       title: "Duplicates Removed",
-      description: `Removed ${deletedCount} question(s). Kept question ID: ${keepId}.`
+      description: `Moved ${deletedCount} question(s) to the trash. Kept question ID: ${keepId}.`,
+      action: deletedCount > 0 ? (
+        <ToastAction altText="Undo removal" onClick={() => undoRemoveDuplicates(deletedIds)}>
+          Undo
+        </ToastAction>
+      ) : undefined
     });
 
     setIsDeleting((prev) => ({ ...prev, [groupId]: false }));
   };
 
-  const totalDuplicateQuestions = React.useMemo(() => {
-    return duplicateGroups.reduce((acc, group) => acc + group.length, 0);
-  }, [duplicateGroups]);
+  const handleMerged = (survivor: Question, retiredIds: string[]) => {
+    upsertQuestions([survivor]);
+    removeQuestions(retiredIds);
+    setBank((prev) => prev.filter((q) => !retiredIds.includes(q.id)).map((q) => (q.id === survivor.id ? survivor : q)));
+    setRemovedCount((prev) => prev + retiredIds.length);
+    toast({
+      title: "Duplicates Merged",
+      description: `Merged ${retiredIds.length} question(s) into Q# ${survivor.id}. The merged copies are in the trash.`
+    });
+  };
+
+  const undoRemoveDuplicates = async (deletedIds: string[]) => {
+    try {
+      const res = await handleRestoreQuestions(deletedIds);
+      if (!res.success) throw new Error("Restore failed on the server.");
+      upsertQuestions(res.restoredQuestions);
+      // The restored questions regroup on their own.
+      setBank((prev) => [...prev.filter((q) => !deletedIds.includes(q.id)), ...res.restoredQuestions]);
+      setRemovedCount((prev) => prev - res.restoredQuestions.length);
+      toast({
+        title: "Removal Undone",
+        description: `Restored ${res.restoredQuestions.length} question(s).`
+      });
+    } catch (error) {
+      console.error("Failed to undo duplicate removal", error);
+      toast({
+        title: "Undo Failed",
+        description: "Restore the questions from the Trash page instead.",
+        variant: "destructive"
+      });
+    }
+  };
 
   return (
     <div className="min-h-screen bg-background text-foreground flex flex-col">
@@ -194,53 +179,119 @@ export default function DuplicatesPage() {
             <p className="ml-4 text-muted-foreground">Finding duplicate questions...</p>
           </div>
         ) : (
-          <>
-            {duplicateGroups.length > 0 ? (
-              <div className="space-y-8">
-                <p className="text-center text-muted-foreground">
-                  Found {totalDuplicateQuestions} questions across {duplicateGroups.length} duplicate
-                  groups.
+          <Tabs defaultValue="exact">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="exact">Exact ({report.exact.length})</TabsTrigger>
+              <TabsTrigger value="near">Near ({report.near.length})</TabsTrigger>
+            </TabsList>
+            <TabsContent value="exact" className="space-y-8 pt-4">
+              <p className="text-center text-sm text-muted-foreground">
+                Same question text and same correct answers, ignoring case, spacing, punctuation and
+                Arabic diacritics.
+              </p>
+              <DuplicateGroupList
+                groups={report.exact}
+                onRemove={handleRemoveDuplicates}
+                onMerged={handleMerged}
+                isDeleting={isDeleting}
+              />
+            </TabsContent>
+            <TabsContent value="near" className="space-y-8 pt-4">
+              <div className="space-y-2 rounded-md border p-4">
+                <div className="flex items-center justify-between text-sm">
+                  <Label>Similarity threshold</Label>
+                  <span className="font-semibold">{Math.round(threshold * 100)}%</span>
+                </div>
+                <Slider
+                  min={0.7}
+                  max={1}
+                  step={0.01}
+                  value={[threshold]}
+                  onValueChange={([value]) => setThreshold(value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Questions whose text is at least this similar. Lower it to catch rewordings; raise it
+                  if unrelated questions are grouped.
                 </p>
-                {duplicateGroups.map((group, index) => (
-                  <DuplicateGroupCard
-                    key={group[0]?.id || index}
-                    group={group}
-                    groupIndex={index}
-                    onRemove={handleRemoveDuplicates}
-                    isDeleting={isDeleting[group[0]?.id] || false}
-                  />
-                ))}
               </div>
-            ) : (
-              <div className="text-center py-16 text-muted-foreground">
-                <ShieldCheck className="mx-auto h-16 w-16 text-green-500 mb-4" />
-                <h3 className="font-headline text-2xl mb-2">No Duplicates Found</h3>
-                <p>Your question bank is clean. Great job!</p>
-              </div>
-            )}
-          </>
+              <DuplicateGroupList
+                groups={report.near}
+                onRemove={handleRemoveDuplicates}
+                onMerged={handleMerged}
+                isDeleting={isDeleting}
+              />
+            </TabsContent>
+          </Tabs>
         )}
       </main>
     </div>
   );
 }
 
+// Groups change as questions are removed, so they are keyed by their members.
+const groupKey = (group: Question[]) => group.map((q) => q.id).join(",");
+
+type DuplicateGroupListProps = {
+  groups: DuplicateGroup[];
+  onRemove: (group: Question[], keepId: string) => void;
+  onMerged: (survivor: Question, retiredIds: string[]) => void;
+  isDeleting: Record<string, boolean>;
+};
+
+function DuplicateGroupList({ groups, onRemove, onMerged, isDeleting }: DuplicateGroupListProps) {
+  if (groups.length === 0) {
+    return (
+      <div className="text-center py-16 text-muted-foreground">
+        <ShieldCheck className="mx-auto h-16 w-16 text-green-500 mb-4" />
+        <h3 className="font-headline text-2xl mb-2">No Duplicates Found</h3>
+        <p>Your question bank is clean. Great job!</p>
+      </div>
+    );
+  }
+  const total = groups.reduce((acc, group) => acc + group.questions.length, 0);
+  return (
+    <>
+      <p className="text-center text-muted-foreground">
+        Found {total} questions across {groups.length} duplicate groups.
+      </p>
+      {groups.map((group, index) => (
+        <DuplicateGroupCard
+          key={`${group.kind}-${groupKey(group.questions)}`}
+          group={group}
+          groupIndex={index}
+          onRemove={onRemove}
+          onMerged={onMerged}
+          isDeleting={isDeleting[groupKey(group.questions)] || false}
+        />
+      ))}
+    </>
+  );
+}
+
 type DuplicateGroupCardProps = {
-  group: Question[];
+  group: DuplicateGroup;
   groupIndex: number;
   onRemove: (group: Question[], keepId: string) => void;
+  onMerged: (survivor: Question, retiredIds: string[]) => void;
   isDeleting: boolean;
 };
 
-function DuplicateGroupCard({ group, groupIndex, onRemove, isDeleting }: DuplicateGroupCardProps) {
+function DuplicateGroupCard({ group: { kind, questions: group, similarity, sameAnswers }, groupIndex, onRemove, onMerged, isDeleting }: DuplicateGroupCardProps) {
   const [keepId, setKeepId] = React.useState<string>(group[0]?.id || "");
+  const [isMergeOpen, setIsMergeOpen] = React.useState(false);
 
   if (!group || group.length < 2) return null;
 
   return (
     <Card className="border-2 border-amber-500/50 shadow-lg">
       <CardHeader>
-        <CardTitle className="font-headline text-xl">Duplicate Group #{groupIndex + 1}</CardTitle>
+        <div className="flex flex-wrap items-center gap-2">
+          <CardTitle className="font-headline text-xl">Duplicate Group #{groupIndex + 1}</CardTitle>
+          <Badge variant="outline">
+            {kind === "exact" ? "Exact match" : `${Math.round(similarity * 100)}% similar`}
+          </Badge>
+          {!sameAnswers && <Badge variant="destructive">Different answers</Badge>}
+        </div>
       </CardHeader>
       <CardContent>
         <RadioGroup value={keepId} onValueChange={setKeepId}>
@@ -256,6 +307,14 @@ function DuplicateGroupCard({ group, groupIndex, onRemove, isDeleting }: Duplica
                   <p className="text-xs text-muted-foreground mt-1">
                     ID: {question.id} | Chapter: {question.chapter} | Options:{" "}
                     {question.options?.length || 0}
+                    {kind === "near" && (
+                      <>
+                        {" "}| Answer:{" "}
+                        {Array.isArray(question.correctAnswer)
+                          ? question.correctAnswer.join(", ")
+                          : question.correctAnswer}
+                      </>
+                    )}
                   </p>
                 </Label>
               </div>
@@ -263,7 +322,11 @@ function DuplicateGroupCard({ group, groupIndex, onRemove, isDeleting }: Duplica
           </div>
         </RadioGroup>
       </CardContent>
-      <CardFooter>
+      <CardFooter className="flex flex-wrap gap-2">
+        <Button variant="secondary" disabled={isDeleting || !keepId} onClick={() => setIsMergeOpen(true)}>
+          <Combine className="mr-2 h-4 w-4" />
+          Merge Group
+        </Button>
         <AlertDialog>
           <AlertDialogTrigger asChild>
             <Button variant="destructive" disabled={isDeleting}>
@@ -279,8 +342,8 @@ function DuplicateGroupCard({ group, groupIndex, onRemove, isDeleting }: Duplica
             <AlertDialogHeader>
               <AlertDialogTitle>Are you sure?</AlertDialogTitle>
               <AlertDialogDescription>
-                This will permanently delete {group.length - 1} question(s). The question you selected
-                to keep will remain. This action cannot be undone.
+                This will move {group.length - 1} question(s) to the trash. The question you selected
+                to keep will remain. You can undo this or restore them from the Trash page.
               </AlertDialogDescription>
             </AlertDialogHeader>
             <AlertDialogFooter>
@@ -292,6 +355,15 @@ function DuplicateGroupCard({ group, groupIndex, onRemove, isDeleting }: Duplica
           </AlertDialogContent>
         </AlertDialog>
       </CardFooter>
+      {isMergeOpen && (
+        <MergeQuestionsDialog
+          isOpen={isMergeOpen}
+          setIsOpen={setIsMergeOpen}
+          group={group}
+          survivorId={keepId}
+          onMerged={onMerged}
+        />
+      )}
     </Card>
   );
 }
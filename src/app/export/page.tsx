@@ -6,12 +6,16 @@ import { useRouter } from "next/navigation";
 import { type Question } from "@/types";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { Copy, ArrowLeft, Loader2, Printer } from "lucide-react";
+import { Copy, ArrowLeft, Loader2, Printer, Package } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
+import { handleReadQuestionImages } from "@/lib/actions";
+import { buildQtiPackage, canExportToQti, qtiPackageFileName } from "@/lib/formats/qti";
+import { downloadFile } from "@/lib/download";
 
 export default function ExportPage() {
   const [questions, setQuestions] = React.useState<Question[]>([]);
   const [isLoading, setIsLoading] = React.useState(true);
+  const [isPackaging, setIsPackaging] = React.useState(false);
   const router = useRouter();
   const { toast } = useToast();
 
@@ -155,6 +159,51 @@ export default function ExportPage() {
     }
   };
 
+  // ✅ QTI 2.1 zip for Canvas / Blackboard; images are read on the server and packaged too
+  const handleExportQti = async () => {
+    if (!questions.length) return;
+    // Questions without options would make the whole package invalid.
+    const packable = questions.filter(canExportToQti);
+    const skippedQuestions = questions.length - packable.length;
+    if (packable.length === 0) {
+      toast({
+        title: "Nothing to package",
+        description: "None of the selected questions has options, which QTI needs.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setIsPackaging(true);
+    try {
+      const withImages = packable.filter((q) => q.imageUrl).map((q) => q.id);
+      const imageResult = withImages.length
+        ? await handleReadQuestionImages(withImages)
+        : { success: true, images: {}, missingImages: [] };
+      const bytes = await buildQtiPackage(packable, imageResult.images);
+      downloadFile(bytes, qtiPackageFileName(), "application/zip");
+
+      const skipped = imageResult.success
+        ? imageResult.missingImages.length
+        : withImages.length;
+      toast({
+        title: "QTI package ready",
+        description:
+          `${packable.length} question(s) packaged.` +
+          (skippedQuestions > 0 ? ` ${skippedQuestions} question(s) without options were left out.` : "") +
+          (skipped > 0 ? ` ${skipped} image(s) could not be included.` : ""),
+      });
+    } catch (error) {
+      console.error("Failed to build QTI package", error);
+      toast({
+        title: "Export failed",
+        description: "Could not build the QTI package.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPackaging(false);
+    }
+  };
+
   const handleExportPdf = () => {
     if (!questions.length || isLoading) return;
     window.print();
@@ -189,6 +238,20 @@ export default function ExportPage() {
               Export PDF
             </Button>
 
+            <Button
+              variant="outline"
+              onClick={handleExportQti}
+              disabled={!questions.length || isLoading || isPackaging}
+              className="h-10 w-full sm:w-auto"
+            >
+              {isPackaging ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Package className="mr-2 h-4 w-4" />
+              )}
+              QTI Package
+            </Button>
+
             <Button
               onClick={handleCopy}
               disabled={!questions.length || isLoading}
@@ -6,8 +6,11 @@ import { type Question } from "@/types";
 import Header from "@/components/qbank/header";
 import QuestionList from "@/components/qbank/question-list";
 import { ExplanationPanel } from "@/components/qbank/explanation-panel";
-import { db } from "@/lib/firebase";
-import { collection, getDocs, orderBy, query } from "firebase/firestore";
+import { useQuestionBank } from "@/hooks/use-question-bank";
+import { useTaxonomy } from "@/hooks/use-taxonomy";
+import { createChapterRank, groupChapters } from "@/lib/taxonomy";
+import { mergedIdMap } from "@/lib/merge-questions";
+import { buildSearchIndex, searchQuestions } from "@/lib/search-index";
 import { Skeleton } from "@/components/ui/skeleton";
 import FilterSheet from "@/components/qbank/filter-sheet";
 import { LockProvider } from "@/context/lock-context";
@@ -32,8 +35,8 @@ import {
   getSimilarOptionsMeta,
   extractOptions,
   diceSimilarity,
-  normalizeText,
 } from "@/components/qbank/similar-options";
+import { normalizeText } from "@/lib/normalize-text";
 
 const EXAM_QUESTION_COUNT = 90;
 const RECENT_DAYS = 10;
@@ -65,14 +68,9 @@ const getCreatedAtDate = (val: any): Date | null => {
   return isNaN(d.getTime()) ? null : d;
 };
 
-const getChapterNumber = (chapterString: string) => {
-  const match = chapterString?.match?.(/Chapter (\d+)/);
-  return match ? parseInt(match[1], 10) : Infinity;
-};
-
 export default function Home() {
-  const [questions, setQuestions] = React.useState<Question[]>([]);
-  const [isLoading, setIsLoading] = React.useState(true);
+  const { questions, isLoading, upsertQuestions, removeQuestions } = useQuestionBank();
+  const taxonomy = useTaxonomy();
   const [filteredQuestions, setFilteredQuestions] = React.useState<Question[]>([]);
   const [searchQuery, setSearchQuery] = React.useState("");
   const [filters, setFilters] = React.useState(initialFilters);
@@ -99,33 +97,49 @@ export default function Home() {
 
   const [savedQuestionIds, setSavedQuestionIds] = React.useState<string[]>([]);
 
-  const fetchQuestions = React.useCallback(async () => {
-    setIsLoading(true);
-    try {
-      const questionsCollection = collection(db, "questions");
-      const q = query(questionsCollection, orderBy("createdAt", "desc"));
-      const querySnapshot = await getDocs(q);
-      const questionsData = querySnapshot.docs.map(
-        (doc) => ({ id: doc.id, ...doc.data() } as Question)
-      );
-      setQuestions(questionsData);
-    } catch (error) {
-      console.error("Error fetching questions: ", error);
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
-
+  // Bookmarks and answers on a question merged into another follow the surviving question.
   React.useEffect(() => {
-    fetchQuestions();
-  }, [fetchQuestions]);
-
-  const allChapters = React.useMemo(() => {
-    const chapters = new Set<string>();
-    questions.forEach((q) => q.chapter && chapters.add(q.chapter));
-    return Array.from(chapters).sort((a, b) => getChapterNumber(a) - getChapterNumber(b));
+    const survivorOf = mergedIdMap(questions);
+    if (survivorOf.size === 0) return;
+    setSavedQuestionIds((prev) =>
+      prev.some((id) => survivorOf.has(id))
+        ? [...new Set(prev.map((id) => survivorOf.get(id) ?? id))]
+        : prev
+    );
+    setUserAnswers((prev) => {
+      const merged = Object.keys(prev).filter((id) => survivorOf.has(id));
+      if (merged.length === 0) return prev;
+      const next = { ...prev };
+      for (const id of merged) {
+        const survivorId = survivorOf.get(id)!;
+        // An answer given on the survivor itself wins.
+        if (!(survivorId in next)) next[survivorId] = prev[id];
+        delete next[id];
+      }
+      return next;
+    });
   }, [questions]);
 
+  // Chapter order comes from the taxonomy page.
+  const chapterRank = React.useMemo(() => createChapterRank(taxonomy), [taxonomy]);
+
+  const chapterGroups = React.useMemo(
+    () => groupChapters(taxonomy, questions.map((q) => q.chapter)),
+    [taxonomy, questions]
+  );
+
+  const searchIndex = React.useMemo(() => buildSearchIndex(questions), [questions]);
+  // Typing stays responsive while the list is searched and re-ranked.
+  const deferredSearchQuery = React.useDeferredValue(searchQuery);
+  const searchHits = React.useMemo(
+    () => (deferredSearchQuery.trim() ? searchQuestions(searchIndex, deferredSearchQuery) : null),
+    [searchIndex, deferredSearchQuery]
+  );
+  const highlightTerms = React.useMemo(
+    () => (searchHits ? new Map(searchHits.map((hit) => [hit.id, hit.terms])) : undefined),
+    [searchHits]
+  );
+
   // meta: similar options inside same question
   const similarMetaById = React.useMemo(() => {
     const map = new Map<string, ReturnType<typeof getSimilarOptionsMeta>>();
@@ -218,11 +232,11 @@ export default function Home() {
     (arr: Question[]) => {
       if (sort === "random") return seededShuffle(arr, randomSeed);
       if (sort === "chapter_desc") {
-        return [...arr].sort((a, b) => getChapterNumber(b.chapter) - getChapterNumber(a.chapter));
+        return [...arr].sort((a, b) => chapterRank(b.chapter) - chapterRank(a.chapter));
       }
       return arr;
     },
-    [sort, seededShuffle, randomSeed]
+    [sort, seededShuffle, randomSeed, chapterRank]
   );
 
   // nearest-neighbor order for similar bucket (options-only)
@@ -282,7 +296,7 @@ export default function Home() {
     if (isExamMode) return;
 
     const chapterSorted = [...questions].sort(
-      (a, b) => getChapterNumber(a.chapter) - getChapterNumber(b.chapter)
+      (a, b) => chapterRank(a.chapter) - chapterRank(b.chapter)
     );
 
     let temp = chapterSorted;
@@ -324,9 +338,10 @@ export default function Home() {
       });
     }
 
-    if (searchQuery) {
-      const sq = searchQuery.toLowerCase();
-      temp = temp.filter((q) => q.questionText?.toLowerCase().includes(sq));
+    // Search results are ranked by relevance instead of the chosen sort.
+    if (searchHits) {
+      const rank = new Map(searchHits.map((hit, i) => [hit.id, i]));
+      temp = temp.filter((q) => rank.has(q.id)).sort((a, b) => rank.get(a.id)! - rank.get(b.id)!);
     }
 
     if (filters.showSavedOnly) {
@@ -352,23 +367,28 @@ export default function Home() {
       const orderedOther = sortWithin(otherBucket);
 
       setFilteredQuestions([...orderedSimilar, ...orderedOther]);
-      setUserAnswers({});
       return;
     }
 
-    setFilteredQuestions(sortWithin(temp));
-    setUserAnswers({});
+    setFilteredQuestions(searchHits ? temp : sortWithin(temp));
   }, [
     isExamMode,
     questions,
+    chapterRank,
     filters,
-    searchQuery,
+    searchHits,
     savedQuestionIds,
     similarMetaById,
     orderSimilarQuestions,
     sortWithin,
   ]);
 
+  // Answers start over when the user picks other questions, not when the list itself
+  // changes: another admin's save must not wipe answers in the middle of an exam.
+  React.useEffect(() => {
+    setUserAnswers({});
+  }, [filters, searchQuery, isExamMode]);
+
   React.useEffect(() => {
     const onWinScroll = () => setShowBackToTop(window.scrollY > 200);
     window.addEventListener("scroll", onWinScroll, { passive: true });
@@ -434,27 +454,16 @@ export default function Home() {
   };
 
   const handleQuestionsAdded = (newQuestions: Question[]) => {
-    const combined = [...questions];
-    newQuestions.forEach((newQ) => {
-      const idx = combined.findIndex((q) => q.id === newQ.id);
-      if (idx !== -1) combined[idx] = newQ;
-      else combined.push(newQ);
-    });
-
-    combined.sort(
-      (a: any, b: any) =>
-        (getCreatedAtDate(b?.createdAt)?.getTime() ?? 0) -
-        (getCreatedAtDate(a?.createdAt)?.getTime() ?? 0)
-    );
-    setQuestions(combined);
+    upsertQuestions(newQuestions);
   };
 
   const handleQuestionDeleted = (questionId: string) => {
-    setQuestions(questions.filter((q) => q.id !== questionId));
+    removeQuestions([questionId]);
   };
 
+  // Also re-inserts questions that were restored from the trash (e.g. "Undo" on a delete toast).
   const handleQuestionUpdated = (updatedQuestion: Question) => {
-    setQuestions(questions.map((q) => (q.id === updatedQuestion.id ? updatedQuestion : q)));
+    upsertQuestions([updatedQuestion]);
   };
 
   const toggleSaveQuestion = (questionId: string) => {
@@ -478,7 +487,7 @@ export default function Home() {
           setIsOpen={setIsFilterSheetOpen}
           filters={filters}
           setFilters={setFilters}
-          chapters={allChapters}
+          chapterGroups={chapterGroups}
           sort={sort}
           setSort={setSort}
           disabled={isExamMode}
@@ -555,6 +564,7 @@ export default function Home() {
                 isExamFinished={isExamFinished}
                 userAnswers={userAnswers}
                 onSubmitExam={submitExam}
+                highlightTerms={isExamMode ? undefined : highlightTerms}
               />
             )}
           </main>
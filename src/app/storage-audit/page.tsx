@@ -0,0 +1,205 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Loader2, RefreshCcw, ShieldCheck, Trash2 } from "lucide-react";
+import { handleAuditQuestionImages, handleDeleteOrphanedImages } from "@/lib/actions";
+import { type OrphanedImage, type OrphanReason } from "@/lib/question-images";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from "@/components/ui/alert-dialog";
+
+const REASON_LABELS: Record<OrphanReason, string> = {
+  "question-missing": "Question deleted",
+  "image-replaced": "Image replaced"
+};
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function StorageAuditPage() {
+  const [orphans, setOrphans] = React.useState<OrphanedImage[]>([]);
+  const [selectedPaths, setSelectedPaths] = React.useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [isDeleting, setIsDeleting] = React.useState(false);
+
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const runAudit = React.useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await handleAuditQuestionImages();
+      if (!result.success) throw new Error("Audit failed on the server.");
+      setOrphans(result.orphans);
+      setSelectedPaths(new Set());
+    } catch (error) {
+      console.error("Error auditing storage: ", error);
+      toast({
+        title: "Error auditing storage",
+        description: "Could not list the files in Storage.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  React.useEffect(() => {
+    runAudit();
+  }, [runAudit]);
+
+  const toggleSelected = (path: string, checked: boolean) => {
+    setSelectedPaths((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(path);
+      else next.delete(path);
+      return next;
+    });
+  };
+
+  const allSelected = orphans.length > 0 && selectedPaths.size === orphans.length;
+  const totalSize = orphans.reduce((acc, o) => acc + o.size, 0);
+
+  const deleteSelected = async () => {
+    const paths = [...selectedPaths];
+    setIsDeleting(true);
+    try {
+      const result = await handleDeleteOrphanedImages(paths);
+      const deleted = new Set(result.deletedPaths);
+      setOrphans((prev) => prev.filter((o) => !deleted.has(o.path)));
+      setSelectedPaths((prev) => new Set([...prev].filter((p) => !deleted.has(p))));
+
+      if (result.success) {
+        toast({ title: "Files Deleted", description: `Removed ${deleted.size} orphaned file(s).` });
+      } else {
+        toast({
+          title: "Some Files Were Kept",
+          description: `Removed ${deleted.size} of ${paths.length} file(s). Run the audit again to see what is left.`,
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      console.error("Error deleting orphaned files", error);
+      toast({ title: "Error", description: "Could not delete the selected files.", variant: "destructive" });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-foreground flex flex-col">
+      <header className="sticky top-0 z-10 flex items-center justify-between border-b border-border bg-background/80 p-4 backdrop-blur-sm">
+        <Button variant="outline" onClick={() => router.back()}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back
+        </Button>
+        <h1 className="font-headline text-2xl">Storage Audit</h1>
+        <div className="w-[90px]"></div>
+      </header>
+
+      <main className="flex-1 container mx-auto max-w-4xl p-4 sm:p-8">
+        {isLoading ? (
+          <div className="flex justify-center items-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            <p className="ml-4 text-muted-foreground">Scanning question images...</p>
+          </div>
+        ) : orphans.length === 0 ? (
+          <div className="text-center py-16 text-muted-foreground">
+            <ShieldCheck className="mx-auto h-16 w-16 text-green-500 mb-4" />
+            <h3 className="font-headline text-2xl mb-2">No Orphaned Files</h3>
+            <p>Every file under question-images/ belongs to a question.</p>
+            <Button variant="outline" className="mt-6" onClick={runAudit}>
+              <RefreshCcw className="mr-2 h-4 w-4" />
+              Run Again
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-center text-muted-foreground">
+              Found {orphans.length} file(s) ({formatSize(totalSize)}) that no question references.
+            </p>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="select-all"
+                  checked={allSelected}
+                  onCheckedChange={(c) => setSelectedPaths(c === true ? new Set(orphans.map((o) => o.path)) : new Set())}
+                />
+                <Label htmlFor="select-all">
+                  Select all ({selectedPaths.size} / {orphans.length})
+                </Label>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={runAudit} disabled={isDeleting}>
+                  <RefreshCcw className="mr-2 h-4 w-4" />
+                  Run Again
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="destructive" disabled={isDeleting || selectedPaths.size === 0}>
+                      {isDeleting ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Trash2 className="mr-2 h-4 w-4" />
+                      )}
+                      Delete Selected
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        This will permanently delete {selectedPaths.size} file(s) from Storage. This action cannot be
+                        undone.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={deleteSelected}>Yes, delete files</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </div>
+
+            {orphans.map((orphan) => (
+              <div key={orphan.path} className="flex items-start space-x-4 rounded-md border p-4">
+                <Checkbox
+                  id={orphan.path}
+                  className="mt-1"
+                  checked={selectedPaths.has(orphan.path)}
+                  onCheckedChange={(c) => toggleSelected(orphan.path, c === true)}
+                />
+                <Label htmlFor={orphan.path} className="flex-1 min-w-0">
+                  <p className="font-mono text-sm break-all">{orphan.path}</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {formatSize(orphan.size)}
+                    {orphan.updated ? ` | Uploaded ${new Date(orphan.updated).toLocaleString()}` : ""}
+                  </p>
+                </Label>
+                <Badge variant="secondary">{REASON_LABELS[orphan.reason]}</Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { type Taxonomy, type TaxonomySubject } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowDown, ArrowLeft, ArrowUp, Loader2, PlusCircle, Save, Trash2 } from "lucide-react";
+import { handleGetTaxonomy, handleSaveTaxonomy } from "@/lib/actions";
+import { setTaxonomy } from "@/hooks/use-taxonomy";
+import { useQuestionBank } from "@/hooks/use-question-bank";
+
+const newId = () =>
+  typeof crypto !== "undefined" && crypto.randomUUID ? crypto.randomUUID() : `t_${Math.random().toString(36).slice(2)}`;
+
+function move<T>(list: T[], index: number, delta: number): T[] {
+  const target = index + delta;
+  if (target < 0 || target >= list.length) return list;
+  const copy = [...list];
+  [copy[index], copy[target]] = [copy[target], copy[index]];
+  return copy;
+}
+
+export default function TaxonomyPage() {
+  const [draft, setDraft] = React.useState<Taxonomy | null>(null);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [isDirty, setIsDirty] = React.useState(false);
+
+  const router = useRouter();
+  const { toast } = useToast();
+  const { questions } = useQuestionBank();
+
+  React.useEffect(() => {
+    handleGetTaxonomy()
+      .then(setDraft)
+      .catch((error) => {
+        console.error("Error fetching taxonomy: ", error);
+        toast({
+          title: "Error fetching subjects",
+          description: "Could not load the subjects and chapters.",
+          variant: "destructive"
+        });
+      });
+  }, [toast]);
+
+  // How many questions use each chapter, so admins see what a rename or removal affects.
+  const usage = React.useMemo(() => {
+    const counts = new Map<string, number>();
+    questions.forEach((q) => counts.set(q.chapter, (counts.get(q.chapter) ?? 0) + 1));
+    return counts;
+  }, [questions]);
+
+  const updateSubjects = (update: (subjects: TaxonomySubject[]) => TaxonomySubject[]) => {
+    setDraft((prev) => (prev ? { ...prev, subjects: update(prev.subjects) } : prev));
+    setIsDirty(true);
+  };
+
+  const updateSubject = (subjectId: string, update: (subject: TaxonomySubject) => TaxonomySubject) =>
+    updateSubjects((subjects) => subjects.map((s) => (s.id === subjectId ? update(s) : s)));
+
+  const addSubject = () =>
+    updateSubjects((subjects) => [...subjects, { id: newId(), name: "New Subject", chapters: [] }]);
+
+  const addChapter = (subjectId: string) =>
+    updateSubject(subjectId, (s) => ({
+      ...s,
+      chapters: [...s.chapters, { id: newId(), name: `Chapter ${s.chapters.length + 1}: ` }]
+    }));
+
+  const save = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    try {
+      const result = await handleSaveTaxonomy(draft);
+      if (result.success && result.taxonomy) {
+        setDraft(result.taxonomy);
+        setTaxonomy(result.taxonomy);
+        setIsDirty(false);
+        toast({ title: "Saved", description: "Subjects and chapters were updated." });
+      } else {
+        toast({
+          title: "Could not save",
+          description: result.errors?.join(" ") || "The server rejected the taxonomy.",
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      console.error("Error saving taxonomy", error);
+      toast({ title: "Error", description: "Could not save the subjects and chapters.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-foreground flex flex-col">
+      <header className="sticky top-0 z-10 flex items-center justify-between border-b border-border bg-background/80 p-4 backdrop-blur-sm">
+        <Button variant="outline" onClick={() => router.back()}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back
+        </Button>
+        <h1 className="font-headline text-2xl">Subjects & Chapters</h1>
+        <Button onClick={save} disabled={!draft || !isDirty || isSaving}>
+          {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          Save
+        </Button>
+      </header>
+
+      <main className="flex-1 container mx-auto max-w-4xl p-4 sm:p-8">
+        {!draft ? (
+          <div className="flex justify-center items-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            <p className="ml-4 text-muted-foreground">Loading subjects...</p>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            <p className="text-center text-muted-foreground">
+              The AI uses these lists when it parses and categorizes questions, and the question list sorts
+              chapters in this order. Renaming a chapter here does not change questions that already use it; use Manage
+              Chapters for that.
+            </p>
+
+            {draft.subjects.map((subject, subjectIndex) => (
+              <Card key={subject.id} className="shadow-lg">
+                <CardHeader className="flex flex-row items-center gap-2 space-y-0">
+                  <CardTitle className="flex-1">
+                    <Input
+                      aria-label="Subject name"
+                      value={subject.name}
+                      className="font-headline text-xl"
+                      onChange={(e) => updateSubject(subject.id, (s) => ({ ...s, name: e.target.value }))}
+                    />
+                  </CardTitle>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={subjectIndex === 0}
+                    onClick={() => updateSubjects((subjects) => move(subjects, subjectIndex, -1))}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={subjectIndex === draft.subjects.length - 1}
+                    onClick={() => updateSubjects((subjects) => move(subjects, subjectIndex, 1))}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-destructive"
+                    disabled={draft.subjects.length === 1}
+                    onClick={() => updateSubjects((subjects) => subjects.filter((s) => s.id !== subject.id))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {subject.chapters.map((chapter, chapterIndex) => (
+                    <div key={chapter.id} className="flex items-center gap-2">
+                      <Input
+                        aria-label="Chapter name"
+                        value={chapter.name}
+                        onChange={(e) =>
+                          updateSubject(subject.id, (s) => ({
+                            ...s,
+                            chapters: s.chapters.map((c) => (c.id === chapter.id ? { ...c, name: e.target.value } : c))
+                          }))
+                        }
+                      />
+                      <Badge variant="secondary" className="shrink-0">
+                        {usage.get(chapter.name) ?? 0} Q
+                      </Badge>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={chapterIndex === 0}
+                        onClick={() =>
+                          updateSubject(subject.id, (s) => ({ ...s, chapters: move(s.chapters, chapterIndex, -1) }))
+                        }
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={chapterIndex === subject.chapters.length - 1}
+                        onClick={() =>
+                          updateSubject(subject.id, (s) => ({ ...s, chapters: move(s.chapters, chapterIndex, 1) }))
+                        }
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-destructive"
+                        onClick={() =>
+                          updateSubject(subject.id, (s) => ({
+                            ...s,
+                            chapters: s.chapters.filter((c) => c.id !== chapter.id)
+                          }))
+                        }
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  {subject.chapters.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No chapters yet.</p>
+                  )}
+                </CardContent>
+                <CardFooter>
+                  <Button variant="outline" size="sm" onClick={() => addChapter(subject.id)}>
+                    <PlusCircle className="mr-2 h-4 w-4" />
+                    Add Chapter
+                  </Button>
+                </CardFooter>
+              </Card>
+            ))}
+
+            <Button variant="outline" onClick={addSubject}>
+              <PlusCircle className="mr-2 h-4 w-4" />
+              Add Subject
+            </Button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { type Question } from "@/types";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Check, Languages, Link2, Link2Off, Loader2, X } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { handleLinkTranslations, handleMatchTranslations, handleUnlinkTranslation } from "@/lib/actions";
+import { findTranslationCandidates } from "@/lib/translation-pairs";
+import { useQuestionBank } from "@/hooks/use-question-bank";
+import { readEditorName } from "@/context/lock-context";
+
+// Arabic questions sent per server call; calls from one page run one at a time, so
+// smaller waves keep the progress bar moving.
+const MATCH_WAVE_SIZE = 6;
+
+type Suggestion = {
+  arabic: Question;
+  english: Question;
+  confidence: number;
+};
+
+const pairKey = (s: { arabic: Question; english: Question }) => `${s.arabic.id}:${s.english.id}`;
+
+const toMatchQuestion = (q: Question) => ({
+  id: q.id,
+  questionText: q.questionText,
+  options: q.options ?? [],
+  correctAnswer: q.correctAnswer,
+});
+
+export default function TranslationsPage() {
+  const { questions, isLoading, upsertQuestions } = useQuestionBank();
+  const [suggestions, setSuggestions] = React.useState<Suggestion[]>([]);
+  const [isMatching, setIsMatching] = React.useState(false);
+  const [processed, setProcessed] = React.useState(0);
+  const [total, setTotal] = React.useState(0);
+  const [failedCount, setFailedCount] = React.useState(0);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const linkedPairs = React.useMemo(() => {
+    const byId = new Map(questions.map((q) => [q.id, q]));
+    return questions
+      .filter((q) => q.language === "ar" && q.translationId && byId.has(q.translationId))
+      .map((arabic) => ({ arabic, english: byId.get(arabic.translationId!)! }));
+  }, [questions]);
+
+  const findPairs = async () => {
+    const jobs = findTranslationCandidates(questions);
+    setSuggestions([]);
+    setProcessed(0);
+    setFailedCount(0);
+    setTotal(jobs.length);
+    if (jobs.length === 0) {
+      toast({ title: "Nothing to Match", description: "No unlinked Arabic question has an English candidate." });
+      return;
+    }
+
+    setIsMatching(true);
+    let found = 0;
+    let failed = 0;
+    for (let start = 0; start < jobs.length; start += MATCH_WAVE_SIZE) {
+      const wave = jobs.slice(start, start + MATCH_WAVE_SIZE);
+      try {
+        const results = await handleMatchTranslations(
+          wave.map((job) => ({
+            question: toMatchQuestion(job.question),
+            candidates: job.candidates.map((c) => toMatchQuestion(c.question)),
+          }))
+        );
+        const matches: Suggestion[] = [];
+        results.forEach((result, i) => {
+          if (!result.success) {
+            failed++;
+            return;
+          }
+          const english = wave[i].candidates.find((c) => c.question.id === result.match.matchId)?.question;
+          if (english) matches.push({ arabic: wave[i].question, english, confidence: result.match.confidence });
+        });
+        found += matches.length;
+        setSuggestions((prev) => [...prev, ...matches].sort((a, b) => b.confidence - a.confidence));
+      } catch (error) {
+        console.error("Error matching translations", error);
+        failed += wave.length;
+      }
+      setFailedCount(failed);
+      setProcessed(Math.min(start + MATCH_WAVE_SIZE, jobs.length));
+    }
+    setIsMatching(false);
+    toast({
+      title: "Matching Complete",
+      description: `Found ${found} likely pair(s)${failed > 0 ? `; ${failed} question(s) could not be checked` : ""}.`,
+      variant: failed > 0 && found === 0 ? "destructive" : "default",
+    });
+  };
+
+  const linkPairs = async (pairs: Suggestion[]) => {
+    if (pairs.length === 0) return;
+    setIsSaving(true);
+    try {
+      const result = await handleLinkTranslations(
+        pairs.map((p) => [p.arabic.id, p.english.id]),
+        readEditorName()
+      );
+      if (!result.success) throw new Error("Linking failed on the server.");
+      upsertQuestions(result.questions);
+      const linkedIds = new Set(pairs.flatMap((p) => [p.arabic.id, p.english.id]));
+      // A question takes part in one pair, so other suggestions for it are dropped.
+      setSuggestions((prev) => prev.filter((s) => !linkedIds.has(s.arabic.id) && !linkedIds.has(s.english.id)));
+      toast({ title: "Translations Linked", description: `Linked ${pairs.length} pair(s).` });
+    } catch (error) {
+      console.error("Error linking translations", error);
+      toast({ title: "Error", description: "Could not link the translations.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // The most confident suggestion wins when two of them share a question.
+  const linkAll = () => {
+    const used = new Set<string>();
+    const pairs = suggestions.filter((s) => {
+      if (used.has(s.arabic.id) || used.has(s.english.id)) return false;
+      used.add(s.arabic.id);
+      used.add(s.english.id);
+      return true;
+    });
+    linkPairs(pairs);
+  };
+
+  const dismiss = (suggestion: Suggestion) =>
+    setSuggestions((prev) => prev.filter((s) => pairKey(s) !== pairKey(suggestion)));
+
+  const unlink = async (questionId: string) => {
+    setIsSaving(true);
+    try {
+      const result = await handleUnlinkTranslation(questionId, readEditorName());
+      if (!result.success) throw new Error("Unlinking failed on the server.");
+      upsertQuestions(result.questions);
+      toast({ title: "Translation Unlinked" });
+    } catch (error) {
+      console.error("Error unlinking translation", error);
+      toast({ title: "Error", description: "Could not unlink the translation.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-foreground flex flex-col">
+      <header className="sticky top-0 z-10 flex items-center justify-between border-b border-border bg-background/80 p-4 backdrop-blur-sm">
+        <Button variant="outline" onClick={() => router.back()}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back
+        </Button>
+        <h1 className="font-headline text-2xl">Translation Pairs</h1>
+        <div className="w-[90px]"></div>
+      </header>
+
+      <main className="flex-1 container mx-auto max-w-5xl p-4 sm:p-8">
+        {isLoading ? (
+          <div className="flex justify-center items-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            <p className="ml-4 text-muted-foreground">Loading questions...</p>
+          </div>
+        ) : (
+          <Tabs defaultValue="suggestions">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="suggestions">Suggestions ({suggestions.length})</TabsTrigger>
+              <TabsTrigger value="linked">Linked ({linkedPairs.length})</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="suggestions" className="space-y-6 pt-4">
+              <div className="space-y-3 rounded-md border p-4 text-center">
+                <p className="text-sm text-muted-foreground">
+                  Pairs each Arabic question with its English counterpart. Candidates are picked locally by
+                  shared terms, acronyms, numbers and answers; the AI then confirms the match.
+                </p>
+                {(isMatching || total > 0) && (
+                  <div className="space-y-1">
+                    <Progress value={total > 0 ? (processed / total) * 100 : 0} />
+                    <p className="text-xs text-muted-foreground">
+                      Checked {processed} / {total} Arabic question(s)
+                      {failedCount > 0 && ` · ${failedCount} failed`}
+                    </p>
+                  </div>
+                )}
+                <div className="flex flex-wrap justify-center gap-2">
+                  <Button onClick={findPairs} disabled={isMatching || questions.length === 0}>
+                    {isMatching ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Languages className="mr-2 h-4 w-4" />
+                    )}
+                    Find Translation Pairs
+                  </Button>
+                  {suggestions.length > 0 && (
+                    <Button variant="secondary" onClick={linkAll} disabled={isMatching || isSaving}>
+                      <Link2 className="mr-2 h-4 w-4" />
+                      Link All
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {suggestions.map((suggestion) => (
+                <TranslationPairCard
+                  key={pairKey(suggestion)}
+                  arabic={suggestion.arabic}
+                  english={suggestion.english}
+                  badge={`${Math.round(suggestion.confidence * 100)}% confident`}
+                >
+                  <Button onClick={() => linkPairs([suggestion])} disabled={isSaving}>
+                    <Check className="mr-2 h-4 w-4" />
+                    Link
+                  </Button>
+                  <Button variant="outline" onClick={() => dismiss(suggestion)} disabled={isSaving}>
+                    <X className="mr-2 h-4 w-4" />
+                    Dismiss
+                  </Button>
+                </TranslationPairCard>
+              ))}
+            </TabsContent>
+
+            <TabsContent value="linked" className="space-y-6 pt-4">
+              {linkedPairs.length === 0 ? (
+                <p className="py-16 text-center text-muted-foreground">No questions are linked yet.</p>
+              ) : (
+                linkedPairs.map((pair) => (
+                  <TranslationPairCard key={pairKey(pair)} arabic={pair.arabic} english={pair.english}>
+                    <Button variant="outline" onClick={() => unlink(pair.arabic.id)} disabled={isSaving}>
+                      <Link2Off className="mr-2 h-4 w-4" />
+                      Unlink
+                    </Button>
+                  </TranslationPairCard>
+                ))
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </main>
+    </div>
+  );
+}
+
+type TranslationPairCardProps = {
+  arabic: Question;
+  english: Question;
+  badge?: string;
+  children: React.ReactNode;
+};
+
+function TranslationPairCard({ arabic, english, badge, children }: TranslationPairCardProps) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <CardTitle className="text-base">{arabic.chapter || "No chapter"}</CardTitle>
+          {badge && <Badge variant="outline">{badge}</Badge>}
+        </div>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <QuestionSummary question={english} />
+        <QuestionSummary question={arabic} />
+      </CardContent>
+      <CardFooter className="flex flex-wrap gap-2">{children}</CardFooter>
+    </Card>
+  );
+}
+
+function QuestionSummary({ question }: { question: Question }) {
+  const answers = Array.isArray(question.correctAnswer) ? question.correctAnswer : [question.correctAnswer];
+  return (
+    <div dir={question.language === "ar" ? "rtl" : "ltr"} className="space-y-2 rounded-md border p-3 text-sm">
+      <p className="font-semibold">{question.questionText}</p>
+      <ul className="space-y-1">
+        {(question.options ?? []).map((option, index) => (
+          <li key={index} className={answers.includes(option) ? "text-green-500" : "text-muted-foreground"}>
+            {option}
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-muted-foreground">Q# {question.id}</p>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+"use client";
+
+import * as React from "react";
+import { useRouter } from "next/navigation";
+import { type Question } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Loader2, RotateCcw, Trash2 } from "lucide-react";
+import { handleListTrashedQuestions, handlePurgeQuestions, handleRestoreQuestions } from "@/lib/actions";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from "@/components/ui/alert-dialog";
+import { readEditorName } from "@/context/lock-context";
+
+export default function TrashPage() {
+  const [trashedQuestions, setTrashedQuestions] = React.useState<Question[]>([]);
+  const [selectedIds, setSelectedIds] = React.useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [isWorking, setIsWorking] = React.useState(false);
+
+  const router = useRouter();
+  const { toast } = useToast();
+
+  React.useEffect(() => {
+    const fetchTrash = async () => {
+      try {
+        setTrashedQuestions(await handleListTrashedQuestions());
+      } catch (error) {
+        console.error("Error fetching trashed questions: ", error);
+        toast({
+          title: "Error fetching trash",
+          description: "Could not load deleted questions from the database.",
+          variant: "destructive"
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchTrash();
+  }, [toast]);
+
+  const removeFromList = (ids: string[]) => {
+    const gone = new Set(ids);
+    setTrashedQuestions((prev) => prev.filter((q) => !gone.has(q.id)));
+    setSelectedIds((prev) => new Set([...prev].filter((id) => !gone.has(id))));
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const allSelected = trashedQuestions.length > 0 && selectedIds.size === trashedQuestions.length;
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(trashedQuestions.map((q) => q.id)) : new Set());
+  };
+
+  const restore = async (ids: string[]) => {
+    setIsWorking(true);
+    try {
+      const result = await handleRestoreQuestions(ids);
+      if (!result.success) throw new Error("Restore failed on the server.");
+      removeFromList(result.restoredQuestions.map((q) => q.id));
+      toast({
+        title: "Questions Restored",
+        description: `${result.restoredQuestions.length} question(s) are back in the question bank.`
+      });
+    } catch (error) {
+      console.error("Error restoring questions", error);
+      toast({ title: "Error", description: "Could not restore the selected questions.", variant: "destructive" });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const purge = async (ids: string[]) => {
+    setIsWorking(true);
+    try {
+      const result = await handlePurgeQuestions(ids, readEditorName());
+      if (!result.success) throw new Error("Purge failed on the server.");
+      removeFromList(result.purgedIds);
+      toast({
+        title: "Questions Deleted",
+        description: `${result.purgedIds.length} question(s) were permanently deleted.`
+      });
+    } catch (error) {
+      console.error("Error purging questions", error);
+      toast({ title: "Error", description: "Could not delete the selected questions.", variant: "destructive" });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const selected = [...selectedIds];
+
+  return (
+    <div className="min-h-screen bg-background text-foreground flex flex-col">
+      <header className="sticky top-0 z-10 flex items-center justify-between border-b border-border bg-background/80 p-4 backdrop-blur-sm">
+        <Button variant="outline" onClick={() => router.back()}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back
+        </Button>
+        <h1 className="font-headline text-2xl">Trash</h1>
+        <div className="w-[90px]"></div>
+      </header>
+
+      <main className="flex-1 container mx-auto max-w-4xl p-4 sm:p-8">
+        {isLoading ? (
+          <div className="flex justify-center items-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            <p className="ml-4 text-muted-foreground">Loading deleted questions...</p>
+          </div>
+        ) : trashedQuestions.length === 0 ? (
+          <div className="text-center py-16 text-muted-foreground">
+            <Trash2 className="mx-auto h-16 w-16 mb-4" />
+            <h3 className="font-headline text-2xl mb-2">Trash is Empty</h3>
+            <p>Deleted questions will show up here until you restore or purge them.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center space-x-2">
+                <Checkbox id="select-all" checked={allSelected} onCheckedChange={(c) => toggleAll(c === true)} />
+                <Label htmlFor="select-all">
+                  Select all ({selectedIds.size} / {trashedQuestions.length})
+                </Label>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => restore(selected)} disabled={isWorking || selected.length === 0}>
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Restore Selected
+                </Button>
+                <PurgeButton
+                  label="Delete Selected"
+                  count={selected.length}
+                  disabled={isWorking || selected.length === 0}
+                  onConfirm={() => purge(selected)}
+                />
+                <PurgeButton
+                  label="Empty Trash"
+                  count={trashedQuestions.length}
+                  disabled={isWorking}
+                  onConfirm={() => purge(trashedQuestions.map((q) => q.id))}
+                />
+              </div>
+            </div>
+
+            {trashedQuestions.map((question) => (
+              <div key={question.id} className="flex items-start space-x-4 rounded-md border p-4">
+                <Checkbox
+                  id={question.id}
+                  className="mt-1"
+                  checked={selectedIds.has(question.id)}
+                  onCheckedChange={(c) => toggleSelected(question.id, c === true)}
+                />
+                <Label htmlFor={question.id} className="flex-1">
+                  <p className="font-semibold">{question.questionText}</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Chapter: {question.chapter} | Deleted{" "}
+                    {question.deletedAt ? new Date(question.deletedAt).toLocaleString() : ""} by{" "}
+                    {question.deletedBy || "unknown"}
+                  </p>
+                </Label>
+                <Button size="sm" variant="ghost" onClick={() => restore([question.id])} disabled={isWorking}>
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Restore
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
+
+type PurgeButtonProps = {
+  label: string;
+  count: number;
+  disabled: boolean;
+  onConfirm: () => void;
+};
+
+function PurgeButton({ label, count, disabled, onConfirm }: PurgeButtonProps) {
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="destructive" disabled={disabled}>
+          <Trash2 className="mr-2 h-4 w-4" />
+          {label}
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+          <AlertDialogDescription>
+            This will permanently delete {count} question(s) with their history and images. This action cannot be undone.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm}>Yes, delete permanently</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import * as React from "react";
+import Image from "next/image";
+import { Badge } from "@/components/ui/badge";
+
+/** One page of a PDF, or one question block of a Word document. */
+export type PreviewSection = {
+  title: string;
+  badges: string[];
+  text: string;
+  images: File[];
+  /** Shown instead of the text when there is none. */
+  emptyText: string;
+};
+
+/** The text and images extracted from an uploaded document, before it is parsed. */
+export function DocumentPreview({ sections }: { sections: PreviewSection[] }) {
+  const imageUrls = React.useMemo(
+    () => sections.map((section) => section.images.map((file) => URL.createObjectURL(file))),
+    [sections]
+  );
+  React.useEffect(() => () => imageUrls.flat().forEach((url) => URL.revokeObjectURL(url)), [imageUrls]);
+
+  return (
+    <div className="space-y-4 p-3">
+      {sections.map((section, index) => (
+        <section key={index} className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <h4 className="text-sm font-semibold">{section.title}</h4>
+            {section.badges.map((badge) => (
+              <Badge key={badge} variant="outline">
+                {badge}
+              </Badge>
+            ))}
+          </div>
+          {section.text ? (
+            <pre dir="auto" className="whitespace-pre-wrap rounded-md bg-muted p-2 text-xs">
+              {section.text}
+            </pre>
+          ) : (
+            <p className="text-xs text-muted-foreground">{section.emptyText}</p>
+          )}
+          {imageUrls[index].length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {imageUrls[index].map((url, i) => (
+                <Image
+                  key={url}
+                  src={url}
+                  alt={`${section.title} image ${i + 1}`}
+                  width={120}
+                  height={80}
+                  unoptimized
+                  className="h-20 w-auto rounded border object-contain"
+                />
+              ))}
+            </div>
+          )}
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -19,19 +19,35 @@ import { handleUpdateQuestion } from "@/lib/actions";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2, Trash2, PlusCircle, UploadCloud } from "lucide-react";
 import { Label } from "@/components/ui/label";
-import { type Question } from "@/types";
+import { type Question, type QuestionFieldErrors, validateQuestion } from "@/types";
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
   SelectTrigger,
   SelectValue,
 } from "../ui/select";
 import { RadioGroup, RadioGroupItem } from "../ui/radio-group";
 import { Checkbox } from "../ui/checkbox";
 import { cn } from "@/lib/utils";
-import { getStorage, ref, uploadBytes, getDownloadURL } from "firebase/storage";
-import { app } from "@/lib/firebase";
+import { uploadQuestionImage } from "@/lib/question-images";
+import { diffQuestions, mergeQuestions } from "@/lib/question-diff";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useLock } from "@/context/lock-context";
+import { useTaxonomy } from "@/hooks/use-taxonomy";
+import { getQuestionBankSnapshot } from "@/hooks/use-question-bank";
+import { groupChapters, subjectOfChapter } from "@/lib/taxonomy";
 
 
 type EditQuestionDialogProps = {
@@ -41,20 +57,6 @@ type EditQuestionDialogProps = {
   onQuestionUpdated: (question: Question) => void;
 };
 
-// Client-side upload function
-async function uploadQuestionImage(questionId: string, file: File): Promise<string> {
-    if (!file) throw new Error("No file provided for upload.");
-    if (!questionId) throw new Error("Question ID is required for image upload.");
-    
-    const storage = getStorage(app);
-    const filePath = `question-images/${questionId}/${Date.now()}-${file.name}`;
-    const storageRef = ref(storage, filePath);
-
-    const snapshot = await uploadBytes(storageRef, file);
-    const downloadURL = await getDownloadURL(snapshot.ref);
-    return downloadURL;
-}
-
 
 export function EditQuestionDialog({
   isOpen,
@@ -68,14 +70,38 @@ export function EditQuestionDialog({
   const [isSaving, setIsSaving] = React.useState(false);
   const [selectedImageFile, setSelectedImageFile] = React.useState<File | null>(null);
   const [imagePreview, setImagePreview] = React.useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = React.useState<QuestionFieldErrors>({});
+  // The version the edit started from, and what someone else saved over it.
+  const [baseQuestion, setBaseQuestion] = React.useState<Question | null>(question);
+  const [conflict, setConflict] = React.useState<Question | null>(null);
   const { toast } = useToast();
+  const { editorName } = useLock();
   const imageInputRef = React.useRef<HTMLInputElement>(null);
+  const taxonomy = useTaxonomy();
+
+  // Every chapter in the taxonomy or in use, read once per opening rather than
+  // subscribing each card's dialog to the whole bank.
+  const chapterGroups = React.useMemo(
+    () =>
+      isOpen
+        ? groupChapters(taxonomy, [
+            ...getQuestionBankSnapshot().map((q) => q.chapter),
+            ...(question?.chapter ? [question.chapter] : []),
+          ])
+        : [],
+    [isOpen, taxonomy, question?.chapter]
+  );
 
+  // Only reset on open: live updates to `question` must not wipe an edit in progress.
   React.useEffect(() => {
+    if (!isOpen) return;
     setEditedQuestion(question);
+    setBaseQuestion(question);
+    setConflict(null);
     setImagePreview(question?.imageUrl || null);
     setSelectedImageFile(null); // Reset file on new dialog open
-  }, [question]);
+    setFieldErrors({});
+  }, [isOpen, question?.id]);
 
   if (!editedQuestion) {
     return null;
@@ -100,6 +126,14 @@ export function EditQuestionDialog({
     setEditedQuestion((prev) =>
       prev ? { ...prev, [field]: value } : null
     );
+    setFieldErrors((prev) => (prev[field] ? { ...prev, [field]: undefined } : prev));
+  };
+
+  // A chapter belongs to one subject, so picking it keeps the subject in step.
+  const handleChapterChange = (chapter: string) => {
+    handleFieldChange("chapter", chapter);
+    const subject = subjectOfChapter(taxonomy, chapter);
+    if (subject) handleFieldChange("subject", subject.name);
   };
 
   const handleOptionChange = (index: number, value: string) => {
@@ -142,7 +176,10 @@ export function EditQuestionDialog({
     handleFieldChange("correctAnswer", currentAnswers);
   }
 
-  const handleSave = async () => {
+  const isStale = !!question && !!baseQuestion && question.updatedAt !== baseQuestion.updatedAt;
+
+  // `expectedUpdatedAt` defaults to the version the edit started from.
+  const handleSave = async (expectedUpdatedAt = baseQuestion?.updatedAt) => {
     if (!editedQuestion) return;
     setIsSaving(true);
     
@@ -153,11 +190,21 @@ export function EditQuestionDialog({
       
       let finalQuestion = { ...editedQuestion };
 
+      // 0. Validate with the shared schema before uploading anything
+      const validation = validateQuestion(finalQuestion);
+      if (!validation.success) {
+        showValidationErrors(validation.errors);
+        return;
+      }
+
       // 1. Handle image upload if a new one is selected
       if (selectedImageFile) {
         try {
             const downloadURL = await uploadQuestionImage(editedQuestion.id, selectedImageFile);
             finalQuestion.imageUrl = downloadURL;
+            // Keep the uploaded URL so a retry after a conflict does not upload again.
+            setEditedQuestion(finalQuestion);
+            setSelectedImageFile(null);
         } catch (uploadError) {
              console.error("[Client Upload Error]", uploadError);
              throw new Error("Image upload to storage failed. Please check the console for details.");
@@ -165,15 +212,23 @@ export function EditQuestionDialog({
       }
 
       // 2. Update the question in Firestore
-      const result = await handleUpdateQuestion(finalQuestion);
+      const result = await handleUpdateQuestion(
+        finalQuestion,
+        { actor: editorName, action: "edit" },
+        expectedUpdatedAt
+      );
 
-      if (result.success) {
+      if (result.conflict) {
+        setConflict(result.conflict);
+      } else if (result.success) {
         toast({
           title: "Success!",
           description: "Question has been updated.",
         });
-        onQuestionUpdated(finalQuestion);
+        onQuestionUpdated(result.question ?? finalQuestion);
         setIsOpen(false);
+      } else if (result.errors) {
+        showValidationErrors(result.errors);
       } else {
         throw new Error("There was a problem updating the question in the database.");
       }
@@ -190,6 +245,41 @@ export function EditQuestionDialog({
     }
   };
 
+  const mergeTheirChanges = () => {
+    if (!conflict || !baseQuestion) return;
+    const { merged, conflicts } = mergeQuestions(baseQuestion, editedQuestion, conflict);
+    setEditedQuestion(merged);
+    setBaseQuestion(conflict);
+    setImagePreview(merged.imageUrl || null);
+    setConflict(null);
+    toast({
+      title: "Changes Merged",
+      description: conflicts.length
+        ? `Kept your version of: ${conflicts.map((c) => c.label).join(", ")}. Review and save again.`
+        : "Their changes were added to yours. Review and save again.",
+    });
+  };
+
+  const overwriteTheirChanges = () => {
+    if (!conflict) return;
+    const theirs = conflict;
+    setConflict(null);
+    setBaseQuestion(theirs);
+    handleSave(theirs.updatedAt);
+  };
+
+  const theirChanges = conflict && baseQuestion ? diffQuestions(baseQuestion, conflict) : [];
+  const bothChanged = conflict && baseQuestion ? mergeQuestions(baseQuestion, editedQuestion, conflict).conflicts : [];
+
+  const showValidationErrors = (errors: QuestionFieldErrors) => {
+    setFieldErrors(errors);
+    toast({
+      title: "Please fix the highlighted fields",
+      description: Object.values(errors).filter(Boolean).join(" "),
+      variant: "destructive",
+    });
+  };
+
   const renderCorrectAnswerControl = () => {
     if (editedQuestion.questionType === 'mcq' && editedQuestion.options) {
         return (
@@ -246,6 +336,11 @@ export function EditQuestionDialog({
           <DialogDescription>
             Make changes to the question details below and save.
           </DialogDescription>
+          {isStale && (
+            <p className="rounded-md border border-amber-500/50 bg-amber-500/10 p-2 text-sm">
+              Someone else saved this question while you were editing. Saving will ask how to combine the changes.
+            </p>
+          )}
         </DialogHeader>
 
         <ScrollArea className="flex-1 pr-6">
@@ -281,18 +376,37 @@ export function EditQuestionDialog({
                 id="question-text"
                 value={editedQuestion.questionText}
                 onChange={(e) => handleFieldChange("questionText", e.target.value)}
-                className="min-h-[120px]"
+                className={cn("min-h-[120px]", fieldErrors.questionText && "border-destructive")}
               />
+              <FieldError message={fieldErrors.questionText} />
             </div>
             
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                  <div className="space-y-2">
                     <Label htmlFor="subject">Subject</Label>
                     <Input id="subject" value={editedQuestion.subject} onChange={(e) => handleFieldChange("subject", e.target.value)} />
+                    <FieldError message={fieldErrors.subject} />
                 </div>
                  <div className="space-y-2">
                     <Label htmlFor="chapter">Chapter</Label>
-                    <Input id="chapter" value={editedQuestion.chapter} onChange={(e) => handleFieldChange("chapter", e.target.value)} />
+                    <Select value={editedQuestion.chapter} onValueChange={handleChapterChange}>
+                      <SelectTrigger id="chapter">
+                        <SelectValue placeholder="Select a chapter" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {chapterGroups.map((group) => (
+                          <SelectGroup key={group.subject}>
+                            <SelectLabel>{group.subject}</SelectLabel>
+                            {group.chapters.map((chapter) => (
+                              <SelectItem key={chapter} value={chapter}>
+                                {chapter}
+                              </SelectItem>
+                            ))}
+                          </SelectGroup>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FieldError message={fieldErrors.chapter} />
                 </div>
             </div>
             
@@ -313,6 +427,7 @@ export function EditQuestionDialog({
                             <SelectItem value="checkbox">Checkboxes</SelectItem>
                         </SelectContent>
                     </Select>
+                    <FieldError message={fieldErrors.questionType} />
                 </div>
                  <div className="space-y-2">
                     <Label>Difficulty</Label>
@@ -324,6 +439,7 @@ export function EditQuestionDialog({
                             <SelectItem value="hard">Hard</SelectItem>
                         </SelectContent>
                     </Select>
+                    <FieldError message={fieldErrors.difficulty} />
                 </div>
             </div>
 
@@ -354,16 +470,20 @@ export function EditQuestionDialog({
                     </Button>
                    )}
                 </div>
+                <FieldError message={fieldErrors.options} />
               </div>
             )}
             
             {renderCorrectAnswerControl()}
+            <FieldError message={fieldErrors.correctAnswer} />
 
             <div className="space-y-2">
                 <Label htmlFor="explanation">Explanation</Label>
                 <Textarea id="explanation" value={editedQuestion.explanation || ""} onChange={(e) => handleFieldChange("explanation", e.target.value)} />
             </div>
 
+            {fieldErrors.language && <FieldError message={`Language: ${fieldErrors.language}`} />}
+
           </div>
         </ScrollArea>
 
@@ -371,7 +491,7 @@ export function EditQuestionDialog({
           <Button variant="outline" onClick={() => setIsOpen(false)}>
             Cancel
           </Button>
-          <Button onClick={handleSave} disabled={isSaving}>
+          <Button onClick={() => handleSave()} disabled={isSaving}>
             {isSaving ? (
               <Loader2 className="mr-2 h-4 w-4 animate-spin" />
             ) : null}
@@ -379,6 +499,39 @@ export function EditQuestionDialog({
           </Button>
         </DialogFooter>
       </DialogContent>
+
+      <AlertDialog open={!!conflict} onOpenChange={(open) => !open && setConflict(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>This question was changed by someone else</AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <div className="space-y-2">
+                <p>
+                  {conflict?.updatedAt ? `Saved ${new Date(conflict.updatedAt).toLocaleString()}. ` : ""}
+                  They changed: {theirChanges.map((c) => c.label).join(", ") || "nothing you can see here"}.
+                </p>
+                {bothChanged.length > 0 && (
+                  <p className="text-destructive">
+                    You both changed: {bothChanged.map((c) => c.label).join(", ")}. Merging keeps your version of these.
+                  </p>
+                )}
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Editing</AlertDialogCancel>
+            <Button variant="outline" onClick={mergeTheirChanges}>
+              Merge Their Changes
+            </Button>
+            <AlertDialogAction onClick={overwriteTheirChanges}>Overwrite</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Dialog>
   );
 }
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="text-xs text-destructive">{message}</p>;
+}
@@ -17,6 +17,11 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { useToast } from "@/hooks/use-toast";
 import { type Question } from "@/types";
 import { Download } from "lucide-react";
+import { QUESTION_FILE_FORMATS, exportFileName, getQuestionFileFormat } from "@/lib/formats";
+import { downloadFile } from "@/lib/download";
+
+// "page" is the printable quiz page; the rest are quiz files downloaded directly.
+const PAGE_FORMAT = "page";
 
 type ExportOptionsDialogProps = {
   isOpen: boolean;
@@ -31,6 +36,7 @@ export function ExportOptionsDialog({
 }: ExportOptionsDialogProps) {
   const [count, setCount] = React.useState(questions.length);
   const [order, setOrder] = React.useState<"sorted" | "random">("sorted");
+  const [format, setFormat] = React.useState(PAGE_FORMAT);
   const { toast } = useToast();
   const router = useRouter();
 
@@ -38,6 +44,7 @@ export function ExportOptionsDialog({
     if (isOpen) {
       setCount(Math.max(1, questions.length));
       setOrder("sorted");
+      setFormat(PAGE_FORMAT);
     }
   }, [isOpen, questions.length]);
 
@@ -63,6 +70,17 @@ export function ExportOptionsDialog({
     const safeCount = Math.min(Math.max(1, count), list.length);
     const finalQuestions = list.slice(0, safeCount);
 
+    const fileFormat = getQuestionFileFormat(format);
+    if (fileFormat) {
+      downloadFile(fileFormat.serialize(finalQuestions), exportFileName(fileFormat), fileFormat.mimeType);
+      toast({
+        title: "Export ready",
+        description: `${finalQuestions.length} questions were exported as ${fileFormat.label}.`,
+      });
+      setIsOpen(false);
+      return;
+    }
+
     try {
       sessionStorage.setItem("questionsForExport", JSON.stringify(finalQuestions));
       router.push("/export");
@@ -87,7 +105,7 @@ export function ExportOptionsDialog({
             Export Options (Admin)
           </DialogTitle>
           <DialogDescription className="text-gray-400">
-            Choose how many questions to export and in what order.
+            Choose how many questions to export, in what order and in which format.
           </DialogDescription>
         </DialogHeader>
 
@@ -127,6 +145,24 @@ export function ExportOptionsDialog({
               </div>
             </RadioGroup>
           </div>
+
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <RadioGroup value={format} onValueChange={setFormat}>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value={PAGE_FORMAT} id="format-page" />
+                <Label htmlFor="format-page">Printable page</Label>
+              </div>
+              {QUESTION_FILE_FORMATS.map((f) => (
+                <div key={f.id} className="flex items-center space-x-2">
+                  <RadioGroupItem value={f.id} id={`format-${f.id}`} />
+                  <Label htmlFor={`format-${f.id}`}>
+                    {f.label} file ({f.extensions[0]})
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
         </div>
 
         <DialogFooter>
@@ -134,7 +170,7 @@ export function ExportOptionsDialog({
             Cancel
           </Button>
           <Button onClick={handleExport} disabled={!questions.length}>
-            Continue
+            {format === PAGE_FORMAT ? "Continue" : "Download"}
           </Button>
         </DialogFooter>
       </DialogContent>
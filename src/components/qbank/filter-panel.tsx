@@ -9,6 +9,7 @@ import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
 import { ScrollArea } from "../ui/scroll-area";
 import type { SortType } from "./filter-sheet";
+import { type ChapterGroup } from "@/lib/taxonomy";
 
 const RECENT_DAYS = 10;
 
@@ -30,7 +31,7 @@ const quizzes = [
 type FilterPanelProps = {
   filters: any;
   setFilters: (filters: any) => void;
-  chapters: string[];
+  chapterGroups: ChapterGroup[];
   sort: SortType;
   setSort: React.Dispatch<React.SetStateAction<SortType>>;
   onCloseSheet: () => void;
@@ -39,7 +40,7 @@ type FilterPanelProps = {
 export default function FilterPanel({
   filters,
   setFilters,
-  chapters,
+  chapterGroups,
   sort,
   setSort,
   onCloseSheet,
@@ -120,20 +121,30 @@ export default function FilterPanel({
       <div className="space-y-3">
         <Label className="font-semibold text-foreground">Chapter</Label>
         <ScrollArea className="h-60 w-full rounded-md border p-2">
-          <div className="space-y-2">
-            {chapters.map((chapter) => (
-              <div key={chapter} className="flex items-center space-x-2">
-                <Checkbox
-                  id={`chapter-${chapter}`}
-                  checked={filters.chapter.includes(chapter)}
-                  onCheckedChange={() => handleMultiSelectChange("chapter", chapter)}
-                />
-                <Label htmlFor={`chapter-${chapter}`} className="font-normal">
-                  {chapter}
-                </Label>
+          <div className="space-y-3">
+            {chapterGroups.map((group) => (
+              <div key={group.subject} className="space-y-2">
+                {/* Subject headings only matter once the bank hosts more than one course. */}
+                {chapterGroups.length > 1 && (
+                  <p className="text-xs font-semibold uppercase tracking-wide text-gray-400">{group.subject}</p>
+                )}
+                {group.chapters.map((chapter) => (
+                  <div key={chapter} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`chapter-${chapter}`}
+                      checked={filters.chapter.includes(chapter)}
+                      onCheckedChange={() => handleMultiSelectChange("chapter", chapter)}
+                    />
+                    <Label htmlFor={`chapter-${chapter}`} className="font-normal">
+                      {chapter}
+                    </Label>
+                  </div>
+                ))}
               </div>
             ))}
-            {chapters.length === 0 && <p className="text-xs text-gray-400">No chapters found.</p>}
+            {chapterGroups.every((g) => g.chapters.length === 0) && (
+              <p className="text-xs text-gray-400">No chapters found.</p>
+            )}
           </div>
         </ScrollArea>
       </div>
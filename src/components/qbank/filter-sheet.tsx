@@ -15,6 +15,7 @@ import FilterPanel from "./filter-panel";
 import { Filter, X } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "../ui/button";
+import { type ChapterGroup } from "@/lib/taxonomy";
 
 export type SortType = "chapter_asc" | "chapter_desc" | "random";
 
@@ -23,7 +24,7 @@ type FilterSheetProps = {
   setIsOpen: (isOpen: boolean) => void;
   filters: any;
   setFilters: (filters: any) => void;
-  chapters: string[];
+  chapterGroups: ChapterGroup[];
   sort: SortType;
   setSort: React.Dispatch<React.SetStateAction<SortType>>;
   disabled?: boolean;
@@ -35,7 +36,7 @@ export default function FilterSheet({
   setIsOpen,
   filters,
   setFilters,
-  chapters,
+  chapterGroups,
   sort,
   setSort,
   disabled = false,
@@ -60,7 +61,7 @@ export default function FilterSheet({
           <FilterPanel
             filters={filters}
             setFilters={setFilters}
-            chapters={chapters}
+            chapterGroups={chapterGroups}
             sort={sort}
             setSort={setSort}
             onCloseSheet={() => setIsOpen(false)}
@@ -18,11 +18,21 @@ import {
   Download,
   Wand2,
   CopyCheck,
+  Languages,
   Lock,
   Unlock,
   EllipsisVertical,
+  Trash2,
+  HardDrive,
+  ListTree,
+  FolderTree,
+  DatabaseBackup,
+  FileSpreadsheet,
+  FileUp,
 } from "lucide-react";
 import { PasteParserDialog } from "./paste-parser-dialog";
+import { SpreadsheetImportDialog } from "./spreadsheet-import-dialog";
+import { QuizFileImportDialog } from "./quiz-file-import-dialog";
 import { type Question } from "@/types";
 import { useTheme } from "next-themes";
 import { useLock } from "@/context/lock-context";
@@ -72,6 +82,8 @@ export default function Header({
   filteredQuestions,
 }: HeaderProps) {
   const [isPasteDialogOpen, setIsPasteDialogOpen] = React.useState(false);
+  const [isSpreadsheetDialogOpen, setIsSpreadsheetDialogOpen] = React.useState(false);
+  const [isQuizFileDialogOpen, setIsQuizFileDialogOpen] = React.useState(false);
   const [isUnlockDialogOpen, setIsUnlockDialogOpen] = React.useState(false);
   const [isExportDialogOpen, setIsExportDialogOpen] = React.useState(false);
 
@@ -160,7 +172,7 @@ export default function Header({
               <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
               <Input
                 type="text"
-                placeholder="Search questions..."
+                placeholder="Search questions, options, explanations, tags..."
                 className={cn("pl-10 pr-10", inputStrong)}
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
@@ -296,6 +308,14 @@ export default function Header({
                     <PlusCircle className="mr-2 h-4 w-4" /> Add questions
                   </DropdownMenuItem>
 
+                  <DropdownMenuItem onSelect={() => setIsSpreadsheetDialogOpen(true)}>
+                    <FileSpreadsheet className="mr-2 h-4 w-4" /> Import spreadsheet
+                  </DropdownMenuItem>
+
+                  <DropdownMenuItem onSelect={() => setIsQuizFileDialogOpen(true)}>
+                    <FileUp className="mr-2 h-4 w-4" /> Import quiz file
+                  </DropdownMenuItem>
+
                   <DropdownMenuItem onSelect={() => router.push("/categorize")}>
                     <Wand2 className="mr-2 h-4 w-4" /> Batch categorize
                   </DropdownMenuItem>
@@ -304,6 +324,30 @@ export default function Header({
                     <CopyCheck className="mr-2 h-4 w-4" /> Show duplicates
                   </DropdownMenuItem>
 
+                  <DropdownMenuItem onSelect={() => router.push("/translations")}>
+                    <Languages className="mr-2 h-4 w-4" /> Translation pairs
+                  </DropdownMenuItem>
+
+                  <DropdownMenuItem onSelect={() => router.push("/taxonomy")}>
+                    <ListTree className="mr-2 h-4 w-4" /> Subjects & chapters
+                  </DropdownMenuItem>
+
+                  <DropdownMenuItem onSelect={() => router.push("/chapters")}>
+                    <FolderTree className="mr-2 h-4 w-4" /> Manage chapters
+                  </DropdownMenuItem>
+
+                  <DropdownMenuItem onSelect={() => router.push("/trash")}>
+                    <Trash2 className="mr-2 h-4 w-4" /> Trash
+                  </DropdownMenuItem>
+
+                  <DropdownMenuItem onSelect={() => router.push("/storage-audit")}>
+                    <HardDrive className="mr-2 h-4 w-4" /> Storage audit
+                  </DropdownMenuItem>
+
+                  <DropdownMenuItem onSelect={() => router.push("/backup")}>
+                    <DatabaseBackup className="mr-2 h-4 w-4" /> Backup & restore
+                  </DropdownMenuItem>
+
                   <DropdownMenuSeparator />
 
                   <DropdownMenuItem onSelect={() => setIsUnlockDialogOpen(true)}>
@@ -334,6 +378,18 @@ export default function Header({
         onQuestionsAdded={onQuestionsAdded}
       />
 
+      <SpreadsheetImportDialog
+        isOpen={isSpreadsheetDialogOpen}
+        setIsOpen={setIsSpreadsheetDialogOpen}
+        onQuestionsAdded={onQuestionsAdded}
+      />
+
+      <QuizFileImportDialog
+        isOpen={isQuizFileDialogOpen}
+        setIsOpen={setIsQuizFileDialogOpen}
+        onQuestionsAdded={onQuestionsAdded}
+      />
+
       <UnlockDialog
         isOpen={isUnlockDialogOpen}
         setIsOpen={setIsUnlockDialogOpen}
@@ -0,0 +1,29 @@
+"use client";
+
+import * as React from "react";
+import { highlightRanges } from "@/lib/search-index";
+
+type HighlightedTextProps = {
+  text: string;
+  /** Search index terms to mark; see `SearchHit.terms`. */
+  terms?: string[];
+};
+
+export function HighlightedText({ text, terms }: HighlightedTextProps) {
+  const ranges = React.useMemo(() => highlightRanges(text, terms ?? []), [text, terms]);
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > last) parts.push(text.slice(last, start));
+    parts.push(
+      <mark key={start} className="rounded-sm bg-yellow-300/40 px-0.5 text-inherit">
+        {text.slice(start, end)}
+      </mark>
+    );
+    last = end;
+  });
+  if (last < text.length) parts.push(text.slice(last));
+  return <>{parts}</>;
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import * as React from "react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { type QuestionFieldErrors } from "@/types";
+import { type ImportedQuestion } from "@/lib/formats/types";
+import { cn } from "@/lib/utils";
+
+// Fields with their own column; errors on any other field are listed under the question text.
+const PREVIEW_FIELDS = ["questionText", "correctAnswer", "questionType", "difficulty"];
+
+type ImportPreviewTableProps = {
+  questions: ImportedQuestion[];
+  rowErrors: (QuestionFieldErrors | undefined)[];
+  onFieldChange: (index: number, field: string, value: string) => void;
+  emptyMessage: string;
+};
+
+/** Imported questions before they are saved, with their validation errors. */
+export function ImportPreviewTable({ questions, rowErrors, onFieldChange, emptyMessage }: ImportPreviewTableProps) {
+  return (
+    <Table>
+      <TableHeader className="sticky top-0 bg-secondary">
+        <TableRow>
+          <TableHead>Question</TableHead>
+          <TableHead>Correct Answer</TableHead>
+          <TableHead>Type</TableHead>
+          <TableHead>Difficulty</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {questions.map((q, index) => {
+          const errors = rowErrors[index];
+          const otherErrors = errors
+            ? Object.entries(errors)
+                .filter(([field, msg]) => msg && !PREVIEW_FIELDS.includes(field))
+                .map(([field, msg]) => `${field}: ${msg}`)
+            : [];
+          return (
+            <TableRow key={index} className={cn(errors && Object.values(errors).some(Boolean) && "bg-destructive/5")}>
+              <TableCell>
+                <Input
+                  value={q.questionText}
+                  onChange={(e) => onFieldChange(index, "questionText", e.target.value)}
+                  className={cn("h-8", errors?.questionText && "border-destructive")}
+                />
+                <FieldError message={errors?.questionText} />
+                {otherErrors.map((msg) => (
+                  <FieldError key={msg} message={msg} />
+                ))}
+              </TableCell>
+              <TableCell>
+                <p className={cn("w-40 text-sm", errors?.correctAnswer && "text-destructive")}>
+                  {Array.isArray(q.correctAnswer) ? q.correctAnswer.join(", ") : q.correctAnswer}
+                </p>
+                <FieldError message={errors?.correctAnswer} />
+              </TableCell>
+              <TableCell>
+                <p className="w-20 text-sm">{q.questionType}</p>
+              </TableCell>
+              <TableCell>
+                <Input
+                  value={q.difficulty}
+                  onChange={(e) => onFieldChange(index, "difficulty", e.target.value)}
+                  className={cn("h-8 w-24", errors?.difficulty && "border-destructive")}
+                />
+                <FieldError message={errors?.difficulty} />
+              </TableCell>
+            </TableRow>
+          );
+        })}
+        {questions.length === 0 && (
+          <TableRow>
+            <TableCell colSpan={4} className="text-center text-muted-foreground h-24">
+              {emptyMessage}
+            </TableCell>
+          </TableRow>
+        )}
+      </TableBody>
+    </Table>
+  );
+}
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="mt-1 text-xs text-destructive">{message}</p>;
+}
@@ -0,0 +1,211 @@
+"use client";
+
+import * as React from "react";
+import Image from "next/image";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { handleMergeQuestions } from "@/lib/actions";
+import {
+  MERGE_FIELDS,
+  buildMergedQuestion,
+  defaultMergeChoices,
+  mergeCandidates,
+  type MergeChoices,
+  type MergeField,
+} from "@/lib/merge-questions";
+import { readEditorName } from "@/context/lock-context";
+import { useToast } from "@/hooks/use-toast";
+import { type Question, validateQuestion } from "@/types";
+import { Combine, Loader2 } from "lucide-react";
+
+type MergeQuestionsDialogProps = {
+  isOpen: boolean;
+  setIsOpen: (isOpen: boolean) => void;
+  group: Question[];
+  survivorId: string;
+  onMerged: (survivor: Question, retiredIds: string[]) => void;
+};
+
+export function MergeQuestionsDialog({
+  isOpen,
+  setIsOpen,
+  group,
+  survivorId,
+  onMerged,
+}: MergeQuestionsDialogProps) {
+  const [choices, setChoices] = React.useState<MergeChoices>(() => defaultMergeChoices(group, survivorId));
+  const [isMerging, setIsMerging] = React.useState(false);
+  const { toast } = useToast();
+
+  React.useEffect(() => {
+    if (isOpen) setChoices(defaultMergeChoices(group, survivorId));
+  }, [isOpen, group, survivorId]);
+
+  const survivor = group.find((q) => q.id === survivorId) ?? group[0];
+  const retiredIds = group.filter((q) => q.id !== survivor?.id).map((q) => q.id);
+  const merged = React.useMemo(() => buildMergedQuestion(group, survivorId, choices), [group, survivorId, choices]);
+  const validation = React.useMemo(() => validateQuestion(merged), [merged]);
+  const errors = validation.success ? [] : Object.values(validation.errors).filter(Boolean);
+
+  const positionOf = (id: string) => group.findIndex((q) => q.id === id) + 1;
+
+  const merge = async () => {
+    if (!survivor) return;
+    setIsMerging(true);
+    try {
+      const result = await handleMergeQuestions(merged, retiredIds, readEditorName(), survivor.updatedAt);
+      if (result.success && result.question) {
+        onMerged(result.question, retiredIds);
+        setIsOpen(false);
+      } else if (result.conflict) {
+        toast({
+          title: "Merge Failed",
+          description: "The kept question was changed by someone else. Reload the page and merge again.",
+          variant: "destructive",
+        });
+      } else {
+        const details = result.errors ? Object.values(result.errors).filter(Boolean).join(" ") : "";
+        toast({
+          title: "Merge Failed",
+          description: details || "Could not merge these questions.",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error("Error merging questions", error);
+      toast({ title: "Merge Failed", description: "Could not merge these questions.", variant: "destructive" });
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogContent className="max-w-4xl h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="font-headline text-2xl flex items-center gap-2">
+            <Combine className="text-primary" />
+            Merge Duplicate Group
+          </DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Pick which copy each field comes from. The result is saved to Q# {survivor?.id} and the
+            other {retiredIds.length} question(s) move to the trash.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="flex-1 border border-border rounded-md">
+          <div className="p-3 space-y-5">
+            {MERGE_FIELDS.map(({ field, label }) => (
+              <MergeFieldChooser
+                key={field}
+                field={field}
+                label={label}
+                group={group}
+                value={choices[field]}
+                onChange={(id) => setChoices((prev) => ({ ...prev, [field]: id }))}
+                positionOf={positionOf}
+              />
+            ))}
+
+            <div className="space-y-1">
+              <Badge variant="secondary">Tags</Badge>
+              <p className="text-sm">
+                {merged.topicTags?.length ? (
+                  merged.topicTags.join(", ")
+                ) : (
+                  <span className="italic text-muted-foreground">(none)</span>
+                )}
+              </p>
+              <p className="text-xs text-muted-foreground">The tags of every copy are kept.</p>
+            </div>
+            <div className="space-y-1">
+              <Badge variant="secondary">Created</Badge>
+              <p className="text-sm">{merged.createdAt ? new Date(merged.createdAt).toLocaleString() : "-"}</p>
+              <p className="text-xs text-muted-foreground">The earliest creation date in the group is kept.</p>
+            </div>
+          </div>
+        </ScrollArea>
+
+        {errors.length > 0 && (
+          <div className="rounded-md border border-destructive/50 bg-destructive/10 p-2 text-sm text-destructive">
+            {errors.join(" ")}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isMerging}>
+            Cancel
+          </Button>
+          <Button onClick={merge} disabled={isMerging || errors.length > 0}>
+            {isMerging ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Combine className="mr-2 h-4 w-4" />}
+            Merge {group.length} Questions
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+type MergeFieldChooserProps = {
+  field: MergeField;
+  label: string;
+  group: Question[];
+  value: string;
+  onChange: (questionId: string) => void;
+  positionOf: (questionId: string) => number;
+};
+
+function MergeFieldChooser({ field, label, group, value, onChange, positionOf }: MergeFieldChooserProps) {
+  const candidates = mergeCandidates(group, field);
+  const selected = candidates.find((c) => c.questionIds.includes(value))?.questionId;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <Badge variant="secondary">{label}</Badge>
+        {candidates.length === 1 && <span className="text-xs text-muted-foreground">Same in every copy</span>}
+      </div>
+      {candidates.length === 0 ? (
+        <p className="text-sm italic text-muted-foreground">(empty in every copy)</p>
+      ) : (
+        <RadioGroup value={selected} onValueChange={onChange} className="gap-2">
+          {candidates.map((candidate) => {
+            const id = `merge-${field}-${candidate.questionId}`;
+            return (
+              <div key={candidate.questionId} className="flex items-start space-x-3 rounded-md border p-2">
+                <RadioGroupItem value={candidate.questionId} id={id} className="mt-1" />
+                <Label htmlFor={id} className="flex-1 space-y-1 font-normal">
+                  {field === "imageUrl" ? (
+                    <Image
+                      src={candidate.value}
+                      alt={`Image of copy ${positionOf(candidate.questionId)}`}
+                      width={240}
+                      height={160}
+                      className="rounded-md border object-contain"
+                    />
+                  ) : (
+                    <p className="whitespace-pre-wrap text-sm">{candidate.value}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    From {candidate.questionIds.map((qid) => `#${positionOf(qid)} (Q# ${qid})`).join(", ")}
+                  </p>
+                </Label>
+              </div>
+            );
+          })}
+        </RadioGroup>
+      )}
+    </div>
+  );
+}
@@ -7,13 +7,94 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { handleParseQuestions, handleSaveQuestions } from "@/lib/actions";
+import {
+  handleCategorizeDrafts,
+  handleParseQuestionChunks,
+  handleSaveQuestions,
+  handleUpdateQuestion,
+} from "@/lib/actions";
 import { type ParseQuestionsOutput } from "@/ai/flows/parse-question";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Sparkles, Wand2 } from "lucide-react";
+import { AlertTriangle, Camera, FileText, ImageIcon, Loader2, RotateCcw, Sparkles, Wand2, X } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import Image from "next/image";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
-import { type Question } from "@/types";
+import { type Question, type QuestionFieldErrors, validateQuestionDraft } from "@/types";
+import { cn } from "@/lib/utils";
+import { parseQuizBlock, splitQuizText } from "@/lib/formats/quiz-text";
+import { readPdf, segmentPdf, type PdfPage, type PdfQuestionBlock } from "@/lib/pdf-import";
+import { readDocx, type DocxQuestionBlock } from "@/lib/docx-import";
+import { recognizeImage, releaseOcr } from "@/lib/ocr";
+import { chunkBlocks, PARSE_CONCURRENCY, type ChunkParseResult } from "@/lib/parse-chunks";
+import { attachImportedImages } from "@/lib/import-images";
+import { applyAllFixes, checkImportedQuestion, type ImportCheck } from "@/lib/import-checks";
+import {
+  buildBankIndex,
+  findBankMatch,
+  mergeIntoExisting,
+  type BankIndex,
+  type BankMatch,
+  type DuplicateAction,
+} from "@/lib/import-duplicates";
+import { getQuestionBankSnapshot } from "@/hooks/use-question-bank";
+import { readEditorName } from "@/context/lock-context";
+import { DocumentPreview, type PreviewSection } from "./document-preview";
+
+// Which parser produced a row: the local text parser, or the AI for blocks it could not read.
+type ParseOrigin = "local" | "ai";
+
+type SourceBlock = { text: string; image?: File };
+// `position` is the index of the source block, which keeps rows in input order.
+type ParsedRow = {
+  question: ParseQuestionsOutput[number];
+  origin: ParseOrigin;
+  image?: File;
+  position: number;
+  /** The bank question this one most likely repeats, and what to do about it. */
+  match?: BankMatch;
+  action?: DuplicateAction;
+};
+
+type ChunkStatus = "pending" | "running" | "done" | "failed";
+// Blocks the local parser could not read, sent to the AI in one prompt.
+type ParseChunk = { position: number; blocks: SourceBlock[]; status: ChunkStatus };
+
+// An uploaded PDF or Word document, cut into question blocks.
+type LoadedDocument = { fileName: string; blocks: SourceBlock[]; sections: PreviewSection[] };
+
+// A screenshot read with OCR. The recognized text stays editable until it is parsed.
+type Screenshot = { file: File; text: string; confidence: number };
+
+// Below this OCR confidence the text is flagged for a closer look.
+const LOW_CONFIDENCE = 70;
+
+const isDocx = (fileName: string) => fileName.toLowerCase().endsWith(".docx");
+
+function pdfSections(pages: PdfPage[], blocks: PdfQuestionBlock[]): PreviewSection[] {
+  return pages.map((page) => {
+    const blockCount = blocks.filter((b) => b.pageNumber === page.pageNumber).length;
+    return {
+      title: `Page ${page.pageNumber}`,
+      badges: [`${blockCount} question block(s)`, ...(page.images.length > 0 ? [`${page.images.length} image(s)`] : [])],
+      text: page.lines.map((line) => line.text).join("\n").trim(),
+      images: page.images.map((image) => image.file),
+      emptyText: "No text found on this page; it may be a scanned image.",
+    };
+  });
+}
+
+function docxSections(blocks: DocxQuestionBlock[]): PreviewSection[] {
+  return blocks.map((block, index) => ({
+    title: `Block ${index + 1}`,
+    badges: block.extraImages > 0 ? [`${block.extraImages} more image(s) not attached`] : [],
+    text: block.text,
+    images: block.image ? [block.image] : [],
+    emptyText: "",
+  }));
+}
 
 type PasteParserDialogProps = {
   isOpen: boolean;
@@ -23,61 +104,378 @@ type PasteParserDialogProps = {
 
 export function PasteParserDialog({ isOpen, setIsOpen, onQuestionsAdded }: PasteParserDialogProps) {
   const [text, setText] = React.useState("");
-  const [parsedQuestions, setParsedQuestions] = React.useState<ParseQuestionsOutput>([]);
+  const [rows, setRows] = React.useState<ParsedRow[]>([]);
+  const [chunks, setChunks] = React.useState<ParseChunk[]>([]);
+  const [loadedDocument, setLoadedDocument] = React.useState<LoadedDocument | null>(null);
+  const [uploadProgress, setUploadProgress] = React.useState<string | null>(null);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const [screenshots, setScreenshots] = React.useState<Screenshot[] | null>(null);
+  const [keepScreenshots, setKeepScreenshots] = React.useState(true);
+  const imageInputRef = React.useRef<HTMLInputElement>(null);
   const [isLoading, setIsLoading] = React.useState(false);
   const [isSaving, setIsSaving] = React.useState(false);
+  const [rowErrors, setRowErrors] = React.useState<(QuestionFieldErrors | undefined)[]>([]);
+  const [saveDespiteErrors, setSaveDespiteErrors] = React.useState(false);
+  // Built from the bank once per parse and reused for chunks that arrive later.
+  const bankIndexRef = React.useRef<BankIndex | null>(null);
   const { toast } = useToast();
 
-  const onParse = async () => {
-    if (!text.trim()) {
+  // The OCR worker holds its language data in memory; let it go with the dialog.
+  React.useEffect(() => {
+    if (!isOpen) void releaseOcr();
+  }, [isOpen]);
+
+  const clearParsed = () => {
+    setRows([]);
+    setChunks([]);
+    setRowErrors([]);
+    setSaveDespiteErrors(false);
+  };
+
+  // Checked on every change, so a fix or an edit clears its warning straight away.
+  const checks = React.useMemo(() => rows.map((r) => checkImportedQuestion(r.question)), [rows]);
+  // Skipped duplicates are not saved, so their problems do not matter.
+  const errorRows = rows.filter(
+    (row, i) => row.action !== "skip" && checks[i].some((c) => c.severity === "error")
+  );
+  const rowsWithErrors = errorRows.length;
+  // "Save anyway" only helps with problems the bank accepts (e.g. a single option); a row
+  // the server would reject fails the whole save, so those must be fixed first.
+  const rowsBlockingSave = errorRows.filter((row) => !validateQuestionDraft(row.question).success).length;
+  const rowsToWrite = rows.filter((row) => !row.match || row.action !== "skip").length;
+  const fixableCount = checks.filter((list) => list.some((c) => c.fix)).length;
+
+  const applyFix = (index: number, fix: NonNullable<ImportCheck["fix"]>) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, question: fix(row.question) } : row)));
+    setRowErrors((prev) => prev.map((errors, i) => (i === index ? undefined : errors)));
+  };
+
+  const applyEveryFix = () => {
+    setRows((prev) => prev.map((row) => ({ ...row, question: applyAllFixes(row.question) })));
+    setRowErrors([]);
+  };
+
+  const onFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setUploadProgress(`Opening ${file.name}...`);
+    try {
+      if (isDocx(file.name)) {
+        const docx = await readDocx(await file.arrayBuffer());
+        setLoadedDocument({ fileName: file.name, blocks: docx.blocks, sections: docxSections(docx.blocks) });
+        if (docx.warnings.length > 0) {
+          toast({ title: "Some content was skipped", description: docx.warnings.join(" ") });
+        }
+      } else {
+        const pages = await readPdf(await file.arrayBuffer(), (page, count) =>
+          setUploadProgress(`Reading page ${page} of ${count}...`)
+        );
+        const blocks = segmentPdf(pages);
+        setLoadedDocument({ fileName: file.name, blocks, sections: pdfSections(pages, blocks) });
+      }
+      setScreenshots(null);
+      clearParsed();
+    } catch (error) {
+      console.error("Reading document failed:", error);
       toast({
-        title: "Error",
-        description: "Please paste some question text to parse.",
+        title: "Could not read file",
+        description: "The file may be damaged or password protected.",
         variant: "destructive",
       });
-      return;
+    } finally {
+      setUploadProgress(null);
     }
-    setIsLoading(true);
-    setParsedQuestions([]);
+  };
+
+  const onImagesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (files.length === 0) return;
+    const read: Screenshot[] = [];
+    let failed = 0;
+    setUploadProgress("Loading OCR...");
     try {
-      const result = await handleParseQuestions({ text });
-      setParsedQuestions(result);
+      for (const [index, file] of files.entries()) {
+        try {
+          const result = await recognizeImage(file, (progress) =>
+            setUploadProgress(`Reading image ${index + 1} of ${files.length} (${Math.round(progress * 100)}%)...`)
+          );
+          read.push({ file, ...result });
+        } catch (error) {
+          console.error(`OCR failed for ${file.name}:`, error);
+          failed++;
+        }
+      }
+    } finally {
+      setUploadProgress(null);
+    }
+
+    if (read.length === 0) {
       toast({
-        title: "Success",
-        description: `Successfully parsed ${result.length} questions. Review and save below.`,
+        title: "Could not read images",
+        description: "No text could be recognized. Check your connection; the OCR language data is downloaded on first use.",
+        variant: "destructive",
       });
+      return;
+    }
+    setScreenshots(read);
+    setLoadedDocument(null);
+    clearParsed();
+    const unclear = read.filter((s) => s.confidence < LOW_CONFIDENCE).length;
+    toast({
+      title: "Text recognized",
+      description:
+        `Read ${read.length} image(s). Check the text, correct any mistakes, then parse.` +
+        (unclear > 0 ? ` ${unclear} image(s) were hard to read.` : "") +
+        (failed > 0 ? ` ${failed} image(s) could not be read.` : ""),
+    });
+  };
+
+  const updateScreenshotText = (index: number, value: string) =>
+    setScreenshots((prev) => prev && prev.map((s, i) => (i === index ? { ...s, text: value } : s)));
+
+  const setChunkStatus = (positions: number[], status: ChunkStatus) =>
+    setChunks((prev) => prev.map((c) => (positions.includes(c.position) ? { ...c, status } : c)));
+
+  // Parsed rows that look like questions already in the bank are skipped by default.
+  const withMatches = (added: ParsedRow[]): ParsedRow[] => {
+    const index = (bankIndexRef.current ??= buildBankIndex(getQuestionBankSnapshot()));
+    return added.map((row) => {
+      const match = findBankMatch(row.question, index) ?? undefined;
+      return match ? { ...row, match, action: "skip" } : row;
+    });
+  };
+
+  // New rows go where their blocks were in the input, whatever order the chunks finish in.
+  const addRows = (added: ParsedRow[]) =>
+    setRows((prev) => [...prev, ...withMatches(added)].sort((a, b) => a.position - b.position));
+
+  const setDuplicateAction = (index: number, action: DuplicateAction) =>
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, action } : row)));
+
+  // Sends chunks to the AI a few at a time and adds their questions as each wave returns.
+  const runChunks = async (pending: ParseChunk[]) => {
+    let parsed = 0;
+    let failed = 0;
+    for (let start = 0; start < pending.length; start += PARSE_CONCURRENCY) {
+      const wave = pending.slice(start, start + PARSE_CONCURRENCY);
+      setChunkStatus(wave.map((c) => c.position), "running");
+      let results: ChunkParseResult<ParseQuestionsOutput[number]>[];
+      try {
+        results = await handleParseQuestionChunks(wave.map((c) => c.blocks.map((b) => b.text).join("\n\n")));
+      } catch (error) {
+        console.error("Parsing failed:", error);
+        results = wave.map(() => ({ success: false, error: String(error) }));
+      }
+
+      const added: ParsedRow[] = [];
+      wave.forEach((chunk, i) => {
+        const result = results[i];
+        if (!result.success) return;
+        // Only blocks with an image are sent alone, so a chunk's image is its first block's.
+        const image = chunk.blocks[0].image;
+        result.questions.forEach((question, j) =>
+          added.push({ question, origin: "ai", image: j === 0 ? image : undefined, position: chunk.position })
+        );
+      });
+      const failedPositions = wave.filter((_, i) => !results[i].success).map((c) => c.position);
+      addRows(added);
+      setChunkStatus(wave.filter((c) => !failedPositions.includes(c.position)).map((c) => c.position), "done");
+      setChunkStatus(failedPositions, "failed");
+      parsed += added.length;
+      failed += failedPositions.length;
+    }
+    return { parsed, failed };
+  };
+
+  // The AI parser picks a chapter from the taxonomy; locally parsed questions without a
+  // "Chapter:" line get theirs the same way, so they are not saved uncategorized.
+  const categorizeLocalRows = async (local: ParsedRow[]) => {
+    const targets = local.filter((row) => !row.question.chapter);
+    if (targets.length === 0) return;
+    let placed: Awaited<ReturnType<typeof handleCategorizeDrafts>>;
+    try {
+      placed = await handleCategorizeDrafts(targets.map((row) => row.question));
     } catch (error) {
-      console.error("Parsing failed:", error);
+      console.error("Categorizing parsed questions failed:", error);
+      return;
+    }
+    const byPosition = new Map(targets.map((row, i) => [row.position, placed[i]]));
+    setRows((prev) =>
+      prev.map((row) => {
+        const chapter = row.origin === "local" && !row.question.chapter ? byPosition.get(row.position) : null;
+        return chapter ? { ...row, question: { ...row.question, ...chapter } } : row;
+      })
+    );
+  };
+
+  const reportParse = (total: number, aiCount: number, failedChunks: number) => {
+    if (total === 0 && failedChunks === 0) {
       toast({
         title: "Parsing Failed",
         description: "Could not parse questions from the provided text. Please check the format.",
         variant: "destructive",
       });
+    } else if (failedChunks > 0) {
+      toast({
+        title: "Partly parsed",
+        description: `${total} questions were parsed, but ${failedChunks} chunk(s) failed. Retry them from the progress bar.`,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Success",
+        description:
+          `Successfully parsed ${total} questions` +
+          (aiCount > 0 ? ` (${aiCount} with AI)` : "") +
+          ". Review and save below.",
+      });
+    }
+  };
+
+  const onParse = async () => {
+    // Every question read from a screenshot can keep that screenshot as its image.
+    const blocks: SourceBlock[] = screenshots
+      ? screenshots.flatMap((s) =>
+          splitQuizText(s.text).map((t) => ({ text: t, image: keepScreenshots ? s.file : undefined }))
+        )
+      : loadedDocument
+        ? loadedDocument.blocks
+        : splitQuizText(text).map((t) => ({ text: t }));
+    if (blocks.length === 0) {
+      toast({
+        title: "Error",
+        description: screenshots
+          ? "The recognized text is empty. Type or correct it before parsing."
+          : loadedDocument
+          ? "No text could be extracted from this file."
+          : "Please paste some question text to parse.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Blocks the local parser reads never reach the AI. Blocks with an image are sent
+    // alone so the image stays with its question; the rest are grouped into chunks.
+    const localRows: ParsedRow[] = [];
+    const withImage: ParseChunk[] = [];
+    const plain: { block: SourceBlock; position: number }[] = [];
+    blocks.forEach((block, position) => {
+      const question = parseQuizBlock(block.text);
+      if (question) localRows.push({ question, origin: "local", image: block.image, position });
+      else if (block.image) withImage.push({ position, blocks: [block], status: "pending" });
+      else plain.push({ block, position });
+    });
+    const aiChunks = [
+      ...withImage,
+      ...chunkBlocks(plain.map((p) => p.block.text)).map((indexes): ParseChunk => ({
+        position: plain[indexes[0]].position,
+        blocks: indexes.map((i) => plain[i].block),
+        status: "pending",
+      })),
+    ].sort((a, b) => a.position - b.position);
+
+    setIsLoading(true);
+    clearParsed();
+    bankIndexRef.current = null;
+    setRows(withMatches(localRows));
+    setChunks(aiChunks);
+    try {
+      await categorizeLocalRows(localRows);
+      const { parsed, failed } = await runChunks(aiChunks);
+      reportParse(localRows.length + parsed, parsed, failed);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onRetryFailed = async () => {
+    const failedChunks = chunks.filter((c) => c.status === "failed");
+    if (failedChunks.length === 0) return;
+    setIsLoading(true);
+    setRowErrors([]);
+    try {
+      const { parsed, failed } = await runChunks(failedChunks);
+      reportParse(parsed, parsed, failed);
     } finally {
       setIsLoading(false);
     }
   };
 
   const handleFieldChange = (index: number, field: string, value: string | string[]) => {
-    const updatedQuestions = [...parsedQuestions];
-    (updatedQuestions[index] as any)[field] = value;
-    setParsedQuestions(updatedQuestions);
+    setRows((prev) =>
+      prev.map((row, i) => (i === index ? { ...row, question: { ...row.question, [field]: value } } : row))
+    );
+    // Editing a field clears its error; the server re-validates on the next save.
+    setRowErrors((prev) => {
+      if (!prev[index]) return prev;
+      const next = [...prev];
+      next[index] = { ...prev[index], [field]: undefined };
+      return next;
+    });
   };
   
   const handleSave = async () => {
+      // Likely duplicates are skipped unless the reviewer chose to save or update them.
+      const toSave = rows.map((row, index) => ({ row, index })).filter(({ row }) => !row.match || row.action === "save");
+      const toUpdate = rows.filter((row) => row.match && row.action === "update");
+      const skipped = rows.length - toSave.length - toUpdate.length;
+      const actor = readEditorName();
       setIsSaving(true);
       try {
-        const result = await handleSaveQuestions(parsedQuestions);
+        const result = toSave.length > 0
+            ? await handleSaveQuestions(toSave.map(({ row }) => row.question))
+            : { success: true, savedQuestions: [] };
 
         if (result.success) {
+            const updated: { question: Question; image?: File }[] = [];
+            let updateFailed = 0;
+            for (const row of toUpdate) {
+                if (!row.match) continue;
+                const existing = row.match.question;
+                const update = await handleUpdateQuestion(
+                    mergeIntoExisting(existing, row.question),
+                    { actor, action: "edit" },
+                    existing.updatedAt
+                );
+                if (update.success && update.question) updated.push({ question: update.question, image: row.image });
+                else updateFailed++;
+            }
+
+            const { questions, failed } = await attachImportedImages(
+                [...result.savedQuestions, ...updated.map((u) => u.question)],
+                [...toSave.map(({ row }) => row.image), ...updated.map((u) => u.image)],
+                actor
+            );
             toast({
-                title: "Success!",
-                description: `${result.savedQuestions.length} questions have been saved to Firestore.`,
+                title: updateFailed > 0 ? "Saved with problems" : "Success!",
+                description:
+                    `${result.savedQuestions.length} questions have been saved to Firestore` +
+                    (updated.length > 0 ? `, ${updated.length} existing question(s) updated` : "") +
+                    (skipped > 0 ? `, ${skipped} duplicate(s) skipped` : "") +
+                    "." +
+                    (updateFailed > 0 ? ` ${updateFailed} existing question(s) could not be updated; they may have changed since.` : "") +
+                    (failed > 0 ? ` ${failed} image(s) could not be uploaded.` : ""),
+                variant: updateFailed > 0 ? "destructive" : undefined,
             });
-            onQuestionsAdded(result.savedQuestions);
-            setParsedQuestions([]);
+            onQuestionsAdded(questions);
+            clearParsed();
             setText("");
+            setLoadedDocument(null);
+            setScreenshots(null);
             setIsOpen(false);
+        } else if (result.errors) {
+            // Errors come back for the saved subset; put them on the matching rows.
+            const errors: (QuestionFieldErrors | undefined)[] = [];
+            toSave.forEach(({ index }, i) => (errors[index] = result.errors?.[i]));
+            setRowErrors(errors);
+            const invalidCount = result.errors.filter(Boolean).length;
+            toast({
+              title: "Some questions need fixing",
+              description: `${invalidCount} question(s) failed validation. Fix the highlighted fields and save again.`,
+              variant: "destructive"
+            });
         } else {
              toast({
               title: "Error saving questions",
@@ -106,24 +504,106 @@ export function PasteParserDialog({ isOpen, setIsOpen, onQuestionsAdded }: Paste
             Paste & Parse Questions
           </DialogTitle>
           <DialogDescription>
-            Paste a block of exam questions below. The AI will automatically parse them into structured records.
+            Paste a block of exam questions, upload a PDF or Word document, or read screenshots with OCR. Questions in the quiz-builder format ("A. option", "Answer: A,C") are read directly; the AI parses the rest.
           </DialogDescription>
         </DialogHeader>
         
         <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-4 overflow-hidden">
-            <div className="flex flex-col gap-2">
-                <Label htmlFor="paste-area">Raw Question Text</Label>
-                <Textarea
-                    id="paste-area"
-                    placeholder="Paste questions here... Supports mixed English and Arabic, various numbering formats."
-                    className="flex-1 resize-none"
-                    value={text}
-                    onChange={(e) => setText(e.target.value)}
-                />
+            <div className="flex flex-col gap-2 overflow-hidden">
+                <div className="flex items-center justify-between gap-2">
+                    <Label htmlFor="paste-area" className="truncate">
+                        {screenshots
+                            ? `${screenshots.length} screenshot(s) · recognized text`
+                            : loadedDocument
+                            ? `${loadedDocument.fileName} · ${loadedDocument.blocks.length} question block(s)`
+                            : "Raw Question Text"}
+                    </Label>
+                    {loadedDocument || screenshots ? (
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                                setLoadedDocument(null);
+                                setScreenshots(null);
+                            }}
+                            disabled={isLoading}
+                        >
+                            <X className="mr-1 h-4 w-4" /> {screenshots ? "Close images" : "Close file"}
+                        </Button>
+                    ) : uploadProgress ? (
+                        <Button variant="outline" size="sm" disabled>
+                            <Loader2 className="mr-1 h-4 w-4 animate-spin" /> {uploadProgress}
+                        </Button>
+                    ) : (
+                        <div className="flex gap-2">
+                            <Button variant="outline" size="sm" onClick={() => imageInputRef.current?.click()} disabled={isLoading}>
+                                <Camera className="mr-1 h-4 w-4" /> Import from image
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isLoading}>
+                                <FileText className="mr-1 h-4 w-4" /> Upload PDF / Word
+                            </Button>
+                        </div>
+                    )}
+                    <input
+                        ref={imageInputRef}
+                        type="file"
+                        accept="image/png,image/jpeg,image/webp,image/bmp"
+                        multiple
+                        className="hidden"
+                        onChange={onImagesSelected}
+                    />
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".pdf,application/pdf,.docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                        className="hidden"
+                        onChange={onFileSelected}
+                    />
+                </div>
+                {screenshots ? (
+                    <>
+                        <ScrollArea className="flex-1 border border-border rounded-md">
+                            <div className="space-y-4 p-3">
+                                {screenshots.map((screenshot, index) => (
+                                    <ScreenshotText
+                                        key={index}
+                                        screenshot={screenshot}
+                                        onChange={(value) => updateScreenshotText(index, value)}
+                                    />
+                                ))}
+                            </div>
+                        </ScrollArea>
+                        <div className="flex items-center gap-2">
+                            <Checkbox
+                                id="keep-screenshots"
+                                checked={keepScreenshots}
+                                onCheckedChange={(checked) => setKeepScreenshots(checked === true)}
+                            />
+                            <Label htmlFor="keep-screenshots" className="text-sm font-normal">
+                                Keep each screenshot as its question&apos;s image
+                            </Label>
+                        </div>
+                    </>
+                ) : loadedDocument ? (
+                    <ScrollArea className="flex-1 border border-border rounded-md">
+                        <DocumentPreview sections={loadedDocument.sections} />
+                    </ScrollArea>
+                ) : (
+                    <Textarea
+                        id="paste-area"
+                        placeholder="Paste questions here... Supports mixed English and Arabic, various numbering formats."
+                        className="flex-1 resize-none"
+                        value={text}
+                        onChange={(e) => setText(e.target.value)}
+                    />
+                )}
             </div>
 
             <div className="flex flex-col gap-2 overflow-hidden">
                  <Label>Parsed Questions Preview</Label>
+                 {chunks.length > 0 && (
+                     <ChunkProgress chunks={chunks} onRetry={onRetryFailed} disabled={isLoading} />
+                 )}
                  <ScrollArea className="flex-1 border border-border rounded-md">
                      <Table>
                          <TableHeader className="sticky top-0 bg-secondary">
@@ -135,38 +615,88 @@ export function PasteParserDialog({ isOpen, setIsOpen, onQuestionsAdded }: Paste
                              </TableRow>
                          </TableHeader>
                          <TableBody>
-                             {parsedQuestions.map((q, index) => (
-                                 <TableRow key={index}>
+                             {rows.map(({ question: q, origin, image, match, action }, index) => {
+                                 const errors = rowErrors[index];
+                                 // Errors on fields that have no column here are listed under the question text.
+                                 const otherErrors = errors
+                                     ? Object.entries(errors)
+                                         .filter(([field, msg]) => msg && !['questionText', 'options', 'correctAnswer', 'questionType', 'difficulty'].includes(field))
+                                         .map(([field, msg]) => `${field}: ${msg}`)
+                                     : [];
+                                 const hasErrors =
+                                     (errors && Object.values(errors).some(Boolean)) ||
+                                     checks[index]?.some((c) => c.severity === "error");
+                                 return (
+                                 <React.Fragment key={index}>
+                                 <TableRow className={cn(hasErrors && "bg-destructive/5", action === "skip" && "opacity-60")}>
                                      <TableCell>
                                          <Input 
                                              value={q.questionText} 
                                              onChange={(e) => handleFieldChange(index, 'questionText', e.target.value)}
-                                             className="h-8"
+                                             className={cn("h-8", errors?.questionText && "border-destructive")}
+                                         />
+                                         <FieldError message={errors?.questionText} />
+                                         <Textarea
+                                             value={(q.options ?? []).join("\n")}
+                                             onChange={(e) => handleFieldChange(index, 'options', e.target.value.split("\n"))}
+                                             placeholder="One option per line"
+                                             rows={Math.min(Math.max(q.options?.length ?? 0, 2), 6)}
+                                             className={cn("mt-1 min-h-0 text-xs", errors?.options && "border-destructive")}
                                          />
+                                         <FieldError message={errors?.options} />
+                                         {otherErrors.map((msg) => <FieldError key={msg} message={msg} />)}
+                                         <CheckList checks={checks[index] ?? []} onFix={(fix) => applyFix(index, fix)} />
                                      </TableCell>
                                       <TableCell>
                                          <Input 
                                              value={Array.isArray(q.correctAnswer) ? q.correctAnswer.join(', ') : (q.correctAnswer || '')}
                                              onChange={(e) => handleFieldChange(index, 'correctAnswer', e.target.value)}
-                                             className="h-8 w-40"
+                                             className={cn("h-8 w-40", errors?.correctAnswer && "border-destructive")}
                                          />
+                                         <FieldError message={errors?.correctAnswer} />
                                      </TableCell>
                                      <TableCell>
                                          <Input 
                                              value={q.questionType} 
                                              onChange={(e) => handleFieldChange(index, 'questionType', e.target.value)}
-                                             className="h-8 w-24"
+                                             className={cn("h-8 w-24", errors?.questionType && "border-destructive")}
                                          />
+                                         <FieldError message={errors?.questionType} />
+                                         {image && (
+                                             <Badge variant="outline" className="mt-1 mr-1">
+                                                 <ImageIcon className="mr-1 h-3 w-3" /> Image
+                                             </Badge>
+                                         )}
+                                         {origin && (
+                                             <Badge variant={origin === "ai" ? "secondary" : "outline"} className="mt-1">
+                                                 {origin === "ai" ? "AI" : "Local"}
+                                             </Badge>
+                                         )}
                                      </TableCell>
                                      <TableCell>
                                          <Input 
                                              value={q.difficulty}
                                              onChange={(e) => handleFieldChange(index, 'difficulty', e.target.value)}
-                                             className="h-8 w-24"
+                                             className={cn("h-8 w-24", errors?.difficulty && "border-destructive")}
                                          />
+                                         <FieldError message={errors?.difficulty} />
                                      </TableCell>
                                  </TableRow>
-                             ))}
+                                 {match && action && (
+                                     <TableRow className="bg-muted/40 hover:bg-muted/40">
+                                         <TableCell colSpan={4}>
+                                             <DuplicatePanel
+                                                 question={q}
+                                                 match={match}
+                                                 action={action}
+                                                 onAction={(next) => setDuplicateAction(index, next)}
+                                             />
+                                         </TableCell>
+                                     </TableRow>
+                                 )}
+                                 </React.Fragment>
+                                 );
+                             })}
                               {isLoading && (
                                 <TableRow>
                                     <TableCell colSpan={4} className="text-center text-muted-foreground h-24">
@@ -174,7 +704,7 @@ export function PasteParserDialog({ isOpen, setIsOpen, onQuestionsAdded }: Paste
                                     </TableCell>
                                 </TableRow>
                               )}
-                              {!isLoading && parsedQuestions.length === 0 && (
+                              {!isLoading && rows.length === 0 && (
                                 <TableRow>
                                     <TableCell colSpan={4} className="text-center text-muted-foreground h-24">
                                         Parsed questions will appear here.
@@ -187,13 +717,35 @@ export function PasteParserDialog({ isOpen, setIsOpen, onQuestionsAdded }: Paste
             </div>
         </div>
 
-        <DialogFooter>
+        <DialogFooter className="sm:items-center">
+          {rowsWithErrors > 0 && (
+            <div className="flex flex-wrap items-center gap-3 text-sm sm:mr-auto">
+              <span className="text-destructive">{rowsWithErrors} question(s) have errors.</span>
+              {fixableCount > 0 && (
+                <Button variant="link" size="sm" className="h-auto p-0" onClick={applyEveryFix} disabled={isLoading}>
+                  Apply all quick fixes
+                </Button>
+              )}
+              {rowsBlockingSave > 0 ? (
+                <span className="text-muted-foreground">{rowsBlockingSave} must be fixed before saving.</span>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="save-despite-errors"
+                    checked={saveDespiteErrors}
+                    onCheckedChange={(checked) => setSaveDespiteErrors(checked === true)}
+                  />
+                  <Label htmlFor="save-despite-errors" className="font-normal">Save anyway</Label>
+                </div>
+              )}
+            </div>
+          )}
           <Button variant="outline" onClick={() => setIsOpen(false)}>Cancel</Button>
           <Button onClick={onParse} disabled={isLoading || isSaving}>
             {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
             Parse Text
           </Button>
-           <Button onClick={handleSave} disabled={parsedQuestions.length === 0 || isSaving || isLoading}>
+           <Button onClick={handleSave} disabled={rowsToWrite === 0 || isSaving || isLoading || (rowsWithErrors > 0 && (!saveDespiteErrors || rowsBlockingSave > 0))}>
             {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
             Save to Firestore
           </Button>
@@ -203,4 +755,178 @@ export function PasteParserDialog({ isOpen, setIsOpen, onQuestionsAdded }: Paste
   );
 }
 
-    
+const DUPLICATE_ACTIONS: { value: DuplicateAction; label: string }[] = [
+  { value: "skip", label: "Skip" },
+  { value: "save", label: "Save anyway" },
+  { value: "update", label: "Update existing" },
+];
+
+function AnswerPreview({ title, question }: { title: string; question: ParseQuestionsOutput[number] | Question }) {
+  const answers = Array.isArray(question.correctAnswer) ? question.correctAnswer : [question.correctAnswer];
+  return (
+    <div className="min-w-0 space-y-1 rounded-md border bg-background p-2">
+      <p className="text-xs font-semibold text-muted-foreground">{title}</p>
+      <p dir="auto" className="whitespace-pre-wrap text-sm">{question.questionText}</p>
+      <ul className="space-y-0.5 text-xs">
+        {(question.options ?? []).map((option, i) => (
+          <li key={i} dir="auto" className={cn(answers.includes(option) && "font-semibold text-primary")}>
+            {String.fromCharCode(65 + i)}. {option}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function DuplicatePanel({
+  question,
+  match,
+  action,
+  onAction,
+}: {
+  question: ParseQuestionsOutput[number];
+  match: BankMatch;
+  action: DuplicateAction;
+  onAction: (action: DuplicateAction) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-xs font-medium">
+          Likely already in the bank ({Math.round(match.score * 100)}% similar)
+        </span>
+        <div className="flex gap-1">
+          {DUPLICATE_ACTIONS.map((option) => (
+            <Button
+              key={option.value}
+              size="sm"
+              variant={action === option.value ? "default" : "outline"}
+              className="h-7"
+              onClick={() => onAction(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <AnswerPreview title="Parsed" question={question} />
+        <AnswerPreview title={`In the bank · ${match.question.subject || "No subject"}`} question={match.question} />
+      </div>
+    </div>
+  );
+}
+
+function CheckList({
+  checks,
+  onFix,
+}: {
+  checks: ImportCheck[];
+  onFix: (fix: NonNullable<ImportCheck["fix"]>) => void;
+}) {
+  if (checks.length === 0) return null;
+  return (
+    <div className="mt-1 flex flex-wrap gap-1">
+      {checks.map((check) => (
+        <Badge
+          key={check.code}
+          variant={check.severity === "error" ? "destructive" : "outline"}
+          className={cn("gap-1 font-normal", check.severity === "warning" && "border-amber-500 text-amber-700 dark:text-amber-400")}
+        >
+          <AlertTriangle className="h-3 w-3 shrink-0" />
+          {check.message}
+          {check.fix && (
+            <button
+              type="button"
+              className="ml-1 font-semibold underline underline-offset-2"
+              onClick={() => check.fix && onFix(check.fix)}
+            >
+              {check.fixLabel}
+            </button>
+          )}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+function ChunkProgress({
+  chunks,
+  onRetry,
+  disabled,
+}: {
+  chunks: ParseChunk[];
+  onRetry: () => void;
+  disabled: boolean;
+}) {
+  const done = chunks.filter((c) => c.status === "done").length;
+  const failed = chunks.filter((c) => c.status === "failed").length;
+  const finished = done + failed;
+
+  return (
+    <div className="space-y-2 rounded-md border border-border p-2">
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span>
+          AI chunks: {finished} of {chunks.length} finished
+          {failed > 0 && <span className="text-destructive"> · {failed} failed</span>}
+        </span>
+        {failed > 0 && (
+          <Button variant="outline" size="sm" className="h-7" onClick={onRetry} disabled={disabled}>
+            <RotateCcw className="mr-1 h-3 w-3" /> Retry failed
+          </Button>
+        )}
+      </div>
+      <Progress value={(finished / chunks.length) * 100} className="h-2" />
+      <div className="flex flex-wrap gap-1">
+        {chunks.map((chunk, index) => (
+          <Badge
+            key={chunk.position}
+            variant={chunk.status === "failed" ? "destructive" : chunk.status === "done" ? "secondary" : "outline"}
+            title={`${chunk.blocks.length} block(s)`}
+          >
+            {chunk.status === "running" && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+            {index + 1}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ScreenshotText({ screenshot, onChange }: { screenshot: Screenshot; onChange: (value: string) => void }) {
+  const url = React.useMemo(() => URL.createObjectURL(screenshot.file), [screenshot.file]);
+  React.useEffect(() => () => URL.revokeObjectURL(url), [url]);
+
+  return (
+    <div className="flex gap-3">
+      <Image
+        src={url}
+        alt={screenshot.file.name}
+        width={96}
+        height={192}
+        unoptimized
+        className="h-48 w-24 shrink-0 rounded border object-contain"
+      />
+      <div className="flex flex-1 flex-col gap-1">
+        <div className="flex items-center gap-2">
+          <span className="truncate text-xs text-muted-foreground">{screenshot.file.name}</span>
+          <Badge variant={screenshot.confidence < LOW_CONFIDENCE ? "destructive" : "outline"}>
+            {screenshot.confidence}% confidence
+          </Badge>
+        </div>
+        <Textarea
+          dir="auto"
+          value={screenshot.text}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="No text was recognized. Type the question here."
+          className="flex-1 min-h-40 text-xs"
+        />
+      </div>
+    </div>
+  );
+}
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="mt-1 text-xs text-destructive">{message}</p>;
+}
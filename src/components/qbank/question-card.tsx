@@ -8,11 +8,15 @@ import { Button } from "@/components/ui/button";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { type Question } from "@/types";
 import {
-  Bookmark, BrainCircuit, CheckCircle2, CheckSquare, Circle, Copy, Edit,
-  MoreVertical, Sparkles, Trash2, Wand2, XCircle, Loader2
+  Bookmark, BrainCircuit, CheckCircle2, CheckSquare, Circle, Copy, Edit, History,
+  Languages, MoreVertical, Sparkles, Trash2, Wand2, XCircle, Loader2
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { handleDeleteQuestion, handleFindSimilarQuestions, handleCategorizeQuestion, handleUpdateQuestion } from "@/lib/actions";
+import { ToastAction } from "@/components/ui/toast";
+import {
+  handleDeleteQuestion, handleFindSimilarQuestions, handleCategorizeQuestion,
+  handleUpdateQuestion, handleRestoreQuestions
+} from "@/lib/actions";
 import { type FindSimilarQuestionsOutput } from "@/ai/flows/find-similar-questions";
 import { SimilarQuestionsDialog } from "./similar-questions-dialog";
 import { cn } from "@/lib/utils";
@@ -21,7 +25,10 @@ import {
   AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger
 } from "../ui/alert-dialog";
 import { EditQuestionDialog } from "./edit-question-dialog";
+import { QuestionHistoryDialog } from "./question-history-dialog";
 import { useLock } from "@/context/lock-context";
+import { alignedOptions } from "@/lib/translation-pairs";
+import { HighlightedText } from "./highlighted-text";
 import { type ExamMode } from "@/app/page";
 
 type QuestionCardProps = {
@@ -40,6 +47,8 @@ type QuestionCardProps = {
   examAnswerMode?: ExamMode;
   isExamFinished?: boolean;
   userAnswer: string | string[] | null;
+  /** Search terms to highlight in the stem and options. */
+  highlightTerms?: string[];
 };
 
 // 🔹 “NEW” badge window (days)
@@ -78,15 +87,30 @@ export default function QuestionCard({
   examAnswerMode = "during",
   isExamFinished = false,
   userAnswer,
+  highlightTerms,
 }: QuestionCardProps) {
   const { toast } = useToast();
-  const { isLocked } = useLock();
+  const { isLocked, editorName } = useLock();
   const [isSimilarDialogOpen, setIsSimilarDialogOpen] = React.useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = React.useState(false);
+  const [isHistoryDialogOpen, setIsHistoryDialogOpen] = React.useState(false);
   const [similarQuestions, setSimilarQuestions] = React.useState<FindSimilarQuestionsOutput>([]);
   const [isFindingSimilar, setIsFindingSimilar] = React.useState(false);
   const [isCategorizing, setIsCategorizing] = React.useState(false);
   const [isAnswered, setIsAnswered] = React.useState(false);
+  const [showTranslation, setShowTranslation] = React.useState(false);
+
+  const translation = React.useMemo(
+    () => (question.translationId ? allQuestions.find((q) => q.id === question.translationId) : undefined),
+    [question.translationId, allQuestions]
+  );
+  // Answers are still given on this question; the translation only changes the wording.
+  // Options keep this question's wording when the translation's cannot be lined up.
+  const shown = showTranslation && translation ? translation : question;
+  const optionLabels = React.useMemo(
+    () => (shown === question ? question.options : alignedOptions(question, shown) ?? question.options) ?? [],
+    [shown, question]
+  );
 
   const isSaved = savedQuestionIds.includes(question.id);
   const isNew = isRecent((question as any).createdAt); // 👈 last 10 days
@@ -146,9 +170,17 @@ export default function QuestionCard({
       return;
     }
     try {
-      const result = await handleDeleteQuestion(question.id);
+      const result = await handleDeleteQuestion(question.id, editorName);
       if (result.success) {
-        toast({ title: "Question Deleted", description: "The question has been removed from the database." });
+        toast({
+          title: "Question Deleted",
+          description: "The question was moved to the trash.",
+          action: (
+            <ToastAction altText="Undo delete" onClick={undoDelete}>
+              Undo
+            </ToastAction>
+          ),
+        });
         onDelete(question.id);
       } else {
         toast({ title: "Error", description: "Could not delete the question.", variant: "destructive" });
@@ -158,13 +190,35 @@ export default function QuestionCard({
     }
   };
 
+  const undoDelete = async () => {
+    try {
+      const result = await handleRestoreQuestions([question.id]);
+      if (result.success && result.restoredQuestions[0]) {
+        onUpdate(result.restoredQuestions[0]);
+        toast({ title: "Question Restored", description: "The question is back in the bank." });
+      } else {
+        toast({ title: "Error", description: "Could not restore the question.", variant: "destructive" });
+      }
+    } catch {
+      toast({ title: "Error", description: "Could not restore the question.", variant: "destructive" });
+    }
+  };
+
   const categorizeAndSaveQuestion = async () => {
     setIsCategorizing(true);
     try {
       const categorizedQuestionData = await handleCategorizeQuestion(question);
-      const result = await handleUpdateQuestion(categorizedQuestionData);
+      const result = await handleUpdateQuestion(
+        categorizedQuestionData,
+        { actor: editorName, action: "categorize" },
+        question.updatedAt
+      );
+      if (result.conflict) {
+        onUpdate(result.conflict);
+        throw new Error("Someone else saved this question in the meantime. Categorize it again.");
+      }
       if (result.success) {
-        onUpdate(categorizedQuestionData);
+        onUpdate(result.question ?? categorizedQuestionData);
         toast({
           title: "Categorized!",
           description: `Question assigned to: ${categorizedQuestionData.chapter}`,
@@ -256,7 +310,7 @@ export default function QuestionCard({
     return null;
   };
 
-  const cleanQuestionText = question.questionText.replace(
+  const cleanQuestionText = shown.questionText.replace(
     /^(question\s*\d*\s*[:.)-]?\s*)|(^\d+\s*[:.)-]?\s*)/i,
     ""
   );
@@ -266,12 +320,27 @@ export default function QuestionCard({
       <Card className="bg-card transition-colors duration-300 shadow-xl flex flex-col border-border">
         <CardHeader>
           <div className="flex justify-between items-start">
-            <CardTitle className="font-normal text-base leading-relaxed">
+            <CardTitle
+              className="font-normal text-base leading-relaxed"
+              dir={shown.language === "ar" ? "rtl" : undefined}
+            >
               {questionNumber && <span className="font-bold mr-2">{questionNumber}.</span>}
-              {cleanQuestionText}
+              <HighlightedText text={cleanQuestionText} terms={highlightTerms} />
               {isNew && <Badge className="ml-2 uppercase">New</Badge>}
             </CardTitle>
             <div className="flex items-center gap-2 pl-4">
+              {translation && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 px-2 text-xs"
+                  onClick={() => setShowTranslation((prev) => !prev)}
+                  title="Show the linked translation"
+                >
+                  <Languages className="mr-1 h-4 w-4" />
+                  {(showTranslation ? question : translation).language === "ar" ? "العربية" : "English"}
+                </Button>
+              )}
               {similarityScore && (
                 <Badge variant={similarityScore > 0.8 ? "default" : "secondary"}>
                   Similarity: {(similarityScore * 100).toFixed(0)}%
@@ -288,6 +357,9 @@ export default function QuestionCard({
                     <DropdownMenuItem onSelect={() => setIsEditDialogOpen(true)}>
                       <Edit className="mr-2 h-4 w-4" />Edit
                     </DropdownMenuItem>
+                    <DropdownMenuItem onSelect={() => setIsHistoryDialogOpen(true)}>
+                      <History className="mr-2 h-4 w-4" />History
+                    </DropdownMenuItem>
                     <DropdownMenuItem>
                       <Copy className="mr-2 h-4 w-4" />Duplicate
                     </DropdownMenuItem>
@@ -304,7 +376,7 @@ export default function QuestionCard({
                         <AlertDialogHeader>
                           <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
                           <AlertDialogDescription>
-                            This action cannot be undone. This will permanently delete the question from the database.
+                            This will move the question to the trash. You can restore it from the Trash page.
                           </AlertDialogDescription>
                         </AlertDialogHeader>
                         <AlertDialogFooter>
@@ -338,7 +410,9 @@ export default function QuestionCard({
                   )}
                   onClick={() => handleOptionClick(option)}
                 >
-                  <span className="text-card-foreground">{option}</span>
+                  <span className="text-card-foreground" dir={shown.language === "ar" ? "rtl" : undefined}>
+                    <HighlightedText text={optionLabels[index] ?? option} terms={highlightTerms} />
+                  </span>
                   <div className="flex items-center gap-2">{getOptionIcon(option)}</div>
                 </div>
               ))}
@@ -437,6 +511,15 @@ export default function QuestionCard({
         question={question}
         onQuestionUpdated={onUpdate}
       />
+
+      {!isLocked && (
+        <QuestionHistoryDialog
+          isOpen={isHistoryDialogOpen}
+          setIsOpen={setIsHistoryDialogOpen}
+          question={question}
+          onRestored={onUpdate}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,210 @@
+"use client";
+
+import * as React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { handleListRevisions, handleRestoreRevision } from "@/lib/actions";
+import { diffQuestions } from "@/lib/question-diff";
+import { useToast } from "@/hooks/use-toast";
+import { useLock } from "@/context/lock-context";
+import { cn } from "@/lib/utils";
+import { type Question, type QuestionRevision, type RevisionAction } from "@/types";
+import { History, Loader2, RotateCcw } from "lucide-react";
+
+const ACTION_LABELS: Record<RevisionAction, string> = {
+  edit: "Edited",
+  categorize: "AI categorized",
+  "batch-categorize": "Batch categorized",
+  restore: "Restored",
+  "chapter-change": "Chapter changed",
+  merge: "Merged duplicates",
+  "translation-link": "Translation linked",
+};
+
+type QuestionHistoryDialogProps = {
+  isOpen: boolean;
+  setIsOpen: (isOpen: boolean) => void;
+  question: Question;
+  onRestored: (question: Question) => void;
+};
+
+export function QuestionHistoryDialog({
+  isOpen,
+  setIsOpen,
+  question,
+  onRestored,
+}: QuestionHistoryDialogProps) {
+  const [revisions, setRevisions] = React.useState<QuestionRevision[]>([]);
+  const [selectedId, setSelectedId] = React.useState<string | null>(null);
+  const [compareWithCurrent, setCompareWithCurrent] = React.useState(false);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [isRestoring, setIsRestoring] = React.useState(false);
+  const { editorName } = useLock();
+  const { toast } = useToast();
+
+  React.useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setIsLoading(true);
+    handleListRevisions(question.id)
+      .then((list) => {
+        if (cancelled) return;
+        setRevisions(list);
+        setSelectedId(list[0]?.id ?? null);
+      })
+      .catch((error) => {
+        console.error("Error loading question history", error);
+        toast({ title: "Error", description: "Could not load the question history.", variant: "destructive" });
+      })
+      .finally(() => !cancelled && setIsLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, question.id, question.updatedAt, toast]);
+
+  const selectedIndex = revisions.findIndex((r) => r.id === selectedId);
+  const selected = selectedIndex >= 0 ? revisions[selectedIndex] : null;
+
+  // A revision holds the version *before* its change; the version after it is the
+  // next newer revision, or the current question for the latest one.
+  const changes = React.useMemo(() => {
+    if (!selected) return [];
+    const after =
+      compareWithCurrent || selectedIndex === 0 ? question : revisions[selectedIndex - 1].snapshot;
+    return diffQuestions(selected.snapshot, after);
+  }, [selected, selectedIndex, revisions, question, compareWithCurrent]);
+
+  const restore = async () => {
+    if (!selected) return;
+    setIsRestoring(true);
+    try {
+      const result = await handleRestoreRevision(question.id, selected.id, editorName, question.updatedAt);
+      if (result.success && result.question) {
+        toast({ title: "Revision Restored", description: "The question was restored to the selected version." });
+        onRestored(result.question);
+        setIsOpen(false);
+      } else if (result.conflict) {
+        // Showing the newer version reloads the history, so the user can pick again.
+        onRestored(result.conflict);
+        toast({
+          title: "Question Changed",
+          description: "Someone else saved this question in the meantime. Check the history and restore again.",
+          variant: "destructive",
+        });
+      } else {
+        const details = result.errors ? Object.values(result.errors).filter(Boolean).join(" ") : "";
+        toast({
+          title: "Restore Failed",
+          description: details || "Could not restore this revision.",
+          variant: "destructive",
+        });
+      }
+    } catch {
+      toast({ title: "Restore Failed", description: "Could not restore this revision.", variant: "destructive" });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogContent className="max-w-4xl h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="font-headline text-2xl flex items-center gap-2">
+            <History className="text-primary" />
+            Question History
+          </DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Every saved change keeps a copy of the previous version. Pick a change to see what it did.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex flex-1 items-center justify-center">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <div className="flex flex-1 items-center justify-center text-muted-foreground">
+            <p>This question has not been changed since it was added.</p>
+          </div>
+        ) : (
+          <div className="flex-1 grid grid-cols-1 md:grid-cols-[240px_1fr] gap-4 overflow-hidden">
+            <ScrollArea className="border border-border rounded-md">
+              <div className="p-2 space-y-1">
+                {revisions.map((revision) => (
+                  <button
+                    key={revision.id}
+                    type="button"
+                    onClick={() => setSelectedId(revision.id)}
+                    className={cn(
+                      "w-full rounded-md border p-2 text-left text-sm transition-colors",
+                      revision.id === selectedId ? "border-primary bg-accent" : "border-transparent hover:bg-accent"
+                    )}
+                  >
+                    <div className="font-semibold">{ACTION_LABELS[revision.action] ?? revision.action}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {new Date(revision.createdAt).toLocaleString()} · {revision.actor}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="flex flex-col gap-3 overflow-hidden">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="compare-current"
+                    checked={compareWithCurrent}
+                    onCheckedChange={setCompareWithCurrent}
+                  />
+                  <Label htmlFor="compare-current">Compare with current version</Label>
+                </div>
+                <Button size="sm" onClick={restore} disabled={!selected || isRestoring}>
+                  {isRestoring ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                  )}
+                  Restore this version
+                </Button>
+              </div>
+
+              <ScrollArea className="flex-1 border border-border rounded-md">
+                <div className="p-3 space-y-3">
+                  {changes.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No field differences.</p>
+                  ) : (
+                    changes.map((change) => (
+                      <div key={change.field} className="space-y-1">
+                        <Badge variant="secondary">{change.label}</Badge>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm">
+                          <p className="whitespace-pre-wrap rounded-md border border-red-500/40 bg-red-500/10 p-2">
+                            {change.before || <span className="italic text-muted-foreground">(empty)</span>}
+                          </p>
+                          <p className="whitespace-pre-wrap rounded-md border border-green-500/40 bg-green-500/10 p-2">
+                            {change.after || <span className="italic text-muted-foreground">(empty)</span>}
+                          </p>
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </ScrollArea>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -20,6 +20,8 @@ type QuestionListProps = {
   isExamFinished?: boolean;
   userAnswers: Record<string, string | string[]>;
   onSubmitExam: () => void;
+  /** Matched search terms by question ID. */
+  highlightTerms?: Map<string, string[]>;
 };
 
 export default function QuestionList({ 
@@ -37,6 +39,7 @@ export default function QuestionList({
     isExamFinished,
     userAnswers,
     onSubmitExam,
+    highlightTerms,
 }: QuestionListProps) {
   return (
     <div className="p-4 space-y-4 max-w-screen-lg mx-auto w-full">
@@ -58,6 +61,7 @@ export default function QuestionList({
             examAnswerMode={examAnswerMode}
             isExamFinished={isExamFinished}
             userAnswer={userAnswers[question.id] || null}
+            highlightTerms={highlightTerms?.get(question.id)}
         />
         ))
     ) : (
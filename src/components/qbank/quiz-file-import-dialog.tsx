@@ -0,0 +1,210 @@
+"use client";
+
+import * as React from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { handleSaveQuestions } from "@/lib/actions";
+import { useToast } from "@/hooks/use-toast";
+import { useTaxonomy } from "@/hooks/use-taxonomy";
+import { FileUp, Loader2 } from "lucide-react";
+import { type Question, type QuestionFieldErrors, validateQuestionDraft } from "@/types";
+import { subjectOfChapter } from "@/lib/taxonomy";
+import { QUESTION_FILE_FORMATS, detectQuestionFileFormat, type ImportResult, type ImportedQuestion } from "@/lib/formats";
+import { parseQtiPackage } from "@/lib/formats/qti";
+import { attachImportedImages } from "@/lib/import-images";
+import { readEditorName } from "@/context/lock-context";
+import { ImportPreviewTable } from "./import-preview-table";
+
+type QuizFileImportDialogProps = {
+  isOpen: boolean;
+  setIsOpen: (isOpen: boolean) => void;
+  onQuestionsAdded: (newQuestions: Question[]) => void;
+};
+
+const QTI_LABEL = "QTI package";
+const ACCEPTED_EXTENSIONS = [...new Set(QUESTION_FILE_FORMATS.flatMap((f) => f.extensions)), ".zip"].join(",");
+const FORMAT_NAMES = [...QUESTION_FILE_FORMATS.map((f) => f.label), QTI_LABEL].join(", ");
+
+export function QuizFileImportDialog({ isOpen, setIsOpen, onQuestionsAdded }: QuizFileImportDialogProps) {
+  const [fileName, setFileName] = React.useState("");
+  const [formatLabel, setFormatLabel] = React.useState("");
+  const [drafts, setDrafts] = React.useState<ImportedQuestion[]>([]);
+  const [warnings, setWarnings] = React.useState<string[]>([]);
+  // Only QTI packages carry images; aligned with `drafts`.
+  const [images, setImages] = React.useState<(File | undefined)[]>([]);
+  const [serverErrors, setServerErrors] = React.useState<(QuestionFieldErrors | undefined)[]>([]);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const taxonomy = useTaxonomy();
+  const { toast } = useToast();
+
+  const rowErrors = React.useMemo(
+    () =>
+      drafts.map((draft, index) => {
+        const result = validateQuestionDraft(draft);
+        return result.success ? serverErrors[index] : result.errors;
+      }),
+    [drafts, serverErrors]
+  );
+  const invalidCount = rowErrors.filter((e) => e && Object.values(e).some(Boolean)).length;
+
+  const reset = () => {
+    setFileName("");
+    setFormatLabel("");
+    setDrafts([]);
+    setWarnings([]);
+    setImages([]);
+    setServerErrors([]);
+  };
+
+  const onOpenChange = (open: boolean) => {
+    if (!open) reset();
+    setIsOpen(open);
+  };
+
+  // Files carry a chapter but no subject; the taxonomy supplies it when it knows the chapter.
+  const showResult = (name: string, label: string, result: ImportResult) => {
+    setFileName(name);
+    setFormatLabel(label);
+    setWarnings(result.warnings);
+    setDrafts(
+      result.questions.map((q) => ({
+        ...q,
+        subject: q.subject || subjectOfChapter(taxonomy, q.chapter)?.name || ""
+      }))
+    );
+  };
+
+  const onFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    reset();
+
+    if (file.name.toLowerCase().endsWith(".zip")) {
+      try {
+        const result = await parseQtiPackage(await file.arrayBuffer());
+        showResult(file.name, QTI_LABEL, result);
+        setImages(result.images);
+      } catch (error) {
+        console.error("Error reading QTI package:", error);
+        toast({ title: "Unreadable File", description: "Could not read that zip file.", variant: "destructive" });
+      }
+      return;
+    }
+
+    const text = await file.text();
+    const format = detectQuestionFileFormat(file.name, text);
+    if (!format) {
+      toast({
+        title: "Unsupported File",
+        description: `Expected ${FORMAT_NAMES}.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      showResult(file.name, format.label, format.parse(text));
+    } catch (error) {
+      console.error("Error reading quiz file:", error);
+      toast({ title: "Unreadable File", description: `Could not read that ${format.label} file.`, variant: "destructive" });
+    }
+  };
+
+  const handleFieldChange = (index: number, field: string, value: string) => {
+    setDrafts((prev) => prev.map((d, i) => (i === index ? { ...d, [field]: value } : d)));
+    setServerErrors((prev) => {
+      if (!prev[index]) return prev;
+      const next = [...prev];
+      next[index] = { ...prev[index], [field]: undefined };
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await handleSaveQuestions(drafts);
+      if (result.success) {
+        const { questions, failed } = await attachImportedImages(result.savedQuestions, images, readEditorName());
+        toast({
+          title: "Success!",
+          description:
+            `${questions.length} questions were imported from ${fileName}.` +
+            (failed > 0 ? ` ${failed} image(s) could not be uploaded.` : "")
+        });
+        onQuestionsAdded(questions);
+        onOpenChange(false);
+      } else if (result.errors) {
+        setServerErrors(result.errors);
+        toast({
+          title: "Some questions need fixing",
+          description: `${result.errors.filter(Boolean).length} question(s) failed validation.`,
+          variant: "destructive"
+        });
+      } else {
+        toast({ title: "Error saving questions", description: "There was a problem saving your questions.", variant: "destructive" });
+      }
+    } catch (error) {
+      console.error("Error saving imported questions", error);
+      toast({ title: "Error saving questions", description: "There was a problem saving your questions.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="font-headline text-2xl flex items-center gap-2">
+            <FileUp className="text-primary" />
+            Import Quiz File
+          </DialogTitle>
+          <DialogDescription>
+            Import multiple choice, multiple answer and true/false questions from a {FORMAT_NAMES} file.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input type="file" accept={ACCEPTED_EXTENSIONS} onChange={onFileChange} className="max-w-sm" />
+
+        {warnings.length > 0 && (
+          <ScrollArea className="max-h-28 rounded-md border border-amber-500/40 p-2">
+            <div className="space-y-1 text-xs text-amber-600 dark:text-amber-400">
+              {warnings.map((warning, i) => (
+                <p key={i}>{warning}</p>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <div className="flex-1 flex flex-col gap-2 overflow-hidden">
+          <Label>
+            {fileName ? `${drafts.length} question(s) from ${fileName} (${formatLabel})` : "Preview"}
+            {invalidCount > 0 && <span className="text-destructive"> · {invalidCount} need fixing</span>}
+          </Label>
+          <ScrollArea className="flex-1 border border-border rounded-md">
+            <ImportPreviewTable
+              questions={drafts}
+              rowErrors={rowErrors}
+              onFieldChange={handleFieldChange}
+              emptyMessage={fileName ? "No questions could be imported from this file." : "Choose a file to preview its questions."}
+            />
+          </ScrollArea>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={drafts.length === 0 || invalidCount > 0 || isSaving}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+            Import {drafts.length} Question(s)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
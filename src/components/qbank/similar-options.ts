@@ -1,4 +1,6 @@
 // src/components/qbank/similar-options.ts
+import { normalizeText } from "@/lib/normalize-text";
+
 export type SimilarOptionsMode = "off" | "group";
 
 export type SimilarOptionsMeta = {
@@ -18,14 +20,6 @@ const DEFAULTS: Config = {
   minLen: 6,
 };
 
-export function normalizeText(s: string): string {
-  return (s ?? "")
-    .toLowerCase()
-    .trim()
-    .replace(/[^\p{L}\p{N}\s]/gu, " ")
-    .replace(/\s+/g, " ");
-}
-
 function bigrams(s: string): string[] {
   const t = normalizeText(s);
   if (t.length < 2) return [];
@@ -0,0 +1,245 @@
+"use client";
+
+import * as React from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { handleSaveQuestions } from "@/lib/actions";
+import { useToast } from "@/hooks/use-toast";
+import { useTaxonomy } from "@/hooks/use-taxonomy";
+import { FileSpreadsheet, Loader2 } from "lucide-react";
+import { type Question, type QuestionFieldErrors, validateQuestionDraft } from "@/types";
+import { subjectOfChapter } from "@/lib/taxonomy";
+import {
+  COLUMN_FIELDS,
+  guessColumnMapping,
+  readSpreadsheet,
+  rowsToDrafts,
+  type ColumnField,
+  type ColumnMapping,
+  type SpreadsheetData
+} from "@/lib/spreadsheet-import";
+import { type ImportedQuestion } from "@/lib/formats/types";
+import { ImportPreviewTable } from "./import-preview-table";
+
+type SpreadsheetImportDialogProps = {
+  isOpen: boolean;
+  setIsOpen: (isOpen: boolean) => void;
+  onQuestionsAdded: (newQuestions: Question[]) => void;
+};
+
+const NOT_MAPPED = "none";
+
+export function SpreadsheetImportDialog({ isOpen, setIsOpen, onQuestionsAdded }: SpreadsheetImportDialogProps) {
+  const [file, setFile] = React.useState<{ name: string; data: ArrayBuffer } | null>(null);
+  const [hasHeaderRow, setHasHeaderRow] = React.useState(true);
+  const [sheet, setSheet] = React.useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = React.useState<ColumnMapping | null>(null);
+  const [drafts, setDrafts] = React.useState<ImportedQuestion[]>([]);
+  const [serverErrors, setServerErrors] = React.useState<(QuestionFieldErrors | undefined)[]>([]);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const taxonomy = useTaxonomy();
+  const { toast } = useToast();
+
+  React.useEffect(() => {
+    if (!file) return;
+    try {
+      const data = readSpreadsheet(file.data, file.name, hasHeaderRow);
+      setSheet(data);
+      setMapping(guessColumnMapping(data.headers));
+    } catch (error) {
+      console.error("Error reading spreadsheet:", error);
+      setSheet(null);
+      setMapping(null);
+      toast({
+        title: "Unreadable File",
+        description: "Could not read that file as a CSV or Excel spreadsheet.",
+        variant: "destructive"
+      });
+    }
+  }, [file, hasHeaderRow, toast]);
+
+  // Remapping a column rebuilds every row, discarding edits made in the preview.
+  React.useEffect(() => {
+    if (!sheet || !mapping) {
+      setDrafts([]);
+      return;
+    }
+    setDrafts(
+      rowsToDrafts(sheet.rows, mapping, {
+        subjectOf: (chapter) => subjectOfChapter(taxonomy, chapter)?.name,
+        source: file?.name
+      })
+    );
+    setServerErrors([]);
+  }, [sheet, mapping, taxonomy, file?.name]);
+
+  const rowErrors = React.useMemo(
+    () =>
+      drafts.map((draft, index) => {
+        const result = validateQuestionDraft(draft);
+        return result.success ? serverErrors[index] : result.errors;
+      }),
+    [drafts, serverErrors]
+  );
+  const invalidCount = rowErrors.filter((e) => e && Object.values(e).some(Boolean)).length;
+
+  const reset = () => {
+    setFile(null);
+    setSheet(null);
+    setMapping(null);
+    setDrafts([]);
+    setServerErrors([]);
+  };
+
+  const onOpenChange = (open: boolean) => {
+    if (!open) reset();
+    setIsOpen(open);
+  };
+
+  const onFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    setFile({ name: selected.name, data: await selected.arrayBuffer() });
+  };
+
+  const setColumn = (field: ColumnField, value: string) =>
+    setMapping((prev) => (prev ? { ...prev, [field]: value === NOT_MAPPED ? null : Number(value) } : prev));
+
+  const handleFieldChange = (index: number, field: string, value: string) => {
+    setDrafts((prev) => prev.map((d, i) => (i === index ? { ...d, [field]: value } : d)));
+    setServerErrors((prev) => {
+      if (!prev[index]) return prev;
+      const next = [...prev];
+      next[index] = { ...prev[index], [field]: undefined };
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await handleSaveQuestions(drafts);
+      if (result.success) {
+        toast({
+          title: "Success!",
+          description: `${result.savedQuestions.length} questions were imported from ${file?.name}.`
+        });
+        onQuestionsAdded(result.savedQuestions);
+        onOpenChange(false);
+      } else if (result.errors) {
+        setServerErrors(result.errors);
+        toast({
+          title: "Some questions need fixing",
+          description: `${result.errors.filter(Boolean).length} question(s) failed validation.`,
+          variant: "destructive"
+        });
+      } else {
+        toast({ title: "Error saving questions", description: "There was a problem saving your questions.", variant: "destructive" });
+      }
+    } catch (error) {
+      console.error("Error saving imported questions", error);
+      toast({ title: "Error saving questions", description: "There was a problem saving your questions.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const missingRequired = mapping ? COLUMN_FIELDS.filter((f) => f.required && mapping[f.field] === null) : [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="font-headline text-2xl flex items-center gap-2">
+            <FileSpreadsheet className="text-primary" />
+            Import Spreadsheet
+          </DialogTitle>
+          <DialogDescription>
+            Import questions from a CSV or Excel file with one question per row. Match each field to a column, then
+            review the rows before saving.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <Input type="file" accept=".csv,.xlsx,.xls" onChange={onFileChange} className="max-w-sm" />
+          <div className="flex items-center space-x-2">
+            <Checkbox id="header-row" checked={hasHeaderRow} onCheckedChange={(c) => setHasHeaderRow(c === true)} />
+            <Label htmlFor="header-row" className="font-normal">
+              First row holds column names
+            </Label>
+          </div>
+        </div>
+
+        {sheet && mapping && (
+          <div className="flex-1 grid grid-cols-1 md:grid-cols-[260px_1fr] gap-4 overflow-hidden">
+            <ScrollArea className="border border-border rounded-md p-3">
+              <div className="space-y-3">
+                {COLUMN_FIELDS.map(({ field, label, required }) => (
+                  <div key={field} className="space-y-1">
+                    <Label>
+                      {label}
+                      {required && <span className="text-destructive"> *</span>}
+                    </Label>
+                    <Select
+                      value={mapping[field] === null ? NOT_MAPPED : String(mapping[field])}
+                      onValueChange={(value) => setColumn(field, value)}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_MAPPED}>Not imported</SelectItem>
+                        {sheet.headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {header}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="flex flex-col gap-2 overflow-hidden">
+              <Label>
+                {drafts.length} question(s) from {sheet.rows.length} row(s)
+                {invalidCount > 0 && <span className="text-destructive"> · {invalidCount} need fixing</span>}
+              </Label>
+              <ScrollArea className="flex-1 border border-border rounded-md">
+                <ImportPreviewTable
+                  questions={drafts}
+                  rowErrors={rowErrors}
+                  onFieldChange={handleFieldChange}
+                  emptyMessage={
+                    missingRequired.length > 0
+                      ? `Choose a column for: ${missingRequired.map((f) => f.label).join(", ")}.`
+                      : "No rows with question text."
+                  }
+                />
+              </ScrollArea>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="mt-auto">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={drafts.length === 0 || invalidCount > 0 || missingRequired.length > 0 || isSaving}
+          >
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+            Import {drafts.length} Question(s)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -27,15 +27,21 @@ type UnlockDialogProps = {
 export function UnlockDialog({ isOpen, setIsOpen }: UnlockDialogProps) {
   const [code, setCode] = React.useState("");
   const [isUnlocking, setIsUnlocking] = React.useState(false);
-  const { isLocked, unlock, lock } = useLock();
+  const { isLocked, unlock, lock, editorName, setEditorName } = useLock();
+  const [name, setName] = React.useState(editorName);
   const { toast } = useToast();
 
+  React.useEffect(() => {
+    if (isOpen) setName(editorName);
+  }, [isOpen, editorName]);
+
   const handleUnlock = () => {
     setIsUnlocking(true);
     // Simulate network delay
     setTimeout(() => {
         if (code === UNLOCK_CODE) {
             unlock();
+            setEditorName(name);
             toast({
                 title: "System Unlocked",
                 description: "Administrative controls are now available.",
@@ -95,6 +101,14 @@ export function UnlockDialog({ isOpen, setIsOpen }: UnlockDialogProps) {
                     onKeyDown={handleKeyPress}
                     placeholder="Enter code..."
                 />
+                <Label htmlFor="editor-name">Your Name</Label>
+                <Input
+                    id="editor-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onKeyDown={handleKeyPress}
+                    placeholder="Shown in question history"
+                />
              </div>
         ) : (
             <div className="py-4 text-center">
@@ -1,4 +1,3 @@
-
 "use client";
 
 import * as React from "react";
@@ -7,14 +6,29 @@ type LockContextType = {
   isLocked: boolean;
   lock: () => void;
   unlock: () => void;
+  editorName: string;
+  setEditorName: (name: string) => void;
 };
 
 const LockContext = React.createContext<LockContextType | undefined>(undefined);
 
 const LOCK_STATE_KEY = "alsalam_qgenius_lock_state";
+const EDITOR_NAME_KEY = "alsalam_qgenius_editor_name";
+
+export const DEFAULT_EDITOR_NAME = "admin";
+
+// Pages outside the LockProvider (e.g. /categorize) read the name directly.
+export function readEditorName(): string {
+  try {
+    return localStorage.getItem(EDITOR_NAME_KEY) || DEFAULT_EDITOR_NAME;
+  } catch {
+    return DEFAULT_EDITOR_NAME;
+  }
+}
 
 export function LockProvider({ children }: { children: React.ReactNode }) {
   const [isLocked, setIsLocked] = React.useState(true);
+  const [editorName, setEditorNameState] = React.useState(DEFAULT_EDITOR_NAME);
 
   React.useEffect(() => {
     // On initial load, check sessionStorage for the lock state
@@ -26,6 +40,7 @@ export function LockProvider({ children }: { children: React.ReactNode }) {
     } catch (error) {
       console.error("Could not read lock state from sessionStorage", error);
     }
+    setEditorNameState(readEditorName());
   }, []);
 
   const updateLockState = (locked: boolean) => {
@@ -42,7 +57,18 @@ export function LockProvider({ children }: { children: React.ReactNode }) {
   const lock = () => updateLockState(true);
   const unlock = () => updateLockState(false);
 
-  const value = { isLocked, lock, unlock };
+  // The name is remembered across sessions so revision history shows who made each change.
+  const setEditorName = (name: string) => {
+    const trimmed = name.trim() || DEFAULT_EDITOR_NAME;
+    try {
+      localStorage.setItem(EDITOR_NAME_KEY, trimmed);
+    } catch (error) {
+      console.error("Could not save editor name to localStorage", error);
+    }
+    setEditorNameState(trimmed);
+  };
+
+  const value = { isLocked, lock, unlock, editorName, setEditorName };
 
   return <LockContext.Provider value={value}>{children}</LockContext.Provider>;
 }
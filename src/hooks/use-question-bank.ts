@@ -0,0 +1,165 @@
+"use client"
+
+import * as React from "react"
+
+import { type Question } from "@/types"
+import { handleSyncQuestions } from "@/lib/actions"
+import { readCachedBank, writeCachedBank } from "@/lib/question-cache"
+import { subscribeToQuestionChanges } from "@/lib/repository/firestore"
+
+// Only Firestore can push changes; the local backend is brought up to date on each sync.
+const LIVE_UPDATES = process.env.NEXT_PUBLIC_QUESTION_BACKEND !== "local"
+// Same reach-back as the server's delta sync, for writes that landed around the cutoff.
+const LIVE_OVERLAP_MS = 2 * 60 * 1000
+
+type QuestionBankState = {
+  questions: Question[]
+  /** True until the first cached or fetched copy of the bank is available. */
+  isLoading: boolean
+  isSyncing: boolean
+  error: unknown
+}
+
+// Shared by every page, like the toast store, so Home, /categorize and /duplicates
+// all see the same copy and a route change does not refetch the bank.
+const listeners: Array<(state: QuestionBankState) => void> = []
+
+let memoryState: QuestionBankState = {
+  questions: [],
+  isLoading: true,
+  isSyncing: false,
+  error: null,
+}
+
+let hydrated = false
+let lastSyncedAt: string | null = null
+let inFlightSync: Promise<Question[]> | null = null
+let unsubscribeLive: (() => void) | null = null
+
+function setState(patch: Partial<QuestionBankState>) {
+  memoryState = { ...memoryState, ...patch }
+  listeners.forEach((listener) => listener(memoryState))
+}
+
+const byCreatedAtDesc = (a: Question, b: Question) =>
+  (b.createdAt ?? "").localeCompare(a.createdAt ?? "")
+
+function mergeQuestions(current: Question[], put: Question[], remove: string[]) {
+  const byId = new Map(current.map((q) => [q.id, q]))
+  remove.forEach((id) => byId.delete(id))
+  put.forEach((q) => byId.set(q.id, q))
+  return Array.from(byId.values()).sort(byCreatedAtDesc)
+}
+
+// Trashed questions come back as changes; they leave the bank like purged ones.
+function applyChanges(changed: Question[], purgedIds: string[], syncedAt?: string) {
+  const live = changed.filter((q) => !q.deletedAt)
+  const removed = [...purgedIds, ...changed.filter((q) => q.deletedAt).map((q) => q.id)]
+  setState({ questions: mergeQuestions(memoryState.questions, live, removed) })
+  return writeCachedBank({ put: live, remove: removed, syncedAt })
+}
+
+function startLiveUpdates() {
+  if (!LIVE_UPDATES || unsubscribeLive || !lastSyncedAt || listeners.length === 0) return
+  const since = new Date(Date.parse(lastSyncedAt) - LIVE_OVERLAP_MS).toISOString()
+  unsubscribeLive = subscribeToQuestionChanges(
+    since,
+    ({ changed, purgedIds }) => void applyChanges(changed, purgedIds),
+    (error) => {
+      console.error("Live question updates stopped: ", error)
+      unsubscribeLive = null
+    }
+  )
+}
+
+function stopLiveUpdates() {
+  unsubscribeLive?.()
+  unsubscribeLive = null
+}
+
+async function runSync(): Promise<Question[]> {
+  setState({ isSyncing: true })
+  try {
+    if (!hydrated) {
+      const cached = await readCachedBank()
+      hydrated = true
+      if (cached.syncedAt) {
+        lastSyncedAt = cached.syncedAt
+        setState({ questions: cached.questions.sort(byCreatedAtDesc), isLoading: false })
+      }
+    }
+
+    const result = await handleSyncQuestions(lastSyncedAt)
+
+    if (result.full) {
+      setState({ questions: [...result.questions].sort(byCreatedAtDesc) })
+      await writeCachedBank({ replace: true, put: result.questions, syncedAt: result.syncedAt })
+    } else {
+      await applyChanges(result.questions, result.purgedIds, result.syncedAt)
+    }
+    lastSyncedAt = result.syncedAt
+    setState({ error: null })
+    startLiveUpdates()
+  } catch (error) {
+    console.error("Error syncing the question bank: ", error)
+    setState({ error })
+  } finally {
+    setState({ isLoading: false, isSyncing: false })
+  }
+  return memoryState.questions
+}
+
+/**
+ * Pulls what changed since the last sync and resolves with the updated bank.
+ * Concurrent calls share one request.
+ */
+export function syncQuestionBank(): Promise<Question[]> {
+  if (!inFlightSync) {
+    inFlightSync = runSync().finally(() => {
+      inFlightSync = null
+    })
+  }
+  return inFlightSync
+}
+
+/** Applies local writes (saves, edits, restores) without waiting for the next sync. */
+export function upsertQuestions(questions: Question[]) {
+  void applyChanges(questions, [])
+}
+
+export function removeQuestions(ids: string[]) {
+  setState({ questions: mergeQuestions(memoryState.questions, [], ids) })
+  void writeCachedBank({ remove: ids })
+}
+
+/** The bank as currently loaded, for code that needs it once rather than live. */
+export function getQuestionBankSnapshot(): Question[] {
+  return memoryState.questions
+}
+
+/**
+ * The question bank, served from the IndexedDB cache and brought up to date with a
+ * delta sync on mount, then kept live while any page using it is mounted. Trashed
+ * questions are never included.
+ */
+export function useQuestionBank() {
+  const [state, setLocalState] = React.useState<QuestionBankState>(memoryState)
+
+  React.useEffect(() => {
+    listeners.push(setLocalState)
+    setLocalState(memoryState)
+    syncQuestionBank()
+    return () => {
+      const index = listeners.indexOf(setLocalState)
+      if (index > -1) listeners.splice(index, 1)
+      if (listeners.length === 0) stopLiveUpdates()
+    }
+  }, [])
+
+  return {
+    ...state,
+    refresh: syncQuestionBank,
+    upsertQuestions,
+    removeQuestions,
+  }
+}
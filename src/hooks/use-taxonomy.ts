@@ -0,0 +1,49 @@
+"use client"
+
+import * as React from "react"
+
+import { type Taxonomy } from "@/types"
+import { handleGetTaxonomy } from "@/lib/actions"
+import { DEFAULT_TAXONOMY } from "@/lib/taxonomy"
+
+const listeners: Array<(taxonomy: Taxonomy) => void> = []
+
+// Rendered with the default until the saved taxonomy arrives, so sorting and the
+// chapter filter work on first paint.
+let memoryTaxonomy: Taxonomy = DEFAULT_TAXONOMY
+let loading: Promise<void> | null = null
+
+/** Shares a taxonomy that was just saved with every mounted consumer. */
+export function setTaxonomy(taxonomy: Taxonomy) {
+  memoryTaxonomy = taxonomy
+  listeners.forEach((listener) => listener(memoryTaxonomy))
+}
+
+function loadTaxonomy() {
+  if (!loading) {
+    loading = handleGetTaxonomy()
+      .then(setTaxonomy)
+      .catch((error) => {
+        console.error("Error loading the taxonomy: ", error)
+        loading = null
+      })
+  }
+  return loading
+}
+
+/** Subjects and their ordered chapters, as configured on the taxonomy page. */
+export function useTaxonomy() {
+  const [taxonomy, setLocalTaxonomy] = React.useState<Taxonomy>(memoryTaxonomy)
+
+  React.useEffect(() => {
+    listeners.push(setLocalTaxonomy)
+    setLocalTaxonomy(memoryTaxonomy)
+    loadTaxonomy()
+    return () => {
+      const index = listeners.indexOf(setLocalTaxonomy)
+      if (index > -1) listeners.splice(index, 1)
+    }
+  }, [])
+
+  return taxonomy
+}
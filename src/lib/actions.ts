@@ -19,26 +19,96 @@ import {
   type FindSimilarQuestionsOutput,
 } from '@/ai/flows/find-similar-questions';
 
-import {
-    findDuplicateQuestions,
-    type FindDuplicateQuestionsInput,
-    type FindDuplicateQuestionsOutput,
-} from '@/ai/flows/find-duplicate-questions';
-
 import {
   categorizeQuestion,
 } from '@/ai/flows/categorize-question';
 
+import {
+  matchTranslation,
+  type MatchTranslationInput,
+  type MatchTranslationOutput,
+} from '@/ai/flows/match-translation';
 
-import { db } from '@/lib/firebase';
-import { collection, doc, writeBatch, deleteDoc, updateDoc } from 'firebase/firestore';
-import { getStorage, ref, uploadString, getDownloadURL, deleteObject } from "firebase/storage";
-import { type Question } from '@/types';
+
+import {
+  getQuestionRepository,
+  getTaxonomyStore,
+  QuestionConflictError,
+  type QuestionQuery,
+} from '@/lib/repository';
+import { randomUUID } from 'crypto';
+import {
+  chapterNames,
+  findSubject,
+  insertChapterAfter,
+  removeChapterFromTaxonomy,
+  renameChapterInTaxonomy,
+  subjectOfChapter,
+} from '@/lib/taxonomy';
+import {
+  deleteImageByUrl,
+  deleteImagesByPath,
+  deleteQuestionImages,
+  findOrphanedImages,
+  imageExists,
+  imagePathFromUrl,
+  readImageByUrl,
+  uploadQuestionImage,
+  type OrphanedImage,
+} from '@/lib/question-images';
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  parseBackupArchive,
+  planRestore,
+  readArchiveQuestions,
+  summarizeRestore,
+  type BackupArchive,
+  type BackupImage,
+  type RestoreOptions,
+  type RestorePreview,
+} from '@/lib/backup';
+import { mapWithConcurrency, PARSE_CONCURRENCY, type ChunkParseResult } from '@/lib/parse-chunks';
+import {
+  type Question,
+  type QuestionDraft,
+  type QuestionFieldErrors,
+  type QuestionRevision,
+  type RevisionMeta,
+  type Taxonomy,
+  TaxonomySchema,
+  validateQuestion,
+  validateQuestionDraft,
+} from '@/types';
 
 export async function handleParseQuestions(
   input: ParseQuestionsInput
 ): Promise<ParseQuestionsOutput> {
-  return await parseQuestionsFromText(input);
+  const taxonomy = await getTaxonomyStore().get();
+  return await parseQuestionsFromText({
+    ...input,
+    subjects: input.subjects ?? taxonomy.subjects.map((s) => ({ name: s.name, chapters: chapterNames(s) })),
+  });
+}
+
+/**
+ * Parses several chunks of question text in parallel, each in its own prompt. A chunk
+ * that fails does not fail the others, so the caller can retry just that one. Server
+ * actions from one page run one at a time, which is why the chunks come in one call.
+ */
+export async function handleParseQuestionChunks(
+  chunks: string[]
+): Promise<ChunkParseResult<ParseQuestionsOutput[number]>[]> {
+  const taxonomy = await getTaxonomyStore().get();
+  const subjects = taxonomy.subjects.map((s) => ({ name: s.name, chapters: chapterNames(s) }));
+  return mapWithConcurrency(chunks, PARSE_CONCURRENCY, async (text) => {
+    try {
+      return { success: true as const, questions: await parseQuestionsFromText({ text, subjects }) };
+    } catch (error) {
+      console.error('Error parsing question chunk', error);
+      return { success: false as const, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
 }
 
 export async function handleExplainQuestion(
@@ -53,33 +123,59 @@ export async function handleFindSimilarQuestions(
   return await findSimilarQuestions(input);
 }
 
-export async function handleFindDuplicateQuestions(
-    input: FindDuplicateQuestionsInput
-): Promise<FindDuplicateQuestionsOutput> {
-    return await findDuplicateQuestions(input);
+/**
+ * Asks the AI which candidate, if any, translates each question. Like the chunk parser,
+ * a failed item does not fail the others.
+ */
+export async function handleMatchTranslations(
+  items: MatchTranslationInput[]
+): Promise<({ success: true; match: MatchTranslationOutput } | { success: false; error: string })[]> {
+  return mapWithConcurrency(items, PARSE_CONCURRENCY, async (input) => {
+    try {
+      return { success: true as const, match: await matchTranslation(input) };
+    } catch (error) {
+      console.error(`Error matching a translation for question ${input.question.id}`, error);
+      return { success: false as const, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
 }
 
-export async function handleCategorizeQuestion(
-  question: Question
-): Promise<Question> {
-  if (!question) {
-    throw new Error("No question provided to categorize.");
-  }
-  
+type CategorizeTarget = Pick<Question, 'questionText' | 'options' | 'correctAnswer' | 'subject'>;
+
+// Questions are categorized within their own subject; unknown subjects use the first one.
+async function pickChapter(
+  question: CategorizeTarget,
+  taxonomy: Taxonomy
+): Promise<{ subject: string; chapter: string }> {
+  const subject = findSubject(taxonomy, question.subject);
+  const chapters = chapterNames(subject);
   const result = await categorizeQuestion({
     questionText: question.questionText,
     options: question.options,
     correctAnswer: question.correctAnswer,
+    subject: subject.name,
+    chapters,
   });
 
   if (!result || !result.chapter) {
     throw new Error("AI failed to determine a chapter.");
   }
+  if (!chapters.includes(result.chapter)) {
+    throw new Error(`AI picked a chapter that is not in "${subject.name}": ${result.chapter}`);
+  }
+  return { subject: subject.name, chapter: result.chapter };
+}
+
+export async function handleCategorizeQuestion(
+  question: Question
+): Promise<Question> {
+  if (!question) {
+    throw new Error("No question provided to categorize.");
+  }
 
   const updatedQuestion: Question = {
     ...question,
-    chapter: result.chapter,
-    subject: "Cyber Security", // The prompt always uses this subject, so we set it here.
+    ...(await pickChapter(question, await getTaxonomyStore().get())),
   };
 
   // This function now only returns the updated question data without saving it.
@@ -87,41 +183,247 @@ export async function handleCategorizeQuestion(
   return updatedQuestion;
 }
 
+/**
+ * Picks a chapter for each draft, in parallel, as the AI parser does for the questions
+ * it reads. A draft the AI cannot place gets null and is left for the reviewer.
+ */
+export async function handleCategorizeDrafts(
+  drafts: CategorizeTarget[]
+): Promise<({ subject: string; chapter: string } | null)[]> {
+  const taxonomy = await getTaxonomyStore().get();
+  return mapWithConcurrency(drafts, PARSE_CONCURRENCY, async (draft) => {
+    try {
+      return await pickChapter(draft, taxonomy);
+    } catch (error) {
+      console.error('Error categorizing parsed question', error);
+      return null;
+    }
+  });
+}
+
+export async function handleGetTaxonomy(): Promise<Taxonomy> {
+  return await getTaxonomyStore().get();
+}
+
+export async function handleSaveTaxonomy(
+  taxonomy: Taxonomy
+): Promise<{ success: boolean; taxonomy?: Taxonomy; errors?: string[] }> {
+  const result = TaxonomySchema.safeParse(taxonomy);
+  if (!result.success) {
+    return { success: false, errors: [...new Set(result.error.issues.map((i) => i.message))] };
+  }
+
+  try {
+    const saved = await getTaxonomyStore().save(result.data);
+    return { success: true, taxonomy: saved };
+  } catch (error) {
+    console.error('Error saving taxonomy', error);
+    return { success: false };
+  }
+}
+
+type ChapterChangeResult = {
+  success: boolean;
+  updatedQuestions: Question[];
+  // The taxonomy after the change, when it had to be updated too.
+  taxonomy?: Taxonomy;
+  error?: string;
+};
+
+// Moves questions to `to` in batched, revisioned writes. A chapter listed in the
+// taxonomy also brings its subject along. Questions are written before the taxonomy,
+// so a failed write never leaves the taxonomy pointing at a chapter nobody uses.
+async function moveQuestionsToChapter(
+  questions: Question[],
+  to: string,
+  actor: string,
+  taxonomy: Taxonomy
+): Promise<Question[]> {
+  const subject = subjectOfChapter(taxonomy, to);
+  const now = new Date().toISOString();
+  const updated = questions.map((q) => ({
+    ...q,
+    chapter: to,
+    subject: subject?.name ?? q.subject,
+    updatedAt: now,
+  }));
+  if (updated.length > 0) {
+    await getQuestionRepository().updateMany(updated, { actor, action: 'chapter-change' });
+  }
+  return updated;
+}
+
+function checkChapterNames(from: string, to: string): string | null {
+  if (!from || !to?.trim()) return 'Both chapter names are required.';
+  if (from === to.trim()) return 'The new chapter is the same as the old one.';
+  return null;
+}
+
+/** Renames a chapter on every question that uses it, and in the taxonomy. */
+export async function handleRenameChapter(
+  from: string,
+  to: string,
+  actor: string = 'admin'
+): Promise<ChapterChangeResult> {
+  const invalid = checkChapterNames(from, to);
+  if (invalid) return { success: false, updatedQuestions: [], error: invalid };
+  to = to.trim();
+
+  try {
+    const store = getTaxonomyStore();
+    const current = await store.get();
+    const affected = await getQuestionRepository().query({ chapter: from });
+    const updatedQuestions = await moveQuestionsToChapter(affected, to, actor, current);
+    const taxonomy = subjectOfChapter(current, from)
+      ? await store.save(renameChapterInTaxonomy(current, from, to))
+      : undefined;
+    return { success: true, updatedQuestions, taxonomy };
+  } catch (error) {
+    console.error('Error renaming chapter', error);
+    return { success: false, updatedQuestions: [], error: 'Could not rename the chapter.' };
+  }
+}
+
+/** Moves every question of `source` into `target` and drops `source` from the taxonomy. */
+export async function handleMergeChapters(
+  source: string,
+  target: string,
+  actor: string = 'admin'
+): Promise<ChapterChangeResult> {
+  const invalid = checkChapterNames(source, target);
+  if (invalid) return { success: false, updatedQuestions: [], error: invalid };
+
+  try {
+    const store = getTaxonomyStore();
+    const current = await store.get();
+    const affected = await getQuestionRepository().query({ chapter: source });
+    const updatedQuestions = await moveQuestionsToChapter(affected, target, actor, current);
+    const taxonomy = subjectOfChapter(current, source)
+      ? await store.save(removeChapterFromTaxonomy(current, source))
+      : undefined;
+    return { success: true, updatedQuestions, taxonomy };
+  } catch (error) {
+    console.error('Error merging chapters', error);
+    return { success: false, updatedQuestions: [], error: 'Could not merge the chapters.' };
+  }
+}
+
+/**
+ * Moves the selected questions of `from` into `to`. A new `to` is listed in the taxonomy
+ * right after `from`.
+ */
+export async function handleSplitChapter(
+  from: string,
+  questionIds: string[],
+  to: string,
+  actor: string = 'admin'
+): Promise<ChapterChangeResult> {
+  const invalid = checkChapterNames(from, to);
+  if (invalid) return { success: false, updatedQuestions: [], error: invalid };
+  if (!questionIds || questionIds.length === 0) {
+    return { success: false, updatedQuestions: [], error: 'Select the questions to move.' };
+  }
+  to = to.trim();
+
+  try {
+    const store = getTaxonomyStore();
+    const current = await store.get();
+    const inChapter = await getQuestionRepository().query({ chapter: from });
+    const selected = new Set(questionIds);
+    const affected = inChapter.filter((q) => selected.has(q.id));
+
+    const updatedQuestions = await moveQuestionsToChapter(affected, to, actor, current);
+    const listed = insertChapterAfter(current, from, to, randomUUID());
+    const taxonomy = listed !== current ? await store.save(listed) : undefined;
+    return { success: true, updatedQuestions, taxonomy };
+  } catch (error) {
+    console.error('Error splitting chapter', error);
+    return { success: false, updatedQuestions: [], error: 'Could not move the questions.' };
+  }
+}
+
+export async function handleListQuestions(): Promise<Question[]> {
+  return await getQuestionRepository().list();
+}
+
+// Deltas reach back this far before the client's last sync, so a write that was stamped
+// just before the sync but committed after it (or a server with a slightly fast clock)
+// is not missed. Re-applying a question the client already has is harmless.
+const SYNC_OVERLAP_MS = 2 * 60 * 1000;
+
+export type QuestionSyncResult = {
+  /** True when `questions` is the whole bank and the client should replace its copy. */
+  full: boolean;
+  /** Changed questions for a delta, trashed ones included; the whole live bank otherwise. */
+  questions: Question[];
+  purgedIds: string[];
+  /** Pass back as `since` on the next sync. */
+  syncedAt: string;
+};
+
+export async function handleSyncQuestions(since?: string | null): Promise<QuestionSyncResult> {
+  const repository = getQuestionRepository();
+  const syncedAt = new Date().toISOString();
+
+  if (!since || isNaN(Date.parse(since))) {
+    return { full: true, questions: await repository.list(), purgedIds: [], syncedAt };
+  }
+
+  const cutoff = new Date(Date.parse(since) - SYNC_OVERLAP_MS).toISOString();
+  const { changed, purgedIds } = await repository.listChangedSince(cutoff);
+  return { full: false, questions: changed, purgedIds, syncedAt };
+}
+
+export async function handleGetQuestion(questionId: string): Promise<Question | null> {
+  if (!questionId) return null;
+  return await getQuestionRepository().get(questionId);
+}
+
+export async function handleQueryQuestions(filter: QuestionQuery): Promise<Question[]> {
+  return await getQuestionRepository().query(filter);
+}
+
 export async function handleSaveQuestions(
   questions: ParseQuestionsOutput
-): Promise<{ success: boolean; savedQuestions: Question[] }> {
+): Promise<{
+  success: boolean;
+  savedQuestions: Question[];
+  // Aligned with the input: `errors[i]` is set when question `i` failed validation.
+  errors?: (QuestionFieldErrors | undefined)[];
+}> {
   if (!questions || questions.length === 0) {
     return { success: false, savedQuestions: [] };
   }
 
-  try {
-    const batch = writeBatch(db);
-    const questionsCollection = collection(db, 'questions');
-    const now = new Date();
-    const savedQuestions: Question[] = [];
+  const drafts: QuestionDraft[] = [];
+  const errors: (QuestionFieldErrors | undefined)[] = [];
+  questions.forEach((question) => {
+    const result = validateQuestionDraft(question);
+    if (result.success) {
+      drafts.push(result.data);
+      errors.push(undefined);
+    } else {
+      errors.push(result.errors);
+    }
+  });
 
-    questions.forEach((question) => {
-      const docRef = doc(questionsCollection); // Automatically generate new doc ID
-      const questionData: Question = {
-        ...(question as Omit<Question, 'id' | 'createdAt' | 'updatedAt'>),
-        id: docRef.id,
-        createdAt: now.toISOString(),
-        updatedAt: now.toISOString(),
-      };
-      batch.set(docRef, questionData);
-      savedQuestions.push(questionData);
-    });
+  // Nothing is saved unless every question is valid, so the user can fix and retry the whole batch.
+  if (errors.some(Boolean)) {
+    return { success: false, savedQuestions: [], errors };
+  }
 
-    await batch.commit();
+  try {
+    const savedQuestions = await getQuestionRepository().createMany(drafts);
     return { success: true, savedQuestions };
   } catch (error) {
-    console.error('Error saving to firestore', error);
+    console.error('Error saving questions', error);
     return { success: false, savedQuestions: [] };
   }
 }
 
 export async function handleDeleteQuestion(
-  questionId: string
+  questionId: string,
+  actor: string = 'admin'
 ): Promise<{ success: boolean }> {
   if (!questionId) {
     console.error("Delete failed: No question ID provided.");
@@ -129,65 +431,634 @@ export async function handleDeleteQuestion(
   }
 
   try {
-    const docRef = doc(db, 'questions', questionId);
-    await deleteDoc(docRef);
-    // Note: This does not delete associated images from storage.
-    // A more robust solution would involve a Cloud Function to handle deletions.
+    const repository = getQuestionRepository();
+    const question = await repository.get(questionId);
+    // Deleting only moves the question to the trash; see handlePurgeQuestions.
+    await repository.trash([questionId], actor);
+    await unlinkTranslations([question], actor);
     return { success: true };
   } catch (error) {
-    console.error('Error deleting question from Firestore', error);
+    console.error('Error moving question to trash', error);
+    return { success: false };
+  }
+}
+
+// A replaced image is kept while an earlier version in the question's history still
+// shows it, so restoring that version brings the image back. Purging the question
+// removes it with the rest of its files.
+async function deleteReplacedImage(questionId: string, url: string) {
+  const history = await getQuestionRepository().listRevisions(questionId);
+  if (history.some((revision) => revision.snapshot.imageUrl === url)) return;
+  await deleteImageByUrl(url);
+}
+
+/**
+ * Writes `merged` over the surviving question of a duplicate group and moves the other
+ * copies to the trash. Their ids are recorded on the survivor so bookmarks and answers
+ * follow it. An image taken from a retired copy is copied under the survivor first,
+ * since purging the copy later deletes its files.
+ */
+export async function handleMergeQuestions(
+  merged: Question,
+  retiredIds: string[],
+  actor: string = 'admin',
+  // The survivor's `updatedAt` when the merge was prepared.
+  expectedUpdatedAt?: string
+): Promise<{
+  success: boolean;
+  question?: Question;
+  errors?: QuestionFieldErrors;
+  conflict?: Question;
+}> {
+  const retired = retiredIds.filter((id) => id && id !== merged?.id);
+  if (!merged?.id || retired.length === 0) {
+    return { success: false };
+  }
+
+  try {
+    const repository = getQuestionRepository();
+    const [current, ...copies] = await Promise.all([merged.id, ...retired].map((id) => repository.get(id)));
+    if (!current) return { success: false };
+
+    let imageUrl = merged.imageUrl;
+    if (imageUrl && imageUrl !== current.imageUrl) {
+      const image = await readImageByUrl(imageUrl);
+      imageUrl = image
+        ? await uploadQuestionImage(merged.id, new File([image.bytes], image.fileName, { type: image.contentType }))
+        : current.imageUrl;
+    }
+
+    const mergedFrom = [
+      ...new Set([
+        ...(current.mergedFrom ?? []),
+        ...retired,
+        ...copies.flatMap((copy) => copy?.mergedFrom ?? []),
+      ]),
+    ];
+    // Keys the client left undefined are dropped; Firestore rejects undefined values.
+    const { imageUrl: _chosen, ...fields } = Object.fromEntries(
+      Object.entries(merged).filter(([, value]) => value !== undefined)
+    ) as Question;
+    const result = validateQuestion({
+      ...fields,
+      ...(imageUrl ? { imageUrl } : {}),
+      mergedFrom,
+      updatedAt: new Date().toISOString(),
+    });
+    if (!result.success) {
+      return { success: false, errors: result.errors };
+    }
+
+    await repository.update(result.data, { actor, action: 'merge' }, { expectedUpdatedAt });
+    await repository.trash(retired, actor);
+
+    // Retired copies give up their translation links. The survivor takes over the first
+    // one that points outside the group, unless it has a translation of its own.
+    let question = result.data;
+    const links = new Map<string, string | null>();
+    for (const copy of copies) if (copy?.translationId) links.set(copy.id, null);
+    const partnerId = copies
+      .map((copy) => copy?.translationId)
+      .find((id) => id && id !== merged.id && !retired.includes(id));
+    if (partnerId && !question.translationId) {
+      links.set(merged.id, partnerId);
+      links.set(partnerId, merged.id);
+    }
+    if (links.size > 0) {
+      const linked = await writeTranslationLinks(links, actor).catch((error) => {
+        console.error(`Error moving translation links to question ${merged.id}`, error);
+        return null;
+      });
+      question = linked?.questions.find((q) => q.id === merged.id) ?? question;
+    }
+
+    if (current.imageUrl && current.imageUrl !== result.data.imageUrl) {
+      await deleteReplacedImage(merged.id, current.imageUrl).catch((error) =>
+        console.error(`Error deleting replaced image of question ${merged.id}`, error)
+      );
+    }
+    return { success: true, question };
+  } catch (error) {
+    if (error instanceof QuestionConflictError) {
+      return { success: false, conflict: error.current };
+    }
+    console.error('Error merging questions', error);
     return { success: false };
   }
 }
 
-export async function handleUpdateMultipleQuestions(questions: Question[]): Promise<{ success: boolean }> {
+// Sets (or with null, clears) `translationId` on each question in `links`. A question
+// that loses its partner is unlinked on the partner's side too, so links stay mutual.
+async function writeTranslationLinks(
+  links: Map<string, string | null>,
+  actor: string
+): Promise<{ success: boolean; questions: Question[]; errors?: Record<string, QuestionFieldErrors> }> {
+  const repository = getQuestionRepository();
+  const ids = [...links.keys()];
+  const current = await Promise.all(ids.map((id) => repository.get(id)));
+  current.forEach((question) => {
+    const partnerId = question?.translationId;
+    if (partnerId && !links.has(partnerId) && links.get(question.id) !== partnerId) links.set(partnerId, null);
+  });
+  const former = await Promise.all([...links.keys()].slice(ids.length).map((id) => repository.get(id)));
+
+  const now = new Date().toISOString();
+  const validated: Question[] = [];
+  const errors: Record<string, QuestionFieldErrors> = {};
+  for (const question of [...current, ...former]) {
+    if (!question) continue;
+    const { translationId: _previous, ...rest } = question;
+    const translationId = links.get(question.id);
+    const result = validateQuestion({ ...rest, ...(translationId ? { translationId } : {}), updatedAt: now });
+    if (result.success) validated.push(result.data);
+    else errors[question.id] = result.errors;
+  }
+  if (Object.keys(errors).length > 0) {
+    return { success: false, questions: [], errors };
+  }
+
+  await repository.updateMany(validated, { actor, action: 'translation-link' });
+  return { success: true, questions: validated };
+}
+
+// A question leaving the bank (trashed or purged) drops its translation link, so its
+// partner is not left pointing at it and can be paired again.
+async function unlinkTranslations(questions: (Question | null)[], actor: string) {
+  const linked = questions.filter((q): q is Question => !!q?.translationId);
+  if (linked.length === 0) return;
+  const result = await writeTranslationLinks(new Map(linked.map((q) => [q.id, null])), actor);
+  if (!result.success) throw new Error('Could not unlink translations.');
+}
+
+/**
+ * Links each pair of questions as translations of each other. Returns every question
+ * that changed, including former partners that were unlinked.
+ */
+export async function handleLinkTranslations(
+  pairs: [string, string][],
+  actor: string = 'admin'
+): Promise<{ success: boolean; questions: Question[]; errors?: Record<string, QuestionFieldErrors> }> {
+  const links = new Map<string, string | null>();
+  for (const [a, b] of pairs) {
+    if (!a || !b || a === b || links.has(a) || links.has(b)) {
+      console.error(`Link failed: ${a} and ${b} cannot be paired.`);
+      return { success: false, questions: [] };
+    }
+    links.set(a, b);
+    links.set(b, a);
+  }
+  if (links.size === 0) return { success: false, questions: [] };
+
+  try {
+    return await writeTranslationLinks(links, actor);
+  } catch (error) {
+    console.error('Error linking translations', error);
+    return { success: false, questions: [] };
+  }
+}
+
+export async function handleUnlinkTranslation(
+  questionId: string,
+  actor: string = 'admin'
+): Promise<{ success: boolean; questions: Question[] }> {
+  if (!questionId) return { success: false, questions: [] };
+  try {
+    const result = await writeTranslationLinks(new Map([[questionId, null]]), actor);
+    return { success: result.success, questions: result.questions };
+  } catch (error) {
+    console.error('Error unlinking translation', error);
+    return { success: false, questions: [] };
+  }
+}
+
+export async function handleListTrashedQuestions(): Promise<Question[]> {
+  return await getQuestionRepository().listTrash();
+}
+
+export async function handleRestoreQuestions(
+  questionIds: string[]
+): Promise<{ success: boolean; restoredQuestions: Question[] }> {
+  if (!questionIds || questionIds.length === 0) {
+    return { success: false, restoredQuestions: [] };
+  }
+
+  try {
+    const restoredQuestions = await getQuestionRepository().restore(questionIds);
+    return { success: true, restoredQuestions };
+  } catch (error) {
+    console.error('Error restoring questions from trash', error);
+    return { success: false, restoredQuestions: [] };
+  }
+}
+
+export async function handlePurgeQuestions(
+  questionIds: string[],
+  actor: string = 'admin'
+): Promise<{ success: boolean; purgedIds: string[] }> {
+  if (!questionIds || questionIds.length === 0) {
+    return { success: false, purgedIds: [] };
+  }
+
+  const repository = getQuestionRepository();
+  const purgedIds: string[] = [];
+  for (const id of questionIds) {
+    try {
+      const question = await repository.get(id);
+      // Only trashed questions can be purged, so a live question is never lost by mistake.
+      if (!question?.deletedAt) continue;
+      // Unlinked first: once the question is gone, its partner can no longer be found.
+      await unlinkTranslations([question], actor);
+      await repository.delete(id);
+      purgedIds.push(id);
+      // A failed cleanup leaves an orphan for the storage audit; the purge itself stands.
+      await deleteQuestionImages(id).catch((error) =>
+        console.error(`Error deleting images of question ${id}`, error)
+      );
+    } catch (error) {
+      console.error(`Error purging question ${id}`, error);
+    }
+  }
+  return { success: purgedIds.length === questionIds.length, purgedIds };
+}
+
+export async function handleAuditQuestionImages(): Promise<{
+  success: boolean;
+  orphans: OrphanedImage[];
+}> {
+  try {
+    const repository = getQuestionRepository();
+    const [live, trashed] = await Promise.all([repository.list(), repository.listTrash()]);
+    const orphans = await findOrphanedImages([...live, ...trashed]);
+    // A replaced image that an earlier version still shows is not an orphan: restoring
+    // that version needs it.
+    const replacedIn = [...new Set(orphans.filter((o) => o.reason === 'image-replaced').map((o) => o.questionId))];
+    const histories = await Promise.all(replacedIn.map((id) => repository.listRevisions(id)));
+    const inHistory = new Set(
+      histories.flat().map((revision) => imagePathFromUrl(revision.snapshot.imageUrl)).filter(Boolean)
+    );
+    return { success: true, orphans: orphans.filter((o) => !inHistory.has(o.path)) };
+  } catch (error) {
+    console.error('Error auditing question images', error);
+    return { success: false, orphans: [] };
+  }
+}
+
+export async function handleDeleteOrphanedImages(
+  paths: string[]
+): Promise<{ success: boolean; deletedPaths: string[] }> {
+  if (!paths || paths.length === 0) {
+    return { success: false, deletedPaths: [] };
+  }
+
+  try {
+    // Re-run the audit so a file that became referenced since the page loaded is kept.
+    const { success, orphans } = await handleAuditQuestionImages();
+    if (!success) return { success: false, deletedPaths: [] };
+    const orphanPaths = new Set(orphans.map((o) => o.path));
+    const deletedPaths = await deleteImagesByPath(paths.filter((p) => orphanPaths.has(p)));
+    return { success: deletedPaths.length === paths.length, deletedPaths };
+  } catch (error) {
+    console.error('Error deleting orphaned images', error);
+    return { success: false, deletedPaths: [] };
+  }
+}
+
+// Images keyed by question id, base64 encoded so they can travel in a server action's response.
+async function readQuestionImages(
+  questions: Question[]
+): Promise<{ images: Record<string, BackupImage>; missingImages: string[] }> {
+  const images: Record<string, BackupImage> = {};
+  const missingImages: string[] = [];
+  // One at a time, so a large bank never holds more than one download in flight.
+  for (const question of questions) {
+    if (!imagePathFromUrl(question.imageUrl)) continue;
+    const image = await readImageByUrl(question.imageUrl).catch((error) => {
+      console.error(`Error reading image of question ${question.id}`, error);
+      return null;
+    });
+    if (!image) {
+      missingImages.push(question.id);
+      continue;
+    }
+    images[question.id] = {
+      // Uploads prefix a timestamp, which uploading again adds back.
+      fileName: image.fileName.replace(/^\d+-/, ''),
+      contentType: image.contentType,
+      data: Buffer.from(image.bytes).toString('base64'),
+    };
+  }
+  return { images, missingImages };
+}
+
+export async function handleCreateBackup(): Promise<{
+  success: boolean;
+  archive?: BackupArchive;
+  // Questions whose image could not be found in storage; their imageUrl is kept as is.
+  missingImages: string[];
+}> {
+  try {
+    const repository = getQuestionRepository();
+    const [live, trashed, taxonomy] = await Promise.all([
+      repository.list(),
+      repository.listTrash(),
+      getTaxonomyStore().get(),
+    ]);
+    const questions = [...live, ...trashed];
+    const { images, missingImages } = await readQuestionImages(questions);
+
+    const archive: BackupArchive = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: new Date().toISOString(),
+      taxonomy,
+      questions,
+      images,
+    };
+    return { success: true, archive, missingImages };
+  } catch (error) {
+    console.error('Error creating backup', error);
+    return { success: false, missingImages: [] };
+  }
+}
+
+/** The stored images of the given questions, for exports that package them alongside. */
+export async function handleReadQuestionImages(questionIds: string[]): Promise<{
+  success: boolean;
+  images: Record<string, BackupImage>;
+  missingImages: string[];
+}> {
+  try {
+    const repository = getQuestionRepository();
+    const questions = await Promise.all(questionIds.map((id) => repository.get(id)));
+    const found = questions.filter((q): q is Question => q !== null);
+    return { success: true, ...(await readQuestionImages(found)) };
+  } catch (error) {
+    console.error('Error reading question images', error);
+    return { success: false, images: {}, missingImages: [] };
+  }
+}
+
+async function listAllStoredQuestions(): Promise<Question[]> {
+  const repository = getQuestionRepository();
+  const [live, trashed] = await Promise.all([repository.list(), repository.listTrash()]);
+  return [...live, ...trashed];
+}
+
+// Images are uploaded again when the stored file is gone, and always for copies so
+// that purging the original cannot take the copy's image with it.
+async function restoreArchivedImage(
+  question: Question,
+  image: BackupImage | undefined,
+  isCopy: boolean
+): Promise<Question> {
+  if (!image || !question.imageUrl) return question;
+  if (!isCopy && (await imageExists(question.imageUrl))) return question;
+  const file = new File([Buffer.from(image.data, 'base64')], image.fileName, { type: image.contentType });
+  return { ...question, imageUrl: await uploadQuestionImage(question.id, file) };
+}
+
+export async function handlePreviewRestore(
+  archive: unknown
+): Promise<{ success: boolean; preview?: RestorePreview; errors?: string[] }> {
+  const parsed = parseBackupArchive(archive);
+  if (!parsed.success) return { success: false, errors: parsed.errors };
+
+  try {
+    const { questions, invalid } = readArchiveQuestions(parsed.archive);
+    const entries = planRestore(questions, await listAllStoredQuestions());
+    return { success: true, preview: summarizeRestore(parsed.archive, entries, invalid) };
+  } catch (error) {
+    console.error('Error previewing backup restore', error);
+    return { success: false, errors: ['Could not compare the backup with the question bank.'] };
+  }
+}
+
+export async function handleRestoreBackup(
+  archive: unknown,
+  options: RestoreOptions,
+  actor: string = 'admin'
+): Promise<{
+  success: boolean;
+  // Everything written, under the ids it was written with.
+  restoredQuestions: Question[];
+  taxonomy?: Taxonomy;
+  // Questions whose image could not be uploaded again; they keep the archived URL.
+  failedImages: string[];
+  errors?: string[];
+}> {
+  const parsed = parseBackupArchive(archive);
+  if (!parsed.success) return { success: false, restoredQuestions: [], failedImages: [], errors: parsed.errors };
+
+  try {
+    const repository = getQuestionRepository();
+    const { questions } = readArchiveQuestions(parsed.archive);
+    // Planned again here: the bank may have changed since the preview.
+    const entries = planRestore(questions, await listAllStoredQuestions());
+    const now = new Date().toISOString();
+
+    const inserts: Question[] = [];
+    const overwrites: { question: Question; current: Question }[] = [];
+    const failedImages: string[] = [];
+
+    for (const entry of entries) {
+      if (entry.status === 'unchanged') continue;
+      const action =
+        entry.status === 'new' ? 'overwrite' : entry.status === 'changed' ? options.changed : options.conflicts;
+      if (action === 'skip') continue;
+
+      const isCopy = action === 'copy';
+      // A fresh updatedAt so other clients pick the restored questions up on their next sync.
+      let question: Question = isCopy
+        ? { ...entry.question, id: randomUUID(), createdAt: now, updatedAt: now }
+        : { ...entry.question, updatedAt: now };
+      try {
+        question = await restoreArchivedImage(question, parsed.archive.images[entry.question.id], isCopy);
+      } catch (error) {
+        console.error(`Error restoring image of question ${entry.question.id}`, error);
+        failedImages.push(question.id);
+      }
+
+      if (entry.current && !isCopy) overwrites.push({ question, current: entry.current });
+      else inserts.push(question);
+    }
+
+    await repository.insertMany(inserts);
+    // Overwrites keep the replaced version in each question's history.
+    await repository.updateMany(overwrites.map((o) => o.question), { actor, action: 'restore' });
+    for (const { question, current } of overwrites) {
+      if (current.imageUrl && current.imageUrl !== question.imageUrl) {
+        await deleteReplacedImage(question.id, current.imageUrl).catch((error) =>
+          console.error(`Error deleting replaced image of question ${question.id}`, error)
+        );
+      }
+    }
+
+    let taxonomy: Taxonomy | undefined;
+    if (options.restoreTaxonomy && parsed.archive.taxonomy) {
+      taxonomy = await getTaxonomyStore().save(parsed.archive.taxonomy);
+    }
+
+    return {
+      success: true,
+      restoredQuestions: [...inserts, ...overwrites.map((o) => o.question)],
+      taxonomy,
+      failedImages,
+    };
+  } catch (error) {
+    console.error('Error restoring backup', error);
+    return { success: false, restoredQuestions: [], failedImages: [], errors: ['The restore did not complete.'] };
+  }
+}
+
+const DEFAULT_REVISION: RevisionMeta = { actor: 'admin', action: 'edit' };
+
+export async function handleUpdateMultipleQuestions(
+    questions: Question[],
+    revision: RevisionMeta = DEFAULT_REVISION,
+    // Question ID -> the `updatedAt` the change started from.
+    expectedUpdatedAt?: Record<string, string>
+): Promise<{
+    success: boolean;
+    // The normalized records that were written.
+    questions: Question[];
+    // Keyed by question ID.
+    errors?: Record<string, QuestionFieldErrors>;
+    // Questions someone else saved in between, as now stored; they were not written.
+    conflicts?: Question[];
+}> {
     if (!questions || questions.length === 0) {
         console.error("Update failed: No questions provided.");
-        return { success: false };
+        return { success: false, questions: [] };
+    }
+
+    const now = new Date().toISOString();
+    const validated: Question[] = [];
+    const errors: Record<string, QuestionFieldErrors> = {};
+    questions.forEach(q => {
+        const result = validateQuestion({ ...q, updatedAt: now });
+        if (result.success) validated.push(result.data);
+        else errors[q?.id ?? ''] = result.errors;
+    });
+
+    if (Object.keys(errors).length > 0) {
+        console.error("Update failed: Some questions are invalid.", errors);
+        return { success: false, questions: [], errors };
     }
 
     try {
-        const batch = writeBatch(db);
-        const now = new Date().toISOString();
-
-        questions.forEach(q => {
-            const docRef = doc(db, 'questions', q.id);
-            // Create a new object for the update to avoid modifying the original
-            const dataToUpdate = { ...q, updatedAt: now };
-            // The document ID is part of the reference, not the data itself
-            delete (dataToUpdate as any).id;
-            batch.update(docRef, dataToUpdate);
-        });
-
-        await batch.commit();
-        return { success: true };
+        const conflicts = await getQuestionRepository().updateMany(validated, revision, { expectedUpdatedAt });
+        const conflictIds = new Set(conflicts.map(q => q.id));
+        const questions = validated.filter(q => !conflictIds.has(q.id));
+        return conflicts.length > 0 ? { success: false, questions, conflicts } : { success: true, questions };
     } catch (error) {
-        console.error('Error updating multiple questions in Firestore', error);
-        return { success: false };
+        console.error('Error updating multiple questions', error);
+        return { success: false, questions: [] };
     }
 }
 
 
-export async function handleUpdateQuestion(question: Question): Promise<{ success: boolean }> {
+export async function handleUpdateQuestion(
+    question: Question,
+    revision: RevisionMeta = DEFAULT_REVISION,
+    // The `updatedAt` the editor started from; omit to overwrite unconditionally.
+    expectedUpdatedAt?: string
+): Promise<{
+    success: boolean;
+    // The normalized record that was written.
+    question?: Question;
+    errors?: QuestionFieldErrors;
+    // Set when someone else saved first: the version now stored.
+    conflict?: Question;
+}> {
     if (!question || !question.id) {
         console.error("Update failed: No question or question ID provided.");
         return { success: false };
     }
+
+    const result = validateQuestion({
+        ...question,
+        updatedAt: new Date().toISOString(),
+    });
+    if (!result.success) {
+        return { success: false, errors: result.errors };
+    }
+
     try {
-        const questionRef = doc(db, "questions", question.id);
-        const now = new Date();
-        const dataToUpdate = { ...question };
-        
-        delete (dataToUpdate as any).id;
-
-        await updateDoc(questionRef, {
-            ...dataToUpdate,
-            updatedAt: now.toISOString(),
-        });
-        return { success: true };
+        const repository = getQuestionRepository();
+        const previous = await repository.get(question.id);
+        await repository.update(result.data, revision, { expectedUpdatedAt });
+        // The old file is dropped once neither the question nor its history points at it.
+        if (previous?.imageUrl && previous.imageUrl !== result.data.imageUrl) {
+            await deleteReplacedImage(question.id, previous.imageUrl).catch((error) =>
+                console.error(`Error deleting replaced image of question ${question.id}`, error)
+            );
+        }
+        return { success: true, question: result.data };
     } catch(error) {
-        console.error('Error updating question in Firestore', error);
+        if (error instanceof QuestionConflictError) {
+            return { success: false, conflict: error.current };
+        }
+        console.error('Error updating question', error);
         return { success: false };
     }
 }
 
+export async function handleListRevisions(questionId: string): Promise<QuestionRevision[]> {
+    if (!questionId) return [];
+    return await getQuestionRepository().listRevisions(questionId);
+}
+
+export async function handleRestoreRevision(
+    questionId: string,
+    revisionId: string,
+    actor: string = DEFAULT_REVISION.actor,
+    // The `updatedAt` of the version the user picked the revision from; defaults to the stored one.
+    expectedUpdatedAt?: string
+): Promise<{ success: boolean; question?: Question; errors?: QuestionFieldErrors; conflict?: Question }> {
+    try {
+        const repository = getQuestionRepository();
+        const [current, revisions] = await Promise.all([
+            repository.get(questionId),
+            repository.listRevisions(questionId),
+        ]);
+        const revision = revisions.find(r => r.id === revisionId);
+        if (!current || !revision) {
+            console.error("Restore failed: Question or revision not found.");
+            return { success: false };
+        }
+
+        // Images replaced before the history kept them alive may be gone; the current one
+        // is kept rather than restoring a broken link.
+        // Translation links, merges and the trash are not part of a question's content, so
+        // they stay as they are now; restoring them would break links made since.
+        const {
+            imageUrl: snapshotImage,
+            translationId: _translationId,
+            mergedFrom: _mergedFrom,
+            deletedAt: _deletedAt,
+            deletedBy: _deletedBy,
+            ...snapshot
+        } = revision.snapshot;
+        const imageLost = !!imagePathFromUrl(snapshotImage) && !(await imageExists(snapshotImage));
+        const imageUrl = imageLost ? current.imageUrl : snapshotImage;
+        const { translationId, mergedFrom, deletedAt, deletedBy } = current;
+
+        // The restore is itself an update, so the version it replaces stays in the history.
+        return await handleUpdateQuestion(
+            {
+                ...snapshot,
+                ...(imageUrl ? { imageUrl } : {}),
+                ...(translationId ? { translationId } : {}),
+                ...(mergedFrom ? { mergedFrom } : {}),
+                ...(deletedAt ? { deletedAt, deletedBy } : {}),
+                id: current.id,
+                createdAt: current.createdAt,
+            },
+            { actor, action: 'restore' },
+            expectedUpdatedAt ?? current.updatedAt
+        );
+    } catch (error) {
+        console.error('Error restoring question revision', error);
+        return { success: false };
+    }
+}
@@ -0,0 +1,163 @@
+/**
+ * @fileOverview The backup archive: every stored question (trashed ones included) with
+ * all of its fields, the images those questions point at, and the taxonomy.
+ *
+ * An archive is a single JSON document. Images are embedded as base64 and keyed by the
+ * id of the question that references them, so a restore can upload them again even
+ * when the original bucket is gone.
+ *
+ * Restoring is planned before anything is written: each archived question is compared
+ * with the stored question of the same id (see `planRestore`).
+ */
+import { z } from "zod";
+import { type Question, type QuestionFieldErrors, TaxonomySchema, validateQuestion } from "@/types";
+import { diffQuestions } from "@/lib/question-diff";
+
+export const BACKUP_FORMAT = "alsalam-qbank-backup";
+/** Bump when the layout changes; restores refuse archives from a newer version. */
+export const BACKUP_VERSION = 1;
+
+const BackupImageSchema = z.object({
+  fileName: z.string().min(1),
+  contentType: z.string().min(1),
+  /** Base64 of the file contents. */
+  data: z.string(),
+});
+
+export const BackupArchiveSchema = z.object({
+  format: z.literal(BACKUP_FORMAT, {
+    errorMap: () => ({ message: "This file is not a question bank backup." }),
+  }),
+  version: z
+    .number()
+    .int()
+    .min(1)
+    .max(BACKUP_VERSION, "This backup was made by a newer version of the app."),
+  createdAt: z.string(),
+  taxonomy: TaxonomySchema.optional(),
+  // Validated one by one in `readArchiveQuestions`, so a single bad record does not
+  // make the whole archive unusable.
+  questions: z.array(z.unknown()),
+  images: z.record(BackupImageSchema).default({}),
+});
+
+export type BackupImage = z.infer<typeof BackupImageSchema>;
+export type BackupArchive = z.infer<typeof BackupArchiveSchema>;
+
+export type InvalidBackupQuestion = {
+  index: number;
+  id?: string;
+  errors: QuestionFieldErrors;
+};
+
+/** Checks the archive envelope. Returns the messages to show when it is not usable. */
+export function parseBackupArchive(
+  input: unknown
+): { success: true; archive: BackupArchive } | { success: false; errors: string[] } {
+  const result = BackupArchiveSchema.safeParse(input);
+  if (result.success) return { success: true, archive: result.data };
+  return {
+    success: false,
+    errors: [...new Set(result.error.issues.map((i) => i.message))],
+  };
+}
+
+/** The archived questions that pass validation, and the ones that do not. */
+export function readArchiveQuestions(archive: BackupArchive): {
+  questions: Question[];
+  invalid: InvalidBackupQuestion[];
+} {
+  const questions: Question[] = [];
+  const invalid: InvalidBackupQuestion[] = [];
+  archive.questions.forEach((raw, index) => {
+    const result = validateQuestion(raw);
+    if (result.success) {
+      questions.push(result.data);
+    } else {
+      const id = (raw as { id?: unknown })?.id;
+      invalid.push({ index, id: typeof id === "string" ? id : undefined, errors: result.errors });
+    }
+  });
+  return { questions, invalid };
+}
+
+/**
+ * - `new`: no stored question has this id.
+ * - `unchanged`: the stored question has the same content.
+ * - `changed`: the stored question differs but was not edited after the archived copy.
+ * - `conflict`: the stored question was edited after the archived copy was taken, so
+ *   restoring it would discard that later edit.
+ */
+export type RestoreStatus = "new" | "unchanged" | "changed" | "conflict";
+
+export type RestoreEntry = {
+  question: Question;
+  status: RestoreStatus;
+  current?: Question;
+};
+
+export function planRestore(archived: Question[], stored: Question[]): RestoreEntry[] {
+  const byId = new Map(stored.map((q) => [q.id, q]));
+  return archived.map((question) => {
+    const current = byId.get(question.id);
+    if (!current) return { question, status: "new" };
+    const same = diffQuestions(current, question).length === 0 && !current.deletedAt === !question.deletedAt;
+    if (same) return { question, status: "unchanged", current };
+    const status = current.updatedAt > question.updatedAt ? "conflict" : "changed";
+    return { question, status, current };
+  });
+}
+
+/** What to do with archived questions whose id is already taken. */
+export type ExistingQuestionAction = "overwrite" | "copy" | "skip";
+
+export type RestoreOptions = {
+  changed: ExistingQuestionAction;
+  conflicts: ExistingQuestionAction;
+  /** Also replace the subjects and chapters with the archived ones. */
+  restoreTaxonomy: boolean;
+};
+
+export const DEFAULT_RESTORE_OPTIONS: RestoreOptions = {
+  changed: "overwrite",
+  conflicts: "skip",
+  restoreTaxonomy: false,
+};
+
+export type RestorePreview = {
+  createdAt: string;
+  counts: Record<RestoreStatus, number>;
+  invalid: InvalidBackupQuestion[];
+  /** Conflicting questions, for the admin to look over before choosing what to do. */
+  conflicts: { id: string; questionText: string; archivedAt: string; storedAt: string }[];
+  images: number;
+  hasTaxonomy: boolean;
+};
+
+export function summarizeRestore(
+  archive: BackupArchive,
+  entries: RestoreEntry[],
+  invalid: InvalidBackupQuestion[]
+): RestorePreview {
+  const counts: Record<RestoreStatus, number> = { new: 0, unchanged: 0, changed: 0, conflict: 0 };
+  entries.forEach((e) => counts[e.status]++);
+  return {
+    createdAt: archive.createdAt,
+    counts,
+    invalid,
+    conflicts: entries
+      .filter((e) => e.status === "conflict")
+      .map((e) => ({
+        id: e.question.id,
+        questionText: e.question.questionText,
+        archivedAt: e.question.updatedAt,
+        storedAt: e.current?.updatedAt ?? "",
+      })),
+    images: Object.keys(archive.images).length,
+    hasTaxonomy: !!archive.taxonomy,
+  };
+}
+
+export function backupFileName(createdAt: string) {
+  return `question-bank-backup-${createdAt.slice(0, 19).replace(/[:T]/g, "-")}.json`;
+}
@@ -0,0 +1,269 @@
+/**
+ * @fileOverview Reads question dumps out of Word (.docx) documents, in the browser.
+ *
+ * The document body is walked in order, paragraph by paragraph (table cells included),
+ * so inline images keep their place relative to the text around them. Word's automatic
+ * list numbering is not part of the text, so question numbers and option letters are
+ * rebuilt from `numbering.xml` ("1.", "A.", "أ.") before the text is cut into question
+ * blocks with the same splitter the paste dialog uses. Each image goes to the block
+ * it appears in.
+ */
+import JSZip from "jszip";
+import { splitQuizLines } from "@/lib/formats/quiz-text";
+import { childrenNamed, descendantsNamed, localNameOf, parseXml } from "@/lib/formats/xml";
+
+export type DocxQuestionBlock = {
+  text: string;
+  image?: File;
+  /** Further images in the same block that were not attached; a question has one image. */
+  extraImages: number;
+};
+
+export type DocxDocument = {
+  blocks: DocxQuestionBlock[];
+  warnings: string[];
+};
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  bmp: "image/bmp",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+};
+
+const ARABIC_ABJAD = ["أ", "ب", "ج", "د", "ه", "و", "ز", "ح", "ط", "ي"];
+const ARABIC_ALPHA = ["أ", "ب", "ت", "ث", "ج", "ح", "خ", "د", "ذ", "ر", "ز", "س", "ش", "ص", "ض", "ط", "ظ", "ع", "غ", "ف", "ق", "ك", "ل", "م", "ن", "ه", "و", "ي"];
+
+const wordAttribute = (element: Element | undefined, name: string) =>
+  element?.getAttribute(`w:${name}`) ?? element?.getAttribute(name) ?? null;
+
+/* ---------------------------------- */
+/* Numbering                          */
+/* ---------------------------------- */
+
+type LevelFormat = { start: number; format: string; text: string };
+
+function toRoman(n: number): string {
+  const numerals: [number, string][] = [
+    [1000, "M"], [900, "CM"], [500, "D"], [400, "CD"], [100, "C"], [90, "XC"],
+    [50, "L"], [40, "XL"], [10, "X"], [9, "IX"], [5, "V"], [4, "IV"], [1, "I"],
+  ];
+  let result = "";
+  for (const [value, numeral] of numerals) {
+    while (n >= value) {
+      result += numeral;
+      n -= value;
+    }
+  }
+  return result;
+}
+
+function formatNumber(n: number, format: string): string {
+  const letter = (letters: string[] | string) => letters[(n - 1) % letters.length];
+  switch (format) {
+    case "upperLetter":
+      return letter("ABCDEFGHIJKLMNOPQRSTUVWXYZ");
+    case "lowerLetter":
+      return letter("abcdefghijklmnopqrstuvwxyz");
+    case "upperRoman":
+      return toRoman(n);
+    case "lowerRoman":
+      return toRoman(n).toLowerCase();
+    case "arabicAbjad":
+      return letter(ARABIC_ABJAD);
+    case "arabicAlpha":
+      return letter(ARABIC_ALPHA);
+    case "bullet":
+    case "none":
+      return "";
+    default:
+      return String(n);
+  }
+}
+
+/** Produces the label Word shows in front of each numbered paragraph. */
+class ListNumbering {
+  private levels = new Map<string, Map<number, LevelFormat>>();
+  private counters = new Map<string, number[]>();
+
+  constructor(numberingXml: string | null) {
+    if (!numberingXml) return;
+    const doc = parseXml(numberingXml);
+    const abstracts = new Map<string, Map<number, LevelFormat>>();
+    for (const abstract of descendantsNamed(doc, "abstractNum")) {
+      const levels = new Map<number, LevelFormat>();
+      for (const level of childrenNamed(abstract, "lvl")) {
+        levels.set(Number(wordAttribute(level, "ilvl") ?? 0), {
+          start: Number(wordAttribute(childrenNamed(level, "start")[0], "val") ?? 1),
+          format: wordAttribute(childrenNamed(level, "numFmt")[0], "val") ?? "decimal",
+          text: wordAttribute(childrenNamed(level, "lvlText")[0], "val") ?? "",
+        });
+      }
+      abstracts.set(wordAttribute(abstract, "abstractNumId") ?? "", levels);
+    }
+    for (const num of descendantsNamed(doc, "num")) {
+      const base = abstracts.get(wordAttribute(childrenNamed(num, "abstractNumId")[0], "val") ?? "");
+      if (!base) continue;
+      const levels = new Map([...base].map(([ilvl, format]) => [ilvl, { ...format }]));
+      for (const override of childrenNamed(num, "lvlOverride")) {
+        const start = wordAttribute(childrenNamed(override, "startOverride")[0], "val");
+        const level = levels.get(Number(wordAttribute(override, "ilvl") ?? 0));
+        if (level && start !== null) level.start = Number(start);
+      }
+      this.levels.set(wordAttribute(num, "numId") ?? "", levels);
+    }
+  }
+
+  label(numId: string, ilvl: number): string {
+    const levels = this.levels.get(numId);
+    const level = levels?.get(ilvl);
+    if (!levels || !level) return "";
+    const counters = this.counters.get(numId) ?? [];
+    counters[ilvl] = (counters[ilvl] ?? level.start - 1) + 1;
+    // A new item at this level restarts the levels below it.
+    counters.length = ilvl + 1;
+    this.counters.set(numId, counters);
+    return level.text.replace(/%(\d)/g, (_, n: string) => {
+      const index = Number(n) - 1;
+      const format = levels.get(index);
+      return format ? formatNumber(counters[index] ?? format.start, format.format) : "";
+    });
+  }
+}
+
+/* ---------------------------------- */
+/* Body                               */
+/* ---------------------------------- */
+
+type BodyItem = { kind: "line"; text: string } | { kind: "image"; relationshipId: string };
+
+// Text and images of a paragraph in document order. Deleted text and field codes are
+// not part of what the reader sees, so they are skipped.
+function readParagraph(paragraph: Element, numbering: ListNumbering): BodyItem[] {
+  const items: BodyItem[] = [];
+  let text = "";
+  const properties = childrenNamed(paragraph, "pPr")[0];
+  const numberingProperties = properties && childrenNamed(properties, "numPr")[0];
+  if (numberingProperties) {
+    const numId = wordAttribute(childrenNamed(numberingProperties, "numId")[0], "val");
+    const ilvl = Number(wordAttribute(childrenNamed(numberingProperties, "ilvl")[0], "val") ?? 0);
+    const label = numId ? numbering.label(numId, ilvl) : "";
+    if (label) text = `${label} `;
+  }
+  let hasImage = false;
+
+  const visit = (element: Element) => {
+    for (const child of Array.from(element.children)) {
+      const name = localNameOf(child);
+      if (name === "del" || name === "instrText" || name === "pPr" || name === "rPr") continue;
+      if (name === "t") {
+        text += child.textContent ?? "";
+      } else if (name === "tab") {
+        text += " ";
+      } else if (name === "br" || name === "cr") {
+        items.push({ kind: "line", text });
+        text = "";
+      } else if (name === "blip" || name === "imagedata") {
+        const id = child.getAttribute("r:embed") ?? child.getAttribute("r:id");
+        if (id) {
+          items.push({ kind: "line", text });
+          text = "";
+          items.push({ kind: "image", relationshipId: id });
+          hasImage = true;
+        }
+      } else {
+        visit(child);
+      }
+    }
+  };
+  visit(paragraph);
+  items.push({ kind: "line", text });
+
+  // A paragraph that only holds an image adds no lines, so it does not split a question.
+  return items
+    .map((item) => (item.kind === "line" ? { ...item, text: item.text.replace(/\s+/g, " ").trim() } : item))
+    .filter((item, i) => item.kind === "image" || item.text || (!hasImage && i === items.length - 1));
+}
+
+function readBody(body: Element, numbering: ListNumbering): BodyItem[] {
+  const items: BodyItem[] = [];
+  for (const child of Array.from(body.children)) {
+    const name = localNameOf(child);
+    if (name === "p") {
+      items.push(...readParagraph(child, numbering));
+    } else if (name === "tbl") {
+      // Table cells are read row by row as separate paragraphs.
+      for (const paragraph of descendantsNamed(child, "p")) items.push(...readParagraph(paragraph, numbering));
+    } else if (name === "sdt") {
+      const content = childrenNamed(child, "sdtContent")[0];
+      if (content) items.push(...readBody(content, numbering));
+    }
+  }
+  return items;
+}
+
+/* ---------------------------------- */
+/* Document                           */
+/* ---------------------------------- */
+
+async function readRelationships(zip: JSZip): Promise<Map<string, string>> {
+  const file = zip.file("word/_rels/document.xml.rels");
+  const targets = new Map<string, string>();
+  if (!file) return targets;
+  for (const rel of descendantsNamed(parseXml(await file.async("string")), "Relationship")) {
+    const target = rel.getAttribute("Target") ?? "";
+    if (rel.getAttribute("TargetMode") === "External") continue;
+    targets.set(rel.getAttribute("Id") ?? "", target.startsWith("/") ? target.slice(1) : `word/${target}`);
+  }
+  return targets;
+}
+
+/** Reads the question blocks of a .docx file, with the images that sit inside them. */
+export async function readDocx(data: ArrayBuffer): Promise<DocxDocument> {
+  const zip = await JSZip.loadAsync(data);
+  const documentFile = zip.file("word/document.xml");
+  if (!documentFile) {
+    return { blocks: [], warnings: ["This is not a Word document (it has no word/document.xml)."] };
+  }
+
+  const warnings: string[] = [];
+  const numbering = new ListNumbering((await zip.file("word/numbering.xml")?.async("string")) ?? null);
+  const relationships = await readRelationships(zip);
+  const body = descendantsNamed(parseXml(await documentFile.async("string")), "body")[0];
+  const items = body ? readBody(body, numbering) : [];
+
+  // Lines for the splitter, and each image anchored to the line before it.
+  const lines: string[] = [];
+  const images: { afterLine: number; file: File }[] = [];
+  for (const item of items) {
+    if (item.kind === "line") {
+      lines.push(item.text);
+      continue;
+    }
+    const path = relationships.get(item.relationshipId);
+    const entry = path ? zip.file(path) : null;
+    const fileName = path?.split("/").pop() ?? "image";
+    const type = IMAGE_TYPES[fileName.split(".").pop()?.toLowerCase() ?? ""];
+    if (!entry) continue;
+    if (!type) {
+      warnings.push(`${fileName} was skipped: only PNG, JPEG, GIF, BMP, WebP and SVG images can be imported.`);
+      continue;
+    }
+    images.push({ afterLine: lines.length - 1, file: new File([await entry.async("uint8array")], fileName, { type }) });
+  }
+
+  const blocks = splitQuizLines(lines).map(({ text, startLine }) => ({ text, startLine, images: [] as File[] }));
+  if (blocks.length === 0) return { blocks: [], warnings };
+  for (const image of images) {
+    const owner = [...blocks].reverse().find((b) => b.startLine <= image.afterLine) ?? blocks[0];
+    owner.images.push(image.file);
+  }
+
+  return {
+    blocks: blocks.map(({ text, images }) => ({ text, image: images[0], extraImages: Math.max(0, images.length - 1) })),
+    warnings,
+  };
+}
@@ -0,0 +1,11 @@
+// src/lib/download.ts
+
+/** Saves `content` as a file through the browser's download prompt. */
+export function downloadFile(content: BlobPart, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,159 @@
+/**
+ * @fileOverview Finds duplicate questions in the bank, locally and deterministically.
+ *
+ * Exact duplicates share a fingerprint: the stem and the set of correct answers after
+ * `normalizeText`, so "Paris." and "paris" or "عاصمةُ" and "عاصمه" count as the same. Near duplicates are questions whose stems
+ * score at least the threshold with `diceSimilarity`; they are linked transitively
+ * into groups. Only stems that share an uncommon pair of adjacent words and most of
+ * their words are scored, so the whole bank never has to be compared pair by pair.
+ */
+import { type Question } from "@/types";
+import { diceSimilarity } from "@/components/qbank/similar-options";
+import { normalizeText } from "@/lib/normalize-text";
+
+/** Stem similarity from which two questions are shown as near duplicates. */
+export const DEFAULT_NEAR_THRESHOLD = 0.9;
+// Character-level similarity this high needs most words in common: word overlap
+// (Jaccard) may fall at most this far below the threshold.
+const WORD_OVERLAP_SLACK = 0.3;
+// A word pair in more than this share of stems (but at least this many) is too common
+// to suggest a duplicate.
+const COMMON_SHINGLE_SHARE = 0.02;
+const MIN_COMMON_POSTINGS = 50;
+
+export type DuplicateGroup = {
+  kind: "exact" | "near";
+  questions: Question[];
+  /** Lowest similarity between linked questions in the group; 1 for exact groups. */
+  similarity: number;
+  /** Whether every question in the group has the same correct answers. */
+  sameAnswers: boolean;
+};
+
+export type DuplicateReport = {
+  exact: DuplicateGroup[];
+  near: DuplicateGroup[];
+};
+
+function answerSet(q: Question): string {
+  const answers = Array.isArray(q.correctAnswer) ? q.correctAnswer : q.correctAnswer ? [q.correctAnswer] : [];
+  return [...new Set(answers.map((a) => normalizeText(a)))].sort().join("|");
+}
+
+/** The key exact duplicates share: folded stem plus folded, sorted answer set. */
+export function fingerprint(q: Question): string {
+  return `${normalizeText(q.questionText)}::${answerSet(q)}`;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared++;
+  return shared / (a.size + b.size - shared || 1);
+}
+
+// Pairs of stems that share a rare pair of adjacent words, or are identical. Word pairs
+// found in many stems ("which of", "the following") would pair up most of the bank, so
+// they do not create candidates on their own.
+function candidatePairs(stems: string[]): [number, number][] {
+  const postings = new Map<string, number[]>();
+  stems.forEach((stem, i) => {
+    const words = stem.split(" ").filter(Boolean);
+    const shingles = new Set(words.length > 1 ? words.slice(1).map((w, k) => `${words[k]} ${w}`) : words);
+    for (const shingle of shingles) {
+      const list = postings.get(shingle);
+      if (list) list.push(i);
+      else postings.set(shingle, [i]);
+    }
+  });
+
+  const seen = new Set<string>();
+  const pairs: [number, number][] = [];
+  const add = (i: number, j: number) => {
+    const key = `${i}:${j}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    pairs.push([i, j]);
+  };
+  const maxPostings = Math.max(MIN_COMMON_POSTINGS, stems.length * COMMON_SHINGLE_SHARE);
+  for (const list of postings.values()) {
+    if (list.length < 2 || list.length > maxPostings) continue;
+    for (let a = 0; a < list.length; a++) for (let b = a + 1; b < list.length; b++) add(list[a], list[b]);
+  }
+
+  const byStem = new Map<string, number[]>();
+  stems.forEach((stem, i) => byStem.set(stem, [...(byStem.get(stem) ?? []), i]));
+  for (const list of byStem.values()) {
+    for (let a = 1; a < list.length; a++) add(list[0], list[a]);
+  }
+  return pairs;
+}
+
+const byCreatedAt = (a: Question, b: Question) => (a.createdAt ?? "").localeCompare(b.createdAt ?? "");
+
+function findRoot(parent: number[], i: number): number {
+  while (parent[i] !== i) {
+    parent[i] = parent[parent[i]];
+    i = parent[i];
+  }
+  return i;
+}
+
+export function findDuplicateGroups(
+  questions: Question[],
+  threshold: number = DEFAULT_NEAR_THRESHOLD
+): DuplicateReport {
+  // Exact groups first; each fingerprint is then one unit for the near search.
+  const byFingerprint = new Map<string, Question[]>();
+  for (const q of questions) {
+    const key = fingerprint(q);
+    byFingerprint.set(key, [...(byFingerprint.get(key) ?? []), q]);
+  }
+  const units = [...byFingerprint.values()].map((group) => group.sort(byCreatedAt));
+  const exact: DuplicateGroup[] = units
+    .filter((group) => group.length > 1)
+    .map((group) => ({ kind: "exact", questions: group, similarity: 1, sameAnswers: true }));
+
+  const stems = units.map((group) => normalizeText(group[0].questionText));
+  const wordSets = stems.map((stem) => new Set(stem.split(" ").filter(Boolean)));
+  const candidates = candidatePairs(stems);
+
+  const parent = units.map((_, i) => i);
+  const links: { a: number; b: number; score: number }[] = [];
+  for (const [i, j] of candidates) {
+    if (!stems[i] || !stems[j]) continue;
+    // Cheap bounds before the character comparison: similar length, mostly the same words.
+    const [shorter, longer] = stems[i].length < stems[j].length ? [stems[i], stems[j]] : [stems[j], stems[i]];
+    if (shorter.length < longer.length * (threshold / (2 - threshold))) continue;
+    if (jaccard(wordSets[i], wordSets[j]) < threshold - WORD_OVERLAP_SLACK) continue;
+    const score = stems[i] === stems[j] ? 1 : diceSimilarity(stems[i], stems[j]);
+    if (score < threshold) continue;
+    links.push({ a: i, b: j, score });
+    parent[findRoot(parent, j)] = findRoot(parent, i);
+  }
+
+  const members = new Map<number, number[]>();
+  units.forEach((_, i) => {
+    const root = findRoot(parent, i);
+    members.set(root, [...(members.get(root) ?? []), i]);
+  });
+  const lowestLink = new Map<number, number>();
+  for (const { a, score } of links) {
+    const root = findRoot(parent, a);
+    lowestLink.set(root, Math.min(lowestLink.get(root) ?? 1, score));
+  }
+
+  const near: DuplicateGroup[] = [...members.entries()]
+    .filter(([, indexes]) => indexes.length > 1)
+    .map(([root, indexes]) => {
+      const group = indexes.flatMap((i) => units[i]).sort(byCreatedAt);
+      return {
+        kind: "near" as const,
+        questions: group,
+        similarity: lowestLink.get(root) ?? threshold,
+        sameAnswers: new Set(group.map(answerSet)).size === 1,
+      };
+    })
+    .sort((a, b) => b.similarity - a.similarity);
+
+  return { exact, near };
+}
@@ -0,0 +1,65 @@
+// src/lib/formats/common.ts
+import { type Question } from "@/types";
+
+const ARABIC_SCRIPT = /[\u0600-\u06FF]/;
+
+export function detectLanguage(text: string): "ar" | "en" {
+  return ARABIC_SCRIPT.test(text) ? "ar" : "en";
+}
+
+/** The correct answers of a question as a list, whatever its type. */
+export function correctAnswersOf(question: Pick<Question, "correctAnswer">): string[] {
+  const answer = question.correctAnswer;
+  if (Array.isArray(answer)) return answer;
+  return answer ? [answer] : [];
+}
+
+/** The last segment of a Moodle-style category path, e.g. "$course$/top/Chapter 1". */
+export function chapterFromCategory(path: string): string {
+  const segments = path
+    .split("/")
+    .map((s) => s.trim())
+    .filter((s) => s && !/^\$\w+\$$/.test(s) && s.toLowerCase() !== "top");
+  return segments[segments.length - 1] ?? "";
+}
+
+/** A category path that Moodle files questions under, one category per chapter. */
+export function categoryPath(question: Pick<Question, "subject" | "chapter">): string {
+  return ["$course$", "top", question.subject, question.chapter]
+    .map((s) => s?.trim().replace(/\//g, "-"))
+    .filter(Boolean)
+    .join("/");
+}
+
+/**
+ * Runs of consecutive questions that share a category, so an export can switch category
+ * as it goes without reordering the questions.
+ */
+export function splitByCategory(questions: Question[]): [string, Question[]][] {
+  const runs: [string, Question[]][] = [];
+  for (const q of questions) {
+    const key = categoryPath(q);
+    const last = runs[runs.length - 1];
+    if (last && last[0] === key) last[1].push(q);
+    else runs.push([key, [q]]);
+  }
+  return runs;
+}
+
+/** A short title for formats that want one, taken from the start of the question text. */
+export function questionTitle(text: string, maxLength = 60): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > maxLength ? `${line.slice(0, maxLength - 1)}…` : line;
+}
+
+/**
+ * Fractional grades for a multi-answer question: correct answers share 100%, wrong ones
+ * share -100% so that ticking everything scores nothing. Rounded the way Moodle lists them.
+ */
+export function multiAnswerWeights(correctCount: number, wrongCount: number) {
+  const round = (n: number) => Math.round(n * 100000) / 100000;
+  return {
+    correct: correctCount > 0 ? round(100 / correctCount) : 0,
+    wrong: wrongCount > 0 ? round(-100 / wrongCount) : 0,
+  };
+}
@@ -0,0 +1,236 @@
+/**
+ * @fileOverview GIFT, Moodle's plain-text question format.
+ *
+ * Imports multiple choice questions (`=right ~wrong`), multiple answer questions
+ * (`~%50%right ~%-50%wrong`, which become checkbox questions) and true/false
+ * questions (`{T}` / `{F}`). Essay, short answer, numerical and matching questions
+ * are skipped with a warning. `$CATEGORY:` lines set the chapter of the questions
+ * that follow, and general feedback (`####`) becomes the explanation. Tags use Moodle's
+ * `// [tag:name]` comments above a question.
+ */
+import { type Question } from "@/types";
+import { type ImportResult, type ImportedQuestion, type QuestionFileFormat } from "./types";
+import {
+  chapterFromCategory,
+  correctAnswersOf,
+  detectLanguage,
+  splitByCategory,
+  multiAnswerWeights,
+  questionTitle,
+} from "./common";
+
+// Characters with a meaning in GIFT; a backslash makes them literal.
+const SPECIAL = /[~=#{}:\\]/g;
+
+const escapeGift = (text: string) => text.replace(SPECIAL, (c) => `\\${c}`).replace(/\n/g, "\\n");
+
+// Escaped characters are swapped for private-use placeholders while the structure is
+// parsed, then swapped back. An escaped newline gets its own placeholder and is only
+// expanded inside a question's block, so a blank line in a stem or explanation does not
+// split the question.
+const PLACEHOLDER_BASE = 0xe000;
+const NEWLINE_PLACEHOLDER = "\ue100";
+const protect = (text: string) =>
+  text.replace(/\\([~=#{}:\\n])/g, (_, c: string) =>
+    c === "n" ? NEWLINE_PLACEHOLDER : String.fromCharCode(PLACEHOLDER_BASE + c.charCodeAt(0))
+  );
+const unprotect = (text: string) =>
+  text.replace(/[\uE000-\uE0FF]/g, (c) => String.fromCharCode(c.charCodeAt(0) - PLACEHOLDER_BASE));
+const expandNewlines = (text: string) => text.split(NEWLINE_PLACEHOLDER).join("\n");
+
+const HTML_TAG = /<\/?[a-z][a-z0-9]*(\s[^>]*)?\/?>/gi;
+
+// A "[plain]" or "[markdown]" prefix keeps the text as written; otherwise it may be
+// HTML, which is flattened to plain text.
+function clean(text: string): string {
+  const format = text.match(/^\s*\[(html|markdown|plain|moodle)\]/i);
+  let result = unprotect(format ? text.slice(format[0].length) : text);
+  if (!format || !/^(plain|markdown)$/i.test(format[1])) {
+    result = result.replace(/<br\s*\/?>/gi, "\n").replace(HTML_TAG, "");
+  }
+  return result.replace(/[ \t]+/g, " ").trim();
+}
+
+/* ---------------------------------- */
+/* Import                             */
+/* ---------------------------------- */
+
+type GiftAnswer = { text: string; weight: number; feedback: string };
+
+function parseAnswers(block: string): { answers: GiftAnswer[]; generalFeedback: string } {
+  const [body, ...rest] = block.split("####");
+  const generalFeedback = clean(rest.join("####"));
+  const answers: GiftAnswer[] = [];
+  // Each answer starts at "=" or "~"; its feedback follows a single "#".
+  for (const match of body.matchAll(/([=~])([^=~]*)/g)) {
+    const [textPart, ...feedback] = match[2].split("#");
+    let text = textPart;
+    let weight = match[1] === "=" ? 100 : 0;
+    const percent = text.match(/^\s*%(-?\d+(?:\.\d+)?)%/);
+    if (percent) {
+      weight = parseFloat(percent[1]);
+      text = text.slice(percent[0].length);
+    }
+    answers.push({ text: clean(text), weight, feedback: clean(feedback.join("#")) });
+  }
+  return { answers: answers.filter((a) => a.text), generalFeedback };
+}
+
+function parseQuestionBlock(block: string, chapter: string, warnings: string[]): ImportedQuestion | null {
+  let text = block;
+  let title = "";
+  const titled = text.match(/^\s*::([\s\S]*?)::/);
+  if (titled) {
+    title = clean(titled[1]);
+    text = text.slice(titled[0].length);
+  }
+
+  const open = text.indexOf("{");
+  const close = text.lastIndexOf("}");
+  const stemBefore = open === -1 ? text : text.slice(0, open);
+  const stemAfter = close === -1 ? "" : text.slice(close + 1);
+  const answerBlock = open === -1 || close < open ? null : text.slice(open + 1, close).trim();
+  // "Missing word" questions have text after the answers; the gap is shown as a blank.
+  const questionText = clean(stemAfter.trim() ? `${stemBefore.trim()} _____ ${stemAfter.trim()}` : stemBefore);
+  const label = title || questionTitle(questionText) || "(untitled)";
+
+  if (answerBlock === null) {
+    warnings.push(`Skipped "${label}": it has no answers.`);
+    return null;
+  }
+
+  const base = {
+    questionText,
+    subject: "",
+    chapter,
+    difficulty: "medium",
+    language: detectLanguage(questionText),
+    source: title ? `GIFT: ${title}` : "GIFT",
+  };
+
+  const trueFalse = answerBlock.match(/^(T|TRUE|F|FALSE)\b([\s\S]*)$/i);
+  if (trueFalse) {
+    const isTrue = trueFalse[1].toUpperCase().startsWith("T");
+    const feedback = trueFalse[2].split("####");
+    return {
+      ...base,
+      options: ["True", "False"],
+      correctAnswer: isTrue ? "True" : "False",
+      explanation: clean(feedback[1] ?? "") || undefined,
+      questionType: "mcq",
+    };
+  }
+
+  if (!answerBlock || answerBlock.startsWith("#") || answerBlock.includes("->") || !answerBlock.includes("~")) {
+    const kind = !answerBlock
+      ? "essay"
+      : answerBlock.startsWith("#")
+        ? "numerical"
+        : answerBlock.includes("->")
+          ? "matching"
+          : "short answer";
+    warnings.push(`Skipped "${label}": ${kind} questions are not supported.`);
+    return null;
+  }
+
+  const { answers, generalFeedback } = parseAnswers(answerBlock);
+  const correct = answers.filter((a) => a.weight > 0);
+  const multiple = answers.some((a) => a.weight > 0 && a.weight < 100) || correct.length > 1;
+  const explanation =
+    generalFeedback ||
+    correct
+      .map((a) => a.feedback)
+      .filter(Boolean)
+      .join("\n");
+
+  return {
+    ...base,
+    options: answers.map((a) => a.text),
+    correctAnswer: multiple ? correct.map((a) => a.text) : correct[0]?.text ?? "",
+    explanation: explanation || undefined,
+    questionType: multiple ? "checkbox" : "mcq",
+  };
+}
+
+export function parseGift(input: string): ImportResult {
+  const questions: ImportedQuestion[] = [];
+  const warnings: string[] = [];
+  let chapter = "";
+
+  const lines = protect(input.replace(/\r\n?/g, "\n")).split("\n");
+
+  // Questions are separated by blank lines; "$CATEGORY:" lines stand on their own.
+  type Block = { text: string; tags: string[] } | { category: string };
+  const blocks: Block[] = [];
+  let current: string[] = [];
+  let tags: string[] = [];
+  const flush = () => {
+    if (current.join("").trim()) blocks.push({ text: current.join("\n"), tags });
+    if (current.length > 0) tags = [];
+    current = [];
+  };
+  for (const line of lines) {
+    const category = line.match(/^\s*\$CATEGORY:\s*(.*)$/);
+    if (line.trim().startsWith("//")) {
+      for (const tag of line.matchAll(/\[tag:([^\]]+)\]/g)) tags.push(unprotect(expandNewlines(tag[1])).trim());
+    } else if (category) {
+      flush();
+      blocks.push({ category: category[1] });
+    } else if (!line.trim()) {
+      flush();
+    } else {
+      current.push(line);
+    }
+  }
+  flush();
+
+  for (const block of blocks) {
+    if ("category" in block) {
+      chapter = chapterFromCategory(unprotect(expandNewlines(block.category)));
+      continue;
+    }
+    const question = parseQuestionBlock(expandNewlines(block.text), chapter, warnings);
+    if (question) questions.push(block.tags.length > 0 ? { ...question, topicTags: block.tags } : question);
+  }
+  return { questions, warnings };
+}
+
+/* ---------------------------------- */
+/* Export                             */
+/* ---------------------------------- */
+
+function questionToGift(q: Question): string {
+  const options = q.options ?? [];
+  const correct = new Set(correctAnswersOf(q));
+  const weights = multiAnswerWeights(correct.size, options.length - correct.size);
+  const answerLines = options.map((option) => {
+    if (q.questionType === "mcq") return `\t${correct.has(option) ? "=" : "~"}${escapeGift(option)}`;
+    const weight = correct.has(option) ? weights.correct : weights.wrong;
+    return `\t~%${weight}%${escapeGift(option)}`;
+  });
+  if (q.explanation?.trim()) answerLines.push(`\t####${escapeGift(q.explanation.trim())}`);
+
+  return [
+    ...(q.topicTags?.length ? [`// ${q.topicTags.map((t) => `[tag:${t.replace(/[\[\]\n]/g, " ")}]`).join(" ")}`] : []),
+    `::${escapeGift(questionTitle(q.questionText))}::[plain]${escapeGift(q.questionText)} {`,
+    ...answerLines,
+    `}`,
+  ].join("\n");
+}
+
+export function toGift(questions: Question[]): string {
+  return splitByCategory(questions)
+    .map(([category, group]) => [`$CATEGORY: ${category}`, ...group.map(questionToGift)].join("\n\n"))
+    .join("\n\n")
+    .concat("\n");
+}
+
+export const giftFormat: QuestionFileFormat = {
+  id: "gift",
+  label: "GIFT",
+  extensions: [".gift", ".txt"],
+  mimeType: "text/plain",
+  detect: (text) => /\{[\s\S]*[=~][\s\S]*\}/.test(text) && !/<quiz[\s>]/.test(text),
+  parse: parseGift,
+  serialize: toGift,
+};
@@ -0,0 +1,25 @@
+// src/lib/formats/index.ts
+import { giftFormat } from "./gift";
+import { moodleXmlFormat } from "./moodle-xml";
+import { type QuestionFileFormat } from "./types";
+
+export type { ImportResult, ImportedQuestion, QuestionFileFormat } from "./types";
+
+/** Quiz file formats that can be both imported and exported. */
+export const QUESTION_FILE_FORMATS: QuestionFileFormat[] = [moodleXmlFormat, giftFormat];
+
+export function getQuestionFileFormat(id: string): QuestionFileFormat | undefined {
+  return QUESTION_FILE_FORMATS.find((f) => f.id === id);
+}
+
+/** Picks the format by extension, falling back to sniffing the contents. */
+export function detectQuestionFileFormat(fileName: string, text: string): QuestionFileFormat | undefined {
+  const name = fileName.toLowerCase();
+  const byExtension = QUESTION_FILE_FORMATS.filter((f) => f.extensions.some((ext) => name.endsWith(ext)));
+  if (byExtension.length === 1) return byExtension[0];
+  return (byExtension.length > 0 ? byExtension : QUESTION_FILE_FORMATS).find((f) => f.detect(text));
+}
+
+export function exportFileName(format: QuestionFileFormat, date = new Date()) {
+  return `questions-${date.toISOString().slice(0, 10)}${format.extensions[0]}`;
+}
@@ -0,0 +1,188 @@
+/**
+ * @fileOverview Moodle XML question files.
+ *
+ * Imports `multichoice` (single answer -> mcq, multiple answers -> checkbox) and
+ * `truefalse` questions. Other question types are skipped with a warning. A
+ * `category` entry sets the chapter of the questions that follow it, and each
+ * question's general feedback becomes its explanation.
+ *
+ * Parsing uses the browser's DOMParser, so import runs on the client.
+ */
+import { type Question } from "@/types";
+import { type ImportResult, type ImportedQuestion, type QuestionFileFormat } from "./types";
+import {
+  chapterFromCategory,
+  correctAnswersOf,
+  detectLanguage,
+  splitByCategory,
+  multiAnswerWeights,
+  questionTitle,
+} from "./common";
+
+/* ---------------------------------- */
+/* Import                             */
+/* ---------------------------------- */
+
+// Moodle text is usually HTML. Questions here are plain text, so line breaks are kept
+// and everything else is flattened.
+function htmlToText(html: string): string {
+  if (!html.trim()) return "";
+  const withBreaks = html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|h[1-6])>/gi, "\n");
+  const doc = new DOMParser().parseFromString(withBreaks, "text/html");
+  return (doc.body.textContent ?? "")
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+const childrenNamed = (parent: Element, tag: string) => Array.from(parent.children).filter((c) => c.tagName === tag);
+
+// The `<text>` directly inside `element`, which is where Moodle keeps every string.
+function textOf(element: Element | undefined): string {
+  const text = element && childrenNamed(element, "text")[0];
+  return text ? htmlToText(text.textContent ?? "") : "";
+}
+
+const childText = (parent: Element, tag: string) => textOf(childrenNamed(parent, tag)[0]);
+
+function parseQuestionElement(
+  element: Element,
+  chapter: string,
+  warnings: string[]
+): ImportedQuestion | null {
+  const type = element.getAttribute("type") ?? "";
+  const name = childText(element, "name");
+  const questionText = childText(element, "questiontext");
+  const label = name || questionTitle(questionText) || "(untitled)";
+
+  if (type !== "multichoice" && type !== "truefalse") {
+    warnings.push(`Skipped "${label}": ${type || "unknown"} questions are not supported.`);
+    return null;
+  }
+  if (element.querySelector("questiontext file")) {
+    warnings.push(`"${label}": embedded images were not imported.`);
+  }
+
+  const answers = childrenNamed(element, "answer")
+    .map((answer) => ({
+      text: textOf(answer),
+      fraction: parseFloat(answer.getAttribute("fraction") ?? "0") || 0,
+      feedback: childText(answer, "feedback"),
+    }))
+    .map((a) => ({
+      ...a,
+      // truefalse answers are the words "true" and "false".
+      text: type === "truefalse" ? (a.text.toLowerCase() === "true" ? "True" : "False") : a.text,
+    }))
+    .filter((a) => a.text);
+
+  const correct = answers.filter((a) => a.fraction > 0);
+  const single = type === "truefalse" || childrenNamed(element, "single")[0]?.textContent?.trim() !== "false";
+  const explanation =
+    childText(element, "generalfeedback") ||
+    correct
+      .map((a) => a.feedback)
+      .filter(Boolean)
+      .join("\n");
+  const tags = childrenNamed(element, "tags")
+    .flatMap((tags) => childrenNamed(tags, "tag"))
+    .map(textOf)
+    .filter(Boolean);
+
+  return {
+    questionText,
+    options: answers.map((a) => a.text),
+    correctAnswer: single ? correct.sort((a, b) => b.fraction - a.fraction)[0]?.text ?? "" : correct.map((a) => a.text),
+    explanation: explanation || undefined,
+    subject: "",
+    chapter,
+    topicTags: tags.length > 0 ? tags : undefined,
+    questionType: single ? "mcq" : "checkbox",
+    difficulty: "medium",
+    language: detectLanguage(questionText),
+    source: name ? `Moodle: ${name}` : "Moodle",
+  };
+}
+
+export function parseMoodleXml(xml: string): ImportResult {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0 || doc.documentElement?.tagName !== "quiz") {
+    return { questions: [], warnings: ["This is not a Moodle XML quiz file."] };
+  }
+
+  const questions: ImportedQuestion[] = [];
+  const warnings: string[] = [];
+  let chapter = "";
+  for (const element of childrenNamed(doc.documentElement, "question")) {
+    if (element.getAttribute("type") === "category") {
+      chapter = chapterFromCategory(childText(element, "category"));
+      continue;
+    }
+    const question = parseQuestionElement(element, chapter, warnings);
+    if (question) questions.push(question);
+  }
+  return { questions, warnings };
+}
+
+/* ---------------------------------- */
+/* Export                             */
+/* ---------------------------------- */
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Plain text as Moodle HTML, wrapped in CDATA as Moodle's own exports do.
+const htmlText = (text: string) =>
+  `<text><![CDATA[${escapeXml(text).replace(/\n/g, "<br>").replace(/]]>/g, "]]]]><![CDATA[>")}]]></text>`;
+
+function questionToXml(q: Question): string {
+  const options = q.options ?? [];
+  const correct = new Set(correctAnswersOf(q));
+  const single = q.questionType === "mcq";
+  const weights = multiAnswerWeights(correct.size, options.length - correct.size);
+  const fraction = (option: string) =>
+    single ? (correct.has(option) ? 100 : 0) : correct.has(option) ? weights.correct : weights.wrong;
+
+  const lines = [
+    `  <question type="multichoice">`,
+    `    <name><text>${escapeXml(questionTitle(q.questionText))}</text></name>`,
+    `    <questiontext format="html">${htmlText(q.questionText)}</questiontext>`,
+    `    <generalfeedback format="html">${htmlText(q.explanation ?? "")}</generalfeedback>`,
+    `    <defaultgrade>1</defaultgrade>`,
+    `    <single>${single}</single>`,
+    `    <shuffleanswers>true</shuffleanswers>`,
+    `    <answernumbering>ABCD</answernumbering>`,
+    ...options.map(
+      (option) =>
+        `    <answer fraction="${fraction(option)}" format="html">${htmlText(option)}<feedback><text></text></feedback></answer>`
+    ),
+  ];
+  if (q.topicTags?.length) {
+    lines.push(`    <tags>${q.topicTags.map((t) => `<tag><text>${escapeXml(t)}</text></tag>`).join("")}</tags>`);
+  }
+  lines.push(`  </question>`);
+  return lines.join("\n");
+}
+
+export function toMoodleXml(questions: Question[]): string {
+  const body = splitByCategory(questions).flatMap(([category, group]) => [
+    `  <question type="category">`,
+    `    <category><text>${escapeXml(category)}</text></category>`,
+    `  </question>`,
+    ...group.map(questionToXml),
+  ]);
+  return [`<?xml version="1.0" encoding="UTF-8"?>`, `<quiz>`, ...body, `</quiz>`, ``].join("\n");
+}
+
+export const moodleXmlFormat: QuestionFileFormat = {
+  id: "moodle-xml",
+  label: "Moodle XML",
+  extensions: [".xml"],
+  mimeType: "application/xml",
+  detect: (text) => /<quiz[\s>]/.test(text.slice(0, 2000)),
+  parse: parseMoodleXml,
+  serialize: toMoodleXml,
+};
@@ -0,0 +1,329 @@
+/**
+ * @fileOverview IMS QTI 2.1 content packages, the zip files Canvas, Blackboard and
+ * most other LMSs import.
+ *
+ * Each question becomes an `assessmentItem` with a `choiceInteraction`: single
+ * cardinality for mcq questions and multiple cardinality for checkbox questions, with
+ * the correct choices in the response declaration. The explanation is modal feedback,
+ * and a question's image is packaged as a resource file next to its item. Subject,
+ * chapter, tags and difficulty are kept in each resource's LOM metadata in
+ * `imsmanifest.xml`, which is how the package round-trips back into the bank.
+ *
+ * Reading a package uses the browser's DOMParser, so import runs on the client.
+ */
+import JSZip from "jszip";
+import { type Question } from "@/types";
+import { type BackupImage } from "@/lib/backup";
+import { type ImportResult, type ImportedQuestion } from "./types";
+import { correctAnswersOf, detectLanguage, questionTitle } from "./common";
+import { childrenNamed, descendantsNamed, parseXml } from "./xml";
+
+const MANIFEST = "imsmanifest.xml";
+const ITEM_RESOURCE_TYPE = "imsqti_item_xmlv2p1";
+
+// LOM's difficulty vocabulary says "difficult" where the bank says "hard".
+const LOM_DIFFICULTY: Record<string, string> = { easy: "easy", medium: "medium", hard: "difficult" };
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// QTI identifiers must be XML names, which database ids are not guaranteed to be.
+const itemIdentifier = (question: Question) => `Q_${question.id.replace(/[^A-Za-z0-9_.-]/g, "_")}`;
+
+const choiceIdentifier = (index: number) => (index < 26 ? String.fromCharCode(65 + index) : `CHOICE_${index + 1}`);
+
+const paragraphs = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => `<p>${escapeXml(line)}</p>`)
+    .join("");
+
+/* ---------------------------------- */
+/* Export                             */
+/* ---------------------------------- */
+
+function itemXml(question: Question, identifier: string, imageHref: string | null): string {
+  const options = question.options ?? [];
+  const correct = new Set(correctAnswersOf(question));
+  const multiple = question.questionType === "checkbox";
+  const correctValues = options
+    .map((option, i) => (correct.has(option) ? `<value>${choiceIdentifier(i)}</value>` : ""))
+    .join("");
+  const explanation = question.explanation?.trim();
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1"`,
+    `  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"`,
+    `  xsi:schemaLocation="http://www.imsglobal.org/xsd/imsqti_v2p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd"`,
+    `  identifier="${identifier}" title="${escapeXml(questionTitle(question.questionText))}"`,
+    `  adaptive="false" timeDependent="false" xml:lang="${escapeXml(question.language)}">`,
+    `  <responseDeclaration identifier="RESPONSE" cardinality="${multiple ? "multiple" : "single"}" baseType="identifier">`,
+    `    <correctResponse>${correctValues}</correctResponse>`,
+    `  </responseDeclaration>`,
+    `  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">`,
+    `    <defaultValue><value>0</value></defaultValue>`,
+    `  </outcomeDeclaration>`,
+    `  <outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>`,
+    `  <itemBody>`,
+    `    <div class="question">${paragraphs(question.questionText)}</div>`,
+    ...(imageHref ? [`    <p><img src="${escapeXml(imageHref)}" alt=""/></p>`] : []),
+    `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${multiple ? 0 : 1}">`,
+    ...options.map((option, i) => `      <simpleChoice identifier="${choiceIdentifier(i)}">${escapeXml(option)}</simpleChoice>`),
+    `    </choiceInteraction>`,
+    `  </itemBody>`,
+    `  <responseProcessing>`,
+    `    <responseCondition>`,
+    `      <responseIf>`,
+    `        <match><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></match>`,
+    `        <setOutcomeValue identifier="SCORE"><baseValue baseType="float">1</baseValue></setOutcomeValue>`,
+    `      </responseIf>`,
+    `    </responseCondition>`,
+    ...(explanation
+      ? [`    <setOutcomeValue identifier="FEEDBACK"><baseValue baseType="identifier">EXPLANATION</baseValue></setOutcomeValue>`]
+      : []),
+    `  </responseProcessing>`,
+    ...(explanation
+      ? [`  <modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="show">${paragraphs(explanation)}</modalFeedback>`]
+      : []),
+    `</assessmentItem>`,
+    ``,
+  ].join("\n");
+}
+
+const lomString = (value: string) => `<imsmd:string>${escapeXml(value)}</imsmd:string>`;
+
+function taxonPath(source: string, value: string) {
+  return `<imsmd:taxonPath><imsmd:source>${lomString(source)}</imsmd:source><imsmd:taxon><imsmd:entry>${lomString(value)}</imsmd:entry></imsmd:taxon></imsmd:taxonPath>`;
+}
+
+function resourceXml(question: Question, identifier: string, files: string[]): string {
+  const keywords = (question.topicTags ?? []).map((tag) => `<imsmd:keyword>${lomString(tag)}</imsmd:keyword>`).join("");
+  const difficulty = LOM_DIFFICULTY[question.difficulty];
+  return [
+    `    <resource identifier="${identifier}" type="${ITEM_RESOURCE_TYPE}" href="${files[0]}">`,
+    `      <metadata>`,
+    `        <imsmd:lom>`,
+    `          <imsmd:general><imsmd:title>${lomString(questionTitle(question.questionText))}</imsmd:title>${keywords}</imsmd:general>`,
+    ...(difficulty
+      ? [`          <imsmd:educational><imsmd:difficulty><imsmd:source>LOMv1.0</imsmd:source><imsmd:value>${difficulty}</imsmd:value></imsmd:difficulty></imsmd:educational>`]
+      : []),
+    `          <imsmd:classification><imsmd:purpose><imsmd:source>LOMv1.0</imsmd:source><imsmd:value>discipline</imsmd:value></imsmd:purpose>${taxonPath("subject", question.subject)}${taxonPath("chapter", question.chapter)}</imsmd:classification>`,
+    `        </imsmd:lom>`,
+    `      </metadata>`,
+    ...files.map((href) => `      <file href="${escapeXml(href)}"/>`),
+    `    </resource>`,
+  ].join("\n");
+}
+
+/**
+ * Whether `question` can be packaged. A `choiceInteraction` needs at least one choice,
+ * and LMSs reject the whole package over an item without one.
+ */
+export const canExportToQti = (question: Question) => (question.options ?? []).some((o) => o.trim());
+
+/**
+ * Zips `questions` into a QTI 2.1 content package. `images` holds the image of each
+ * question that has one, keyed by question id; questions without an entry are exported
+ * without their image. Questions without options are left out; see `canExportToQti`.
+ */
+export async function buildQtiPackage(
+  questions: Question[],
+  images: Record<string, BackupImage> = {}
+): Promise<Uint8Array> {
+  const zip = new JSZip();
+  const resources = questions.filter(canExportToQti).map((question) => {
+    const identifier = itemIdentifier(question);
+    const image = images[question.id];
+    const imageHref = image ? `images/${identifier}-${image.fileName.replace(/[^\w.-]/g, "_")}` : null;
+    zip.file(`${identifier}.xml`, itemXml(question, identifier, imageHref));
+    if (image && imageHref) zip.file(imageHref, image.data, { base64: true });
+    return resourceXml(question, identifier, [`${identifier}.xml`, ...(imageHref ? [imageHref] : [])]);
+  });
+
+  zip.file(
+    MANIFEST,
+    [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"`,
+      `  xmlns:imsmd="http://ltsc.ieee.org/xsd/LOM"`,
+      `  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"`,
+      `  xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/qtiv2p1_imscpv1p2_v1p0.xsd http://ltsc.ieee.org/xsd/LOM http://www.imsglobal.org/xsd/imsmd_loose_v1p3p2.xsd"`,
+      `  identifier="MANIFEST-${Date.now()}">`,
+      `  <metadata><schema>QTIv2.1 Package</schema><schemaversion>1.0.0</schemaversion></metadata>`,
+      `  <organizations/>`,
+      `  <resources>`,
+      ...resources,
+      `  </resources>`,
+      `</manifest>`,
+      ``,
+    ].join("\n")
+  );
+  return zip.generateAsync({ type: "uint8array", compression: "DEFLATE" });
+}
+
+export function qtiPackageFileName(date = new Date()) {
+  return `questions-${date.toISOString().slice(0, 10)}-qti.zip`;
+}
+
+/* ---------------------------------- */
+/* Import                             */
+/* ---------------------------------- */
+
+export type QtiImportResult = ImportResult & {
+  /** The image of each question, aligned with `questions`. */
+  images: (File | undefined)[];
+};
+
+const cleanText = (text: string | null | undefined) => (text ?? "").replace(/\s+/g, " ").trim();
+
+// Paragraph-level text, one line per block; falls back to the whole element's text.
+function blockText(element: Element | undefined): string {
+  if (!element) return "";
+  const blocks = descendantsNamed(element, "p").concat(descendantsNamed(element, "div").filter((d) => d.children.length === 0));
+  if (blocks.length === 0) return cleanText(element.textContent);
+  return blocks.map((b) => cleanText(b.textContent)).join("\n").trim();
+}
+
+type ResourceMetadata = { subject: string; chapter: string; topicTags: string[]; difficulty: string };
+
+function readResourceMetadata(resource: Element): ResourceMetadata {
+  const taxon = (source: string) => {
+    const path = descendantsNamed(resource, "taxonPath").find((p) => cleanText(descendantsNamed(p, "source")[0]?.textContent) === source);
+    return path ? cleanText(descendantsNamed(path, "entry")[0]?.textContent) : "";
+  };
+  const lomDifficulty = cleanText(descendantsNamed(descendantsNamed(resource, "difficulty")[0] ?? resource, "value")[0]?.textContent);
+  const difficulty = Object.keys(LOM_DIFFICULTY).find((key) => LOM_DIFFICULTY[key] === lomDifficulty) ?? "medium";
+  return {
+    subject: taxon("subject"),
+    chapter: taxon("chapter"),
+    topicTags: descendantsNamed(resource, "keyword").map((k) => cleanText(k.textContent)).filter(Boolean),
+    difficulty,
+  };
+}
+
+function readItem(xml: string, metadata: ResourceMetadata, warnings: string[]): { question: ImportedQuestion; imageSrc?: string } | null {
+  const doc = parseXml(xml);
+  const item = descendantsNamed(doc, "assessmentItem")[0];
+  if (!item) return null;
+  const label = item.getAttribute("title") || item.getAttribute("identifier") || "(untitled)";
+
+  const interactions = descendantsNamed(item, "choiceInteraction");
+  if (interactions.length !== 1 || descendantsNamed(item, "itemBody").length !== 1) {
+    warnings.push(`Skipped "${label}": only items with a single choice interaction are supported.`);
+    return null;
+  }
+  const interaction = interactions[0];
+  const body = descendantsNamed(item, "itemBody")[0];
+
+  const choices = childrenNamed(interaction, "simpleChoice").map((choice) => ({
+    identifier: choice.getAttribute("identifier") ?? "",
+    text: cleanText(choice.textContent),
+  }));
+
+  const declaration = descendantsNamed(item, "responseDeclaration").find(
+    (d) => d.getAttribute("identifier") === interaction.getAttribute("responseIdentifier")
+  );
+  const correctIds = new Set(
+    descendantsNamed(descendantsNamed(declaration ?? item, "correctResponse")[0] ?? item, "value").map((v) => cleanText(v.textContent))
+  );
+  const correct = choices.filter((c) => correctIds.has(c.identifier)).map((c) => c.text);
+  const multiple = declaration?.getAttribute("cardinality") === "multiple";
+
+  // The question is everything in the body apart from the interaction itself.
+  const stem = body.cloneNode(true) as Element;
+  descendantsNamed(stem, "choiceInteraction").forEach((e) => e.parentNode?.removeChild(e));
+  const questionText = blockText(stem);
+  const imageSrc = descendantsNamed(stem, "img")[0]?.getAttribute("src") ?? undefined;
+  const explanation = descendantsNamed(item, "modalFeedback").map(blockText).filter(Boolean).join("\n");
+
+  return {
+    question: {
+      questionText,
+      options: choices.map((c) => c.text),
+      correctAnswer: multiple ? correct : correct[0] ?? "",
+      explanation: explanation || undefined,
+      subject: metadata.subject,
+      chapter: metadata.chapter,
+      topicTags: metadata.topicTags.length > 0 ? metadata.topicTags : undefined,
+      questionType: multiple ? "checkbox" : "mcq",
+      difficulty: metadata.difficulty,
+      language: item.getAttribute("xml:lang") || detectLanguage(questionText),
+      source: "QTI",
+    },
+    imageSrc,
+  };
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+};
+
+// Resolves `href` against the folder of the file that refers to it.
+function resolvePath(from: string, href: string): string {
+  const parts = from.split("/").slice(0, -1);
+  for (const segment of href.split("/")) {
+    if (segment === "..") parts.pop();
+    else if (segment && segment !== ".") parts.push(segment);
+  }
+  return parts.join("/");
+}
+
+/** Reads the choice items of a QTI 2.x content package, with their images. */
+export async function parseQtiPackage(data: ArrayBuffer | Uint8Array): Promise<QtiImportResult> {
+  const zip = await JSZip.loadAsync(data);
+  const manifestFile = zip.file(MANIFEST);
+  if (!manifestFile) {
+    return { questions: [], images: [], warnings: ["This zip is not a QTI content package (it has no imsmanifest.xml)."] };
+  }
+
+  const questions: ImportedQuestion[] = [];
+  const images: (File | undefined)[] = [];
+  const warnings: string[] = [];
+  const manifest = parseXml(await manifestFile.async("string"));
+
+  for (const resource of descendantsNamed(manifest, "resource")) {
+    const type = resource.getAttribute("type") ?? "";
+    if (!type.startsWith("imsqti_item_xmlv2p")) continue;
+    const href = resource.getAttribute("href") ?? "";
+    const itemFile = zip.file(href);
+    if (!itemFile) {
+      warnings.push(`Skipped ${href || "an item"}: the file is missing from the package.`);
+      continue;
+    }
+
+    const result = readItem(await itemFile.async("string"), readResourceMetadata(resource), warnings);
+    if (!result) continue;
+
+    let image: File | undefined;
+    if (result.imageSrc && !/^[a-z]+:/i.test(result.imageSrc)) {
+      const path = resolvePath(href, decodeURI(result.imageSrc));
+      const imageFile = zip.file(path);
+      if (imageFile) {
+        const fileName = path.split("/").pop() ?? "image";
+        const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+        image = new File([await imageFile.async("uint8array")], fileName, {
+          type: IMAGE_TYPES[extension] ?? "application/octet-stream",
+        });
+      } else {
+        warnings.push(`"${questionTitle(result.question.questionText)}": its image ${path} is missing from the package.`);
+      }
+    }
+    questions.push(result.question);
+    images.push(image);
+  }
+
+  if (questions.length === 0 && warnings.length === 0) {
+    warnings.push("The package has no question items.");
+  }
+  return { questions, images, warnings };
+}
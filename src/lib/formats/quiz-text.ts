@@ -0,0 +1,243 @@
+/**
+ * @fileOverview A deterministic parser for plain-text question dumps.
+ *
+ * Reads the quiz-builder format the export page copies ("stem", "A. option",
+ * "Answer: A,C") and the common variations found in pasted exams: numbered stems
+ * ("1.", "Q1)", "Question 3:", "١-", "س٢:"), lettered options in Latin or Arabic
+ * ("a)", "(B)", "أ-", "ب)"), and answer lines such as "Correct Answer: B",
+ * "Ans: A, C" or "الإجابة الصحيحة: ج". Optional "Explanation:", "Subject:",
+ * "Chapter:", "Difficulty:" and "Source:" lines fill in the matching fields.
+ *
+ * Each block either parses completely or is returned unparsed, so the caller can hand
+ * just those blocks to the AI parser.
+ */
+import { type ImportedQuestion } from "./types";
+import { detectLanguage } from "./common";
+
+export type QuizTextBlock = {
+  /** The block as it appeared in the input. */
+  text: string;
+  /** Null when the block is not in a recognised shape. */
+  question: ImportedQuestion | null;
+};
+
+const LATIN_LETTERS = "ABCDEFGHIJ";
+// Arabic options follow the abjad order: أ ب ج د هـ و ز ح ط ي.
+const ARABIC_LETTERS = ["أ", "ب", "ج", "د", "ه", "و", "ز", "ح", "ط", "ي"];
+
+const toAsciiDigits = (text: string) =>
+  text.replace(/[٠-٩]/g, (d) => String(d.charCodeAt(0) - 0x0660)).replace(/[۰-۹]/g, (d) => String(d.charCodeAt(0) - 0x06f0));
+
+// "1.", "1)", "1-", "Q1", "Q1)", "Question 1:", "س1:", "السؤال 1:" (digits already ASCII).
+const QUESTION_NUMBER =
+  /^\s*(?:(?:Q(?:uestion)?|السؤال|سؤال|س)\s*(?:رقم\s*)?#?\s*\d+\s*[.):\-–]?|\d+\s*[.):\-–])\s*/i;
+
+const OPTION_LINE = /^\s*\(?([A-Ja-j]|[أابجدهوزحطي]|هـ)\s*[.):\-–]\s*(.*)$/;
+
+const ANSWER_LINE =
+  /^\s*(?:correct\s+answers?|right\s+answers?|answers?|ans|الإجابة\s*الصحيحة|الاجابة\s*الصحيحة|الإجابة|الاجابة|الجواب(?:\s*الصحيح)?)\s*[:：\-–=]\s*(.*)$/i;
+
+const META_LINE =
+  /^\s*(explanation|reason|subject|chapter|difficulty|source|التوضيح|الشرح|التفسير|المادة|الفصل|الصعوبة|المصدر)\s*[:：]\s*(.*)$/i;
+
+const META_FIELDS: Record<string, "explanation" | "subject" | "chapter" | "difficulty" | "source"> = {
+  explanation: "explanation",
+  reason: "explanation",
+  subject: "subject",
+  chapter: "chapter",
+  difficulty: "difficulty",
+  source: "source",
+  التوضيح: "explanation",
+  الشرح: "explanation",
+  التفسير: "explanation",
+  المادة: "subject",
+  الفصل: "chapter",
+  الصعوبة: "difficulty",
+  المصدر: "source",
+};
+
+const isOption = (line: string) => OPTION_LINE.test(line);
+const isAnswer = (line: string) => ANSWER_LINE.test(line);
+const isMeta = (line: string) => META_LINE.test(line);
+const isNumbered = (line: string) => QUESTION_NUMBER.test(toAsciiDigits(line));
+
+function optionIndex(letter: string): number {
+  const latin = LATIN_LETTERS.indexOf(letter.toUpperCase());
+  if (latin !== -1) return latin;
+  if (letter === "ا") return 0;
+  if (letter === "هـ") return 4;
+  return ARABIC_LETTERS.indexOf(letter);
+}
+
+/* ---------------------------------- */
+/* Blocks                             */
+/* ---------------------------------- */
+
+type Draft = { lines: string[]; hasOptions: boolean; hasAnswer: boolean; hasMeta: boolean };
+
+/**
+ * Splits the input into one block per question. Blank lines end a question once it has
+ * an answer (or options), so stems may contain blank lines of their own. A numbered line
+ * starts a new question even without a blank line before it, and so does any plain line
+ * right after an answer, as in documents with one paragraph per line.
+ */
+export function splitQuizText(input: string): string[] {
+  const blocks: string[] = [];
+  let current: Draft = { lines: [], hasOptions: false, hasAnswer: false, hasMeta: false };
+  let afterBlank = false;
+
+  const flush = () => {
+    const text = current.lines.join("\n").trim();
+    if (text) blocks.push(text);
+    current = { lines: [], hasOptions: false, hasAnswer: false, hasMeta: false };
+  };
+
+  for (const line of input.replace(/\r\n?/g, "\n").split("\n")) {
+    if (!line.trim()) {
+      if (current.lines.length > 0) afterBlank = true;
+      continue;
+    }
+    const complete = current.hasAnswer || current.hasOptions;
+    // After a blank line, explanation and other metadata still belong to the answered
+    // question, and options or the answer to one that has options but no answer yet.
+    const continues = current.hasAnswer ? isMeta(line) : isOption(line) || isAnswer(line) || isMeta(line);
+    // A plain line right after the answer is the next question, but lines under an
+    // "Explanation:" continue it.
+    const afterAnswer = current.hasAnswer && !current.hasMeta && !isMeta(line);
+    const startsNew = complete && (isNumbered(line) || afterAnswer || (afterBlank && !continues));
+    if (startsNew) flush();
+    else if (afterBlank && !current.hasOptions) current.lines.push("");
+
+    current.lines.push(line);
+    if (isOption(line)) current.hasOptions = true;
+    if (isAnswer(line)) current.hasAnswer = true;
+    if (current.hasAnswer && isMeta(line)) current.hasMeta = true;
+    afterBlank = false;
+  }
+  flush();
+  return blocks;
+}
+
+/**
+ * Splits `lines` into question blocks and returns each block with the index of the line
+ * it starts on, so callers can tie page positions or images back to a block.
+ */
+export function splitQuizLines(lines: string[]): { text: string; startLine: number }[] {
+  let cursor = 0;
+  return splitQuizText(lines.join("\n")).map((text) => {
+    const first = text.split("\n")[0].trim();
+    const found = lines.findIndex((line, i) => i >= cursor && line.trim() === first);
+    if (found !== -1) cursor = found + 1;
+    return { text, startLine: found === -1 ? Math.min(cursor, lines.length - 1) : found };
+  });
+}
+
+/* ---------------------------------- */
+/* Questions                          */
+/* ---------------------------------- */
+
+// Letters ("A", "A,C", "AC", "B and D", "أ، ج") -> option indexes, or null if the value
+// is not a list of letters.
+function answerLetters(value: string, optionCount: number): number[] | null {
+  const cleaned = value
+    .replace(/[()[\].]/g, " ")
+    .replace(/\band\b|\s+و\s+/gi, ",")
+    .trim();
+  const tokens = cleaned.split(/[\s,،;&/+]+/).filter(Boolean);
+  if (tokens.length === 0) return null;
+
+  // "AC" is two letters glued together, as the export writes them when there are many.
+  const expanded =
+    tokens.length === 1 && /^[A-J]{2,}$/i.test(tokens[0]) && tokens[0].length <= optionCount
+      ? tokens[0].split("")
+      : tokens;
+  const indexes = expanded.map((token) => (token.length === 1 || token === "هـ" ? optionIndex(token) : -1));
+  if (indexes.some((i) => i < 0 || i >= optionCount)) return null;
+  return [...new Set(indexes)];
+}
+
+// An answer written out as option text, possibly with its letter ("B) Paris").
+function answerByText(value: string, options: string[]): number[] | null {
+  const normalize = (s: string) => s.replace(/\s+/g, " ").trim().toLowerCase();
+  const target = normalize(value);
+  const exact = options.findIndex((o) => normalize(o) === target);
+  if (exact !== -1) return [exact];
+  const lettered = value.match(OPTION_LINE);
+  if (lettered) {
+    const index = optionIndex(lettered[1]);
+    if (index >= 0 && index < options.length && normalize(options[index]) === normalize(lettered[2])) return [index];
+  }
+  return null;
+}
+
+/** Parses one question block, or returns null when it is not in a known shape. */
+export function parseQuizBlock(block: string): ImportedQuestion | null {
+  const stem: string[] = [];
+  const options: string[] = [];
+  const meta: Partial<Record<"explanation" | "subject" | "chapter" | "difficulty" | "source", string>> = {};
+  let answer: string | null = null;
+  // Where a continuation line goes: the stem, the last option, or a meta field.
+  let target: "stem" | "option" | "answer" | keyof typeof meta = "stem";
+
+  for (const line of block.split("\n")) {
+    const answerMatch = line.match(ANSWER_LINE);
+    const metaMatch = line.match(META_LINE);
+    const optionMatch = answer === null ? line.match(OPTION_LINE) : null;
+    // A lettered option only counts once the stem has started, and in order.
+    const isNextOption =
+      optionMatch && stem.some((l) => l.trim()) && optionIndex(optionMatch[1]) === options.length;
+
+    if (answerMatch) {
+      answer = answerMatch[1].trim();
+      target = "answer";
+    } else if (metaMatch) {
+      const field = META_FIELDS[metaMatch[1].toLowerCase()];
+      meta[field] = metaMatch[2].trim();
+      target = field;
+    } else if (isNextOption && optionMatch) {
+      options.push(optionMatch[2].trim());
+      target = "option";
+    } else if (target === "stem") {
+      stem.push(line);
+    } else if (target === "option") {
+      options[options.length - 1] = `${options[options.length - 1]} ${line.trim()}`;
+    } else if (target === "answer") {
+      return null;
+    } else {
+      meta[target] = `${meta[target] ?? ""}\n${line.trim()}`.trim();
+    }
+  }
+
+  if (stem.length > 0) stem[0] = stripNumber(stem[0]);
+  const questionText = stem.join("\n").trim();
+  if (!questionText || options.length < 2 || !answer || options.some((o) => !o)) return null;
+
+  // Option text first: "DAC" is an answer in its own right before it is letters D, A and C.
+  const indexes = answerByText(answer, options) ?? answerLetters(answer, options.length);
+  if (!indexes || indexes.length === 0) return null;
+  const correct = indexes.sort((a, b) => a - b).map((i) => options[i]);
+
+  return {
+    questionText,
+    options,
+    correctAnswer: correct.length > 1 ? correct : correct[0],
+    explanation: meta.explanation || undefined,
+    subject: meta.subject ?? "",
+    chapter: meta.chapter ?? "",
+    questionType: correct.length > 1 ? "checkbox" : "mcq",
+    difficulty: meta.difficulty?.toLowerCase() || "medium",
+    language: detectLanguage(`${questionText} ${options.join(" ")}`),
+    source: meta.source || undefined,
+  };
+}
+
+// Removes the numbering from the first line, leaving any Arabic-Indic digits in the text alone.
+function stripNumber(line: string): string {
+  const match = toAsciiDigits(line).match(QUESTION_NUMBER);
+  return match ? line.slice(match[0].length) : line;
+}
+
+/** Splits `input` into question blocks and parses each one that is in a known shape. */
+export function parseQuizText(input: string): QuizTextBlock[] {
+  return splitQuizText(input).map((text) => ({ text, question: parseQuizBlock(text) }));
+}
@@ -0,0 +1,24 @@
+// src/lib/formats/types.ts
+import { type ParseQuestionsOutput } from "@/ai/flows/parse-question";
+import { type Question } from "@/types";
+
+/** A question read from a file, shaped like the AI parser's output so it saves the same way. */
+export type ImportedQuestion = ParseQuestionsOutput[number];
+
+export type ImportResult = {
+  questions: ImportedQuestion[];
+  /** Things that were skipped or could not be carried over, for the user to review. */
+  warnings: string[];
+};
+
+export type QuestionFileFormat = {
+  id: string;
+  label: string;
+  /** With the dot, e.g. ".xml". The first one is used for exports. */
+  extensions: string[];
+  mimeType: string;
+  /** Whether `text` looks like this format, for files with an ambiguous extension. */
+  detect: (text: string) => boolean;
+  parse: (text: string) => ImportResult;
+  serialize: (questions: Question[]) => string;
+};
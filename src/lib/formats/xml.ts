@@ -0,0 +1,27 @@
+// src/lib/formats/xml.ts
+// Helpers for the namespaced XML inside packages (QTI manifests, Word documents). Elements
+// are matched by local name, so "imsmd:keyword" and "keyword" read the same.
+
+export const localNameOf = (element: Element) => element.tagName.split(":").pop();
+
+export function descendantsNamed(parent: Element | Document, name: string): Element[] {
+  const found: Element[] = [];
+  const visit = (element: Element) => {
+    for (const child of Array.from(element.children)) {
+      if (localNameOf(child) === name) found.push(child);
+      visit(child);
+    }
+  };
+  if ("documentElement" in parent) {
+    if (localNameOf(parent.documentElement) === name) found.push(parent.documentElement);
+    visit(parent.documentElement);
+  } else {
+    visit(parent);
+  }
+  return found;
+}
+
+export const childrenNamed = (parent: Element, name: string) =>
+  Array.from(parent.children).filter((e) => localNameOf(e) === name);
+
+export const parseXml = (xml: string) => new DOMParser().parseFromString(xml, "application/xml");
@@ -0,0 +1,172 @@
+// src/lib/import-checks.ts
+import { type ImportedQuestion } from "@/lib/formats/types";
+
+/**
+ * Problems a parsed question commonly has before it is saved, each with a quick fix where
+ * the right answer is clear. Errors are things the bank would reject or that make the
+ * question unusable; warnings are worth a look but can be saved as they are.
+ */
+export type ImportCheckCode =
+  | "empty-stem"
+  | "few-options"
+  | "duplicate-options"
+  | "answer-not-in-options"
+  | "type-mismatch"
+  | "junk-text";
+
+export type ImportCheck = {
+  code: ImportCheckCode;
+  severity: "error" | "warning";
+  message: string;
+  /** Button label for the quick fix, present together with `fix`. */
+  fixLabel?: string;
+  fix?: (question: ImportedQuestion) => ImportedQuestion;
+};
+
+// Watermarks and page furniture that exam dumps leave in question text.
+const JUNK_PATTERNS: RegExp[] = [
+  // Only the dump sites themselves: hostnames such as "example.com" are often part of a question.
+  // First, so the site names below do not leave half a link behind.
+  /\b(?:www\.)?(?:examtopics|certyiq|examcollection|exam-labs|itexams|pass4sure|passleader|lead4pass|prepaway|dumpsbase|braindumps?|killexams|vceplus|marks4sure|testking)\.(?:com|net|org)\b\S*/gi,
+  /\bCerty\s?IQ\b/gi,
+  /\bExam\s?Topics\b/gi,
+  /\bMost\s+Voted\b/gi,
+  /^\s*(?:Question|Topic)\s*#?\s*\d+\s*[.:)\-–]?/i,
+  /^\s*Q\d+\s*[.:)\-–]/i,
+  /\bPage\s+\d+\s+of\s+\d+\b/gi,
+];
+
+const normalize = (text: string) => text.replace(/\s+/g, " ").trim().toLowerCase();
+
+const optionsOf = (q: ImportedQuestion) => (q.options ?? []).map((o) => o.trim()).filter(Boolean);
+
+/** The answers as a list; a string that is not an option is read as a comma-separated list. */
+export function answerList(q: ImportedQuestion): string[] {
+  const answer = q.correctAnswer;
+  if (Array.isArray(answer)) return answer.map((a) => a.trim()).filter(Boolean);
+  const trimmed = (answer ?? "").trim();
+  if (!trimmed) return [];
+  if (optionsOf(q).includes(trimmed)) return [trimmed];
+  return trimmed.split(/\s*,\s*/).filter(Boolean);
+}
+
+const withAnswers = (q: ImportedQuestion, answers: string[]): ImportedQuestion => ({
+  ...q,
+  // Several answers stay a list even on an mcq, so the type check can still flag it.
+  correctAnswer: q.questionType === "checkbox" || answers.length > 1 ? answers : answers[0],
+});
+
+// The option an answer most likely means: the same text with different case or spacing,
+// a letter ("B"), or the option with its letter in front ("B) Paris").
+function closestOption(answer: string, options: string[]): string | undefined {
+  const target = normalize(answer);
+  const byText = options.find((o) => normalize(o) === target);
+  if (byText) return byText;
+  const letter = target.match(/^\(?([a-j])\)?[.)]?$/);
+  if (letter) return options[letter[1].charCodeAt(0) - 97];
+  const prefixed = target.match(/^\(?[a-j][.):\-–]\s*(.+)$/);
+  return prefixed ? options.find((o) => normalize(o) === prefixed[1]) : undefined;
+}
+
+export function stripJunk(text: string): string {
+  return JUNK_PATTERNS.reduce((result, pattern) => result.replace(pattern, " "), text)
+    .replace(/[ \t]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .trim();
+}
+
+export function checkImportedQuestion(q: ImportedQuestion): ImportCheck[] {
+  const checks: ImportCheck[] = [];
+  const options = optionsOf(q);
+  const answers = answerList(q);
+
+  if (!q.questionText.trim()) {
+    checks.push({ code: "empty-stem", severity: "error", message: "The question text is empty." });
+  } else if (stripJunk(q.questionText) !== q.questionText.trim()) {
+    checks.push({
+      code: "junk-text",
+      severity: "warning",
+      message: "The question text contains numbering or watermark text.",
+      fixLabel: "Remove it",
+      fix: (question) => ({ ...question, questionText: stripJunk(question.questionText) }),
+    });
+  }
+
+  if (options.length < 2) {
+    checks.push({ code: "few-options", severity: "error", message: `Only ${options.length} option(s); at least two are needed.` });
+  }
+
+  const seen = new Set<string>();
+  const duplicates = options.filter((o) => seen.size === seen.add(normalize(o)).size);
+  if (duplicates.length > 0) {
+    checks.push({
+      code: "duplicate-options",
+      severity: "error",
+      message: `Repeated option: ${duplicates.map((d) => `"${d}"`).join(", ")}.`,
+      fixLabel: "Remove repeats",
+      fix: (question) => {
+        const kept = new Map<string, string>();
+        for (const option of optionsOf(question)) if (!kept.has(normalize(option))) kept.set(normalize(option), option);
+        const answers = answerList(question).map((a) => kept.get(normalize(a)) ?? a);
+        return withAnswers({ ...question, options: [...kept.values()] }, [...new Set(answers)]);
+      },
+    });
+  }
+
+  const missing = options.length > 0 ? answers.filter((a) => !options.includes(a)) : [];
+  if (answers.length === 0) {
+    checks.push({ code: "answer-not-in-options", severity: "error", message: "No correct answer." });
+  } else if (missing.length > 0) {
+    const resolved = answers.map((a) => (options.includes(a) ? a : closestOption(a, options)));
+    const fixable = resolved.every((a): a is string => !!a);
+    checks.push({
+      code: "answer-not-in-options",
+      severity: "error",
+      message: `Not among the options: ${missing.map((a) => `"${a}"`).join(", ")}.`,
+      ...(fixable
+        ? {
+            fixLabel: `Use ${resolved.map((a) => `"${a}"`).join(", ")}`,
+            fix: (question: ImportedQuestion) => withAnswers(question, [...new Set(resolved)]),
+          }
+        : {
+            fixLabel: "Add as option",
+            fix: (question: ImportedQuestion) => ({
+              ...question,
+              options: [...optionsOf(question), ...missing],
+            }),
+          }),
+    });
+  }
+
+  if (q.questionType === "mcq" && answers.length > 1) {
+    checks.push({
+      code: "type-mismatch",
+      severity: "error",
+      message: `Marked as single choice but has ${answers.length} correct answers.`,
+      fixLabel: "Make it checkbox",
+      fix: (question) => ({ ...question, questionType: "checkbox", correctAnswer: answerList(question) }),
+    });
+  } else if (q.questionType === "checkbox" && answers.length === 1) {
+    checks.push({
+      code: "type-mismatch",
+      severity: "warning",
+      message: "Marked as multiple answer but has only one correct answer.",
+      fixLabel: "Make it single choice",
+      fix: (question) => ({ ...question, questionType: "mcq", correctAnswer: answerList(question)[0] }),
+    });
+  }
+
+  return checks;
+}
+
+/** Applies every quick fix, re-checking after each one since fixes can change the rest. */
+export function applyAllFixes(q: ImportedQuestion): ImportedQuestion {
+  let question = q;
+  const applied = new Set<ImportCheckCode>();
+  for (;;) {
+    const next = checkImportedQuestion(question).find((c) => c.fix && !applied.has(c.code));
+    if (!next?.fix) return question;
+    applied.add(next.code);
+    question = next.fix(question);
+  }
+}
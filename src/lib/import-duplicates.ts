@@ -0,0 +1,102 @@
+// src/lib/import-duplicates.ts
+import { type Question } from "@/types";
+import { type ImportedQuestion } from "@/lib/formats/types";
+import { diceSimilarity } from "@/components/qbank/similar-options";
+import { normalizeText } from "@/lib/normalize-text";
+
+/**
+ * Finds questions in the bank that a parsed question most likely repeats, before it is
+ * saved. The stem decides; options count for a share of the score when both questions
+ * have them, so a reworded stem with the same options still matches.
+ */
+
+/** Score from which a parsed question is treated as already in the bank. */
+export const BANK_DUPLICATE_THRESHOLD = 0.88;
+// Only the bank questions sharing the most words with a stem are scored.
+const MAX_CANDIDATES = 25;
+const MIN_WORD_LENGTH = 3;
+
+export type BankMatch = {
+  question: Question;
+  /** 0-1; 1 for the same text once case, punctuation and spacing are ignored. */
+  score: number;
+};
+
+/** What to do with a parsed question that has a match in the bank. */
+export type DuplicateAction = "skip" | "save" | "update";
+
+type IndexedQuestion = { question: Question; stem: string; options: string };
+
+export type BankIndex = {
+  entries: IndexedQuestion[];
+  byWord: Map<string, number[]>;
+};
+
+const words = (normalized: string) => new Set(normalized.split(" ").filter((w) => w.length >= MIN_WORD_LENGTH));
+
+const joinedOptions = (options: string[] | undefined) =>
+  (options ?? []).map((o) => normalizeText(o)).filter(Boolean).sort().join(" | ");
+
+export function buildBankIndex(bank: Question[]): BankIndex {
+  const entries = bank.map((question) => ({
+    question,
+    stem: normalizeText(question.questionText),
+    options: joinedOptions(question.options),
+  }));
+  const byWord = new Map<string, number[]>();
+  entries.forEach((entry, index) => {
+    for (const word of words(entry.stem)) byWord.set(word, [...(byWord.get(word) ?? []), index]);
+  });
+  return { entries, byWord };
+}
+
+function similarity(stem: string, options: string, entry: IndexedQuestion): number {
+  if (stem === entry.stem) return options && options !== entry.options ? 0.95 : 1;
+  const stemScore = diceSimilarity(stem, entry.stem);
+  if (!options || !entry.options) return stemScore;
+  return stemScore * 0.85 + diceSimilarity(options, entry.options) * 0.15;
+}
+
+/** The bank question `q` most likely repeats, or null when none scores high enough. */
+export function findBankMatch(q: ImportedQuestion, index: BankIndex): BankMatch | null {
+  const stem = normalizeText(q.questionText);
+  if (!stem) return null;
+  const options = joinedOptions(q.options);
+
+  const shared = new Map<number, number>();
+  for (const word of words(stem)) {
+    for (const i of index.byWord.get(word) ?? []) shared.set(i, (shared.get(i) ?? 0) + 1);
+  }
+  const candidates = [...shared.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_CANDIDATES)
+    .map(([i]) => index.entries[i]);
+
+  let best: BankMatch | null = null;
+  for (const entry of candidates) {
+    const score = similarity(stem, options, entry);
+    if (score >= BANK_DUPLICATE_THRESHOLD && (!best || score > best.score)) best = { question: entry.question, score };
+  }
+  return best;
+}
+
+/**
+ * The existing question with the parsed content (stem, options, answer, explanation)
+ * written over it. Its id, history, classification, difficulty and image stay; the
+ * parsed values only fill fields the existing question left empty.
+ */
+export function mergeIntoExisting(existing: Question, parsed: ImportedQuestion): Question {
+  return {
+    ...existing,
+    questionText: parsed.questionText,
+    options: parsed.options ?? existing.options,
+    correctAnswer: parsed.correctAnswer ?? existing.correctAnswer,
+    questionType: parsed.questionType,
+    explanation: parsed.explanation || existing.explanation,
+    language: (parsed.language || existing.language) as Question["language"],
+    subject: existing.subject || parsed.subject,
+    chapter: existing.chapter || parsed.chapter,
+    topicTags: existing.topicTags?.length ? existing.topicTags : parsed.topicTags,
+    source: existing.source || parsed.source,
+  };
+}
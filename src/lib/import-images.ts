@@ -0,0 +1,33 @@
+// src/lib/import-images.ts
+import { type Question } from "@/types";
+import { handleUpdateQuestion } from "@/lib/actions";
+import { uploadQuestionImage } from "@/lib/question-images";
+
+/**
+ * Uploads the images that came with an import. Images need the saved question's id, so
+ * this runs once the questions exist; `images` is aligned with `saved`. Returns the
+ * questions as stored and how many images could not be attached.
+ */
+export async function attachImportedImages(
+  saved: Question[],
+  images: (File | undefined)[],
+  actor: string
+): Promise<{ questions: Question[]; failed: number }> {
+  let failed = 0;
+  const questions = await Promise.all(
+    saved.map(async (question, index) => {
+      const image = images[index];
+      if (!image) return question;
+      try {
+        const withImage = { ...question, imageUrl: await uploadQuestionImage(question.id, image) };
+        const result = await handleUpdateQuestion(withImage, { actor, action: "edit" }, question.updatedAt);
+        if (result.success) return result.question ?? withImage;
+      } catch (error) {
+        console.error(`Error uploading image of question ${question.id}`, error);
+      }
+      failed++;
+      return question;
+    })
+  );
+  return { questions, failed };
+}
@@ -0,0 +1,95 @@
+// src/lib/merge-questions.ts
+import { type Question } from "@/types";
+import { formatFieldValue } from "@/lib/question-diff";
+
+/**
+ * Building one question out of a group of duplicates. Fields that differ between the
+ * copies are picked per field; tags are combined and the earliest creation date is kept,
+ * so nothing stored on a retired copy is lost by accident.
+ */
+export type MergeField = "questionText" | "options" | "correctAnswer" | "explanation" | "imageUrl" | "chapter";
+
+export const MERGE_FIELDS: { field: MergeField; label: string }[] = [
+  { field: "questionText", label: "Question" },
+  { field: "options", label: "Options" },
+  { field: "correctAnswer", label: "Correct Answer" },
+  { field: "explanation", label: "Explanation" },
+  { field: "imageUrl", label: "Image" },
+  { field: "chapter", label: "Chapter" },
+];
+
+/** For each field, the id of the question whose value the merged question takes. */
+export type MergeChoices = Record<MergeField, string>;
+
+export type MergeCandidate = {
+  /** The first question holding this value; the value is taken from it. */
+  questionId: string;
+  /** Every question in the group holding this value. */
+  questionIds: string[];
+  value: string;
+};
+
+/** The distinct non-empty values of `field` across the group, in group order. */
+export function mergeCandidates(group: Question[], field: MergeField): MergeCandidate[] {
+  const byValue = new Map<string, MergeCandidate>();
+  for (const question of group) {
+    const value = formatFieldValue(question[field]);
+    if (!value.trim()) continue;
+    const existing = byValue.get(value);
+    if (existing) existing.questionIds.push(question.id);
+    else byValue.set(value, { questionId: question.id, questionIds: [question.id], value });
+  }
+  return [...byValue.values()];
+}
+
+/** The survivor's value for every field it has, otherwise the first copy that has one. */
+export function defaultMergeChoices(group: Question[], survivorId: string): MergeChoices {
+  const choices = {} as MergeChoices;
+  for (const { field } of MERGE_FIELDS) {
+    const candidates = mergeCandidates(group, field);
+    const own = candidates.find((c) => c.questionIds.includes(survivorId));
+    choices[field] = (own ?? candidates[0])?.questionId ?? survivorId;
+  }
+  return choices;
+}
+
+export function buildMergedQuestion(group: Question[], survivorId: string, choices: MergeChoices): Question {
+  const byId = new Map(group.map((q) => [q.id, q]));
+  const survivor = byId.get(survivorId) ?? group[0];
+  const pick = (field: MergeField) => byId.get(choices[field]) ?? survivor;
+  const answerSource = pick("correctAnswer");
+  const chapterSource = pick("chapter");
+  const tags = [...new Set(group.flatMap((q) => q.topicTags ?? []))];
+  const explanation = pick("explanation").explanation;
+  const imageUrl = pick("imageUrl").imageUrl;
+  // Optional fields are left out rather than set to undefined: Firestore rejects undefined.
+  const { explanation: _explanation, imageUrl: _imageUrl, topicTags: _topicTags, ...rest } = survivor;
+
+  return {
+    ...rest,
+    questionText: pick("questionText").questionText,
+    options: pick("options").options,
+    correctAnswer: answerSource.correctAnswer,
+    // The type describes the answer, so it comes with it.
+    questionType: answerSource.questionType,
+    // A chapter belongs to a subject, so the two are taken together.
+    chapter: chapterSource.chapter,
+    subject: chapterSource.subject,
+    createdAt: group.map((q) => q.createdAt).sort()[0] ?? survivor.createdAt,
+    ...(explanation ? { explanation } : {}),
+    ...(imageUrl ? { imageUrl } : {}),
+    ...(tags.length > 0 ? { topicTags: tags } : {}),
+  };
+}
+
+/**
+ * Merged-away id -> id of the question it was merged into. A survivor also takes over
+ * the ids merged into its retired copies, so one lookup is enough.
+ */
+export function mergedIdMap(questions: Question[]): Map<string, string> {
+  const survivorOf = new Map<string, string>();
+  for (const question of questions) {
+    for (const id of question.mergedFrom ?? []) survivorOf.set(id, question.id);
+  }
+  return survivorOf;
+}
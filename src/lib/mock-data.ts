@@ -40,7 +40,7 @@ export const mockQuestions: Question[] = [
     subject: "Physiology",
     chapter: "Cardiovascular System",
     topicTags: ["heart", "conduction system", "SA node"],
-    questionType: "tf",
+    questionType: "mcq",
     difficulty: "easy",
     language: "en",
     createdAt: "2023-11-15T14:30:00Z",
@@ -53,7 +53,7 @@ export const mockQuestions: Question[] = [
     subject: "Pharmacology",
     chapter: "Autonomic Nervous System",
     topicTags: ["beta-blockers", "adrenergic"],
-    questionType: "short",
+    questionType: "mcq",
     difficulty: "medium",
     language: "en",
     createdAt: "2023-09-01T09:00:00Z",
@@ -83,7 +83,7 @@ export const mockQuestions: Question[] = [
     subject: "Pharmacology",
     chapter: "Autonomic Nervous System",
     topicTags: ["contraindications", "beta-blockers", "asthma"],
-    questionType: "case",
+    questionType: "mcq",
     difficulty: "hard",
     language: "en",
     source: "Katzung & Trevor's Pharmacology",
@@ -0,0 +1,76 @@
+/**
+ * @fileOverview Text normalization shared by option similarity, duplicate detection and search.
+ *
+ * Two spellings of the same Arabic word often differ only in marks or letter variants
+ * that readers ignore: tashkeel and tatweel ("عاصمةُ", "عاصـمة"), the hamza forms of alef
+ * (أ إ آ ٱ -> ا), alef maqsura (ى -> ي), ta marbuta (ة -> ه) and hamza on waw/ya
+ * (ؤ -> و, ئ -> ي). Arabic-Indic digits are mapped to 0-9. After folding, text is
+ * lowercased, punctuation becomes spaces and runs of spaces collapse, so the result can
+ * be split on " " into words.
+ */
+
+export type NormalizeOptions = {
+  /** Reduce English words to a rough stem ("encrypts" -> "encrypt"); for search. */
+  stem?: boolean;
+};
+
+// Quranic annotation signs, harakat, tanween, shadda, sukun, superscript alef and tatweel.
+const ARABIC_MARKS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED\u0640]/g;
+
+const ARABIC_LETTER_VARIANTS: Record<string, string> = {
+  "\u0623": "\u0627", // أ -> ا
+  "\u0625": "\u0627", // إ -> ا
+  "\u0622": "\u0627", // آ -> ا
+  "\u0671": "\u0627", // ٱ -> ا
+  "\u0649": "\u064A", // ى -> ي
+  "\u0629": "\u0647", // ة -> ه
+  "\u0624": "\u0648", // ؤ -> و
+  "\u0626": "\u064A", // ئ -> ي
+};
+const ARABIC_LETTER_VARIANT = /[\u0622\u0623\u0625\u0671\u0649\u0629\u0624\u0626]/g;
+
+// Arabic-Indic (٠-٩) and Eastern Arabic-Indic (۰-۹) digits; both end in the digit's value.
+const ARABIC_DIGIT = /[\u0660-\u0669\u06F0-\u06F9]/g;
+
+// Article and attached conjunctions/prepositions: "ال", "وال", "بال", "كال", "فال", "لل".
+const ARABIC_ARTICLE = /^(?:[وفبكل]?ال|لل)(?=\p{L}{2})/u;
+
+/** Removes Arabic marks and unifies letter variants; other text is left as it is. */
+export function foldArabic(text: string): string {
+  return text
+    .replace(ARABIC_MARKS, "")
+    .replace(ARABIC_LETTER_VARIANT, (ch) => ARABIC_LETTER_VARIANTS[ch]);
+}
+
+export function mapArabicDigits(text: string): string {
+  return text.replace(ARABIC_DIGIT, (d) => String(d.charCodeAt(0) & 0xf));
+}
+
+/** An Arabic word without its article and attached conjunction: "والتشفير" -> "تشفير". */
+export function stripArabicArticle(word: string): string {
+  return word.replace(ARABIC_ARTICLE, "");
+}
+
+/**
+ * A light suffix stemmer for English words: plurals, "-ing", "-ed", "-ly". Good enough
+ * for search to match inflections, not a linguistic stem; short words are left alone.
+ */
+export function stemEnglish(word: string): string {
+  if (word.length <= 3 || !/^[a-z]+$/.test(word)) return word;
+  if (word.endsWith("ies") && word.length > 4) return `${word.slice(0, -3)}y`;
+  if (/(?:ss|us|is)$/.test(word)) return word;
+  if (/(?:sses|xes|ches|shes)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith("ing") && word.length > 5) return word.slice(0, -3);
+  if (word.endsWith("ed") && word.length > 4) return word.slice(0, -2);
+  if (word.endsWith("ly") && word.length > 4) return word.slice(0, -2);
+  if (word.endsWith("s")) return word.slice(0, -1);
+  return word;
+}
+
+export function normalizeText(text: string, options: NormalizeOptions = {}): string {
+  const normalized = foldArabic(mapArabicDigits((text ?? "").normalize("NFKC")))
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+  return options.stem ? normalized.split(" ").map(stemEnglish).join(" ") : normalized;
+}
@@ -0,0 +1,95 @@
+/**
+ * @fileOverview Reads the text of question screenshots, in the browser.
+ *
+ * Recognition runs locally with tesseract.js, in English and Arabic at once. Phone
+ * screenshots are small and full of interface chrome, so each image is scaled up and
+ * turned to grayscale first, and the lines tesseract is unsure of are dropped along with
+ * the status bar ("9:41", "85%") at the top of the screen.
+ */
+import type { Worker } from "tesseract.js";
+
+export type OcrResult = {
+  text: string;
+  /** Mean confidence of the kept lines, 0-100. */
+  confidence: number;
+};
+
+// Below this width text is too small for tesseract, so the image is scaled up to it.
+const TARGET_WIDTH = 1600;
+// Lines under this confidence are icons, buttons and other noise.
+const MIN_LINE_CONFIDENCE = 35;
+// The status bar is somewhere in the first few lines of a screenshot.
+const STATUS_BAR_LINES = 3;
+
+// A clock, battery level, signal or carrier line: "9:41", "12:30 PM", "85%", "4G", "LTE".
+const STATUS_BAR = /^[\s\d:٠-٩%.]*(?:am|pm|ص|م)?[\s\d%٠-٩]*(?:4G|5G|LTE|3G|wi-?fi)?[\s\d%٠-٩]*$/i;
+
+let workerPromise: Promise<Worker> | null = null;
+let reportProgress: ((progress: number) => void) | null = null;
+
+// tesseract.js and its language data are large, so the worker is started on first use
+// and kept for the next image.
+function getWorker(): Promise<Worker> {
+  workerPromise ??= import("tesseract.js")
+    .then(({ createWorker }) =>
+      createWorker(["eng", "ara"], undefined, {
+        logger: (message) => {
+          if (message.status === "recognizing text") reportProgress?.(message.progress);
+        },
+      })
+    )
+    .catch((error) => {
+      workerPromise = null;
+      throw error;
+    });
+  return workerPromise;
+}
+
+async function prepareImage(file: File): Promise<HTMLCanvasElement> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.max(1, TARGET_WIDTH / bitmap.width);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const context = canvas.getContext("2d");
+  if (context) {
+    context.filter = "grayscale(1)";
+    context.imageSmoothingQuality = "high";
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  }
+  bitmap.close();
+  return canvas;
+}
+
+/** Recognizes the text of one screenshot. `onProgress` receives values from 0 to 1. */
+export async function recognizeImage(file: File, onProgress?: (progress: number) => void): Promise<OcrResult> {
+  const worker = await getWorker();
+  reportProgress = onProgress ?? null;
+  try {
+    const { data } = await worker.recognize(await prepareImage(file));
+    const lines = data.lines
+      .map((line) => ({
+        text: line.text.replace(/\s+/g, " ").trim(),
+        confidence: line.confidence,
+        paragraph: line.paragraph,
+      }))
+      .filter((line, i) => line.text && !(i < STATUS_BAR_LINES && STATUS_BAR.test(line.text)))
+      .filter((line) => line.confidence >= MIN_LINE_CONFIDENCE);
+
+    // Tesseract's paragraphs become blank lines, which the question splitter relies on.
+    const text = lines
+      .map((line, i) => (i > 0 && line.paragraph !== lines[i - 1].paragraph ? `\n${line.text}` : line.text))
+      .join("\n");
+    const confidence = lines.length > 0 ? lines.reduce((sum, line) => sum + line.confidence, 0) / lines.length : 0;
+    return { text, confidence: Math.round(confidence) };
+  } finally {
+    reportProgress = null;
+  }
+}
+
+/** Stops the OCR worker and frees its memory; the next recognition starts a new one. */
+export async function releaseOcr(): Promise<void> {
+  const pending = workerPromise;
+  workerPromise = null;
+  if (pending) await (await pending.catch(() => null))?.terminate();
+}
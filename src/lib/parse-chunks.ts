@@ -0,0 +1,61 @@
+/**
+ * @fileOverview Splits a large paste into chunks the AI parser can read in one call.
+ *
+ * A single prompt with a hundred questions runs out of output tokens or time, and then
+ * nothing comes back at all. Chunks are made of whole question blocks (as cut by the
+ * quiz-text splitter), so no question is ever split between two calls, and each chunk
+ * stays under a question count and a character budget.
+ */
+
+/** Questions per chunk; the model's output for this many stays well under its limit. */
+export const MAX_CHUNK_BLOCKS = 10;
+/** Characters per chunk, for blocks with long stems or explanations. */
+export const MAX_CHUNK_CHARS = 8000;
+/** Chunks parsed at the same time. */
+export const PARSE_CONCURRENCY = 3;
+
+export type ChunkParseResult<T> = { success: true; questions: T[] } | { success: false; error: string };
+
+/**
+ * Groups consecutive blocks into chunks. Returns the index of each chunk's blocks in
+ * `blocks`, so results can be put back in input order. A block longer than the
+ * character budget gets a chunk of its own.
+ */
+export function chunkBlocks(
+  blocks: string[],
+  maxBlocks = MAX_CHUNK_BLOCKS,
+  maxChars = MAX_CHUNK_CHARS
+): number[][] {
+  const chunks: number[][] = [];
+  let current: number[] = [];
+  let chars = 0;
+  blocks.forEach((block, index) => {
+    if (current.length > 0 && (current.length >= maxBlocks || chars + block.length > maxChars)) {
+      chunks.push(current);
+      current = [];
+      chars = 0;
+    }
+    current.push(index);
+    chars += block.length + 2;
+  });
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+/** Runs `task` over `items` with at most `limit` running at once; results keep input order. */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+  return results;
+}
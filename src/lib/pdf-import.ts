@@ -0,0 +1,297 @@
+/**
+ * @fileOverview Reads question dumps out of PDF files, in the browser.
+ *
+ * Text is extracted page by page with pdf.js and rebuilt into lines from the position
+ * of each text run (right to left for Arabic lines), with a blank line wherever the
+ * vertical gap is clearly wider than the page's usual line spacing. The lines are then
+ * cut into question blocks with the same splitter the paste dialog uses.
+ *
+ * Embedded images are rendered to PNG and attached to the question whose block starts
+ * above them on the page. Small images and images repeated on several pages (logos,
+ * headers) are left out.
+ */
+import { splitQuizLines } from "@/lib/formats/quiz-text";
+
+export type PdfLine = {
+  /** Empty for the paragraph breaks inferred from spacing. */
+  text: string;
+  /** Baseline, in PDF units from the bottom of the page. */
+  y: number;
+};
+
+export type PdfImage = {
+  file: File;
+  /** Top edge, in PDF units from the bottom of the page. */
+  top: number;
+  /** Drawn size, used to pick the main image when a question has several. */
+  area: number;
+};
+
+export type PdfPage = {
+  pageNumber: number;
+  lines: PdfLine[];
+  images: PdfImage[];
+};
+
+export type PdfQuestionBlock = {
+  /** The page the block starts on. */
+  pageNumber: number;
+  text: string;
+  image?: File;
+  /** Images that also fell within this block but were not attached; a question has one image. */
+  extraImages: number;
+};
+
+// Images smaller than this on both sides are icons and bullets rather than figures.
+const MIN_IMAGE_SIZE = 48;
+
+// Running page numbers: "3", "Page 3", "3 of 10", "صفحة ٣ من ١٠".
+const PAGE_NUMBER = /^(?:page|صفحة)?\s*[\d٠-٩]+\s*(?:(?:of|من|\/)\s*[\d٠-٩]+)?$/i;
+
+const ARABIC_SCRIPT = /[؀-ۿ]/;
+
+type Pdfjs = typeof import("pdfjs-dist");
+type PdfPageProxy = Awaited<ReturnType<Awaited<ReturnType<Pdfjs["getDocument"]>["promise"]>["getPage"]>>;
+
+let pdfjsPromise: Promise<Pdfjs> | null = null;
+
+// pdf.js is large and touches browser globals, so it is loaded on first use.
+function loadPdfjs(): Promise<Pdfjs> {
+  pdfjsPromise ??= import("pdfjs-dist").then((pdfjs) => {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL("pdfjs-dist/build/pdf.worker.min.mjs", import.meta.url).toString();
+    return pdfjs;
+  });
+  return pdfjsPromise;
+}
+
+/* ---------------------------------- */
+/* Text                               */
+/* ---------------------------------- */
+
+type TextRun = { str: string; x: number; y: number; width: number; size: number };
+
+function joinRuns(runs: TextRun[], rtl: boolean): string {
+  const ordered = [...runs].sort((a, b) => (rtl ? b.x - a.x : a.x - b.x));
+  let text = "";
+  ordered.forEach((run, i) => {
+    const previous = ordered[i - 1];
+    if (previous) {
+      const gap = rtl ? previous.x - (run.x + run.width) : run.x - (previous.x + previous.width);
+      if (gap > run.size * 0.15 && !/\s$/.test(text) && !/^\s/.test(run.str)) text += " ";
+    }
+    text += run.str;
+  });
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function buildLines(runs: TextRun[]): PdfLine[] {
+  const rows: { y: number; size: number; runs: TextRun[] }[] = [];
+  for (const run of runs) {
+    const row = rows.find((r) => Math.abs(r.y - run.y) < Math.max(2, Math.min(r.size, run.size) * 0.4));
+    if (row) row.runs.push(run);
+    else rows.push({ y: run.y, size: run.size, runs: [run] });
+  }
+  rows.sort((a, b) => b.y - a.y);
+
+  const lines = rows
+    .map((row) => {
+      const plain = row.runs.map((r) => r.str).join("");
+      return { text: joinRuns(row.runs, ARABIC_SCRIPT.test(plain)), y: row.y };
+    })
+    .filter((line) => line.text && !PAGE_NUMBER.test(line.text));
+
+  // A gap well beyond the usual line spacing is a paragraph break.
+  const gaps = lines.slice(1).map((line, i) => lines[i].y - line.y).sort((a, b) => a - b);
+  const usualGap = gaps[Math.floor(gaps.length / 2)] ?? 0;
+  const withBreaks: PdfLine[] = [];
+  lines.forEach((line, i) => {
+    if (i > 0 && usualGap > 0 && lines[i - 1].y - line.y > usualGap * 1.6) withBreaks.push({ text: "", y: line.y });
+    withBreaks.push(line);
+  });
+  return withBreaks;
+}
+
+async function readLines(page: PdfPageProxy): Promise<PdfLine[]> {
+  const content = await page.getTextContent();
+  const runs: TextRun[] = [];
+  for (const item of content.items) {
+    if (!("str" in item) || !item.str) continue;
+    const [a, b, , , x, y] = item.transform;
+    runs.push({ str: item.str, x, y, width: item.width, size: Math.hypot(a, b) || item.height || 10 });
+  }
+  return buildLines(runs);
+}
+
+/* ---------------------------------- */
+/* Images                             */
+/* ---------------------------------- */
+
+type DecodedImage = {
+  width: number;
+  height: number;
+  kind?: number;
+  data?: Uint8Array | Uint8ClampedArray;
+  bitmap?: ImageBitmap;
+};
+
+function toRgba(pdfjs: Pdfjs, image: DecodedImage): Uint8ClampedArray | null {
+  const { width, height, kind, data } = image;
+  if (!data) return null;
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  if (kind === pdfjs.ImageKind.RGBA_32BPP) {
+    rgba.set(data.subarray(0, rgba.length));
+  } else if (kind === pdfjs.ImageKind.RGB_24BPP) {
+    for (let src = 0, dest = 0; dest < rgba.length; src += 3, dest += 4) {
+      rgba[dest] = data[src];
+      rgba[dest + 1] = data[src + 1];
+      rgba[dest + 2] = data[src + 2];
+      rgba[dest + 3] = 255;
+    }
+  } else if (kind === pdfjs.ImageKind.GRAYSCALE_1BPP) {
+    // One bit per pixel, rows padded to a whole byte; a set bit is white.
+    const rowBytes = (width + 7) >> 3;
+    for (let row = 0; row < height; row++) {
+      for (let col = 0; col < width; col++) {
+        const bit = data[row * rowBytes + (col >> 3)] & (0x80 >> (col & 7));
+        const dest = (row * width + col) * 4;
+        rgba[dest] = rgba[dest + 1] = rgba[dest + 2] = bit ? 255 : 0;
+        rgba[dest + 3] = 255;
+      }
+    }
+  } else {
+    return null;
+  }
+  return rgba;
+}
+
+async function imageToFile(pdfjs: Pdfjs, image: DecodedImage, fileName: string): Promise<File | null> {
+  const canvas = document.createElement("canvas");
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const context = canvas.getContext("2d");
+  if (!context) return null;
+  if (image.bitmap) {
+    context.drawImage(image.bitmap, 0, 0);
+  } else {
+    const rgba = toRgba(pdfjs, image);
+    if (!rgba) return null;
+    context.putImageData(new ImageData(rgba, image.width, image.height), 0, 0);
+  }
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+  return blob ? new File([blob], fileName, { type: "image/png" }) : null;
+}
+
+// Images shared between pages live in `commonObjs` under a "g_" id.
+function getImageObject(page: PdfPageProxy, id: string): Promise<DecodedImage | null> {
+  const objects = id.startsWith("g_") ? page.commonObjs : page.objs;
+  return new Promise((resolve) => objects.get(id, (image: DecodedImage | null) => resolve(image ?? null)));
+}
+
+type PlacedImage = { id: string | null; image: DecodedImage; top: number; area: number };
+
+async function findImages(pdfjs: Pdfjs, page: PdfPageProxy): Promise<PlacedImage[]> {
+  const { OPS, Util } = pdfjs;
+  const operators = await page.getOperatorList();
+  const placed: PlacedImage[] = [];
+  const stack: number[][] = [];
+  let matrix = [1, 0, 0, 1, 0, 0];
+
+  for (let i = 0; i < operators.fnArray.length; i++) {
+    const fn = operators.fnArray[i];
+    const args = operators.argsArray[i];
+    if (fn === OPS.save) {
+      stack.push(matrix);
+    } else if (fn === OPS.restore) {
+      matrix = stack.pop() ?? matrix;
+    } else if (fn === OPS.transform) {
+      matrix = Util.transform(matrix, args);
+    } else if (fn === OPS.paintImageXObject || fn === OPS.paintInlineImageXObject) {
+      const id = fn === OPS.paintImageXObject ? (args[0] as string) : null;
+      const image = id ? await getImageObject(page, id) : (args[0] as DecodedImage);
+      if (!image || (image.width < MIN_IMAGE_SIZE && image.height < MIN_IMAGE_SIZE)) continue;
+      // Images are drawn into the unit square, so the matrix gives their placement.
+      const width = Math.hypot(matrix[0], matrix[1]);
+      const height = Math.hypot(matrix[2], matrix[3]);
+      placed.push({ id, image, top: matrix[5] + Math.max(0, matrix[3]), area: width * height });
+    }
+  }
+  return placed;
+}
+
+/* ---------------------------------- */
+/* Document                           */
+/* ---------------------------------- */
+
+/** Extracts the lines and images of every page. `onPage` reports progress. */
+export async function readPdf(
+  data: ArrayBuffer,
+  onPage?: (pageNumber: number, pageCount: number) => void
+): Promise<PdfPage[]> {
+  const pdfjs = await loadPdfjs();
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+  try {
+    const pages: { pageNumber: number; lines: PdfLine[]; placed: PlacedImage[] }[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      onPage?.(pageNumber, pdf.numPages);
+      const page = await pdf.getPage(pageNumber);
+      pages.push({ pageNumber, lines: await readLines(page), placed: await findImages(pdfjs, page) });
+      page.cleanup();
+    }
+
+    // The same image object on more than one page is page furniture, not a figure.
+    const pagesById = new Map<string, Set<number>>();
+    for (const page of pages) {
+      for (const { id } of page.placed) {
+        if (id) pagesById.set(id, (pagesById.get(id) ?? new Set()).add(page.pageNumber));
+      }
+    }
+
+    const result: PdfPage[] = [];
+    for (const page of pages) {
+      const images: PdfImage[] = [];
+      for (const [index, placed] of page.placed.entries()) {
+        if (placed.id && (pagesById.get(placed.id)?.size ?? 0) > 1) continue;
+        const file = await imageToFile(pdfjs, placed.image, `page-${page.pageNumber}-${index + 1}.png`);
+        if (file) images.push({ file, top: placed.top, area: placed.area });
+      }
+      result.push({ pageNumber: page.pageNumber, lines: page.lines, images });
+    }
+    return result;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Cuts the pages into question blocks and gives each block the largest image that
+ * sits between its first line and the next block's.
+ */
+export function segmentPdf(pages: PdfPage[]): PdfQuestionBlock[] {
+  const lines = pages.flatMap((page) => page.lines.map((line) => ({ ...line, pageNumber: page.pageNumber })));
+  if (lines.length === 0) return [];
+
+  const blocks = splitQuizLines(lines.map((line) => line.text)).map(({ text, startLine }) => ({
+    text,
+    pageNumber: lines[startLine].pageNumber,
+    y: lines[startLine].y,
+    images: [] as PdfImage[],
+  }));
+  if (blocks.length === 0) return [];
+
+  for (const page of pages) {
+    for (const image of page.images) {
+      // The last block that starts above the image, or the first block if none does.
+      const owner =
+        [...blocks]
+          .reverse()
+          .find((b) => b.pageNumber < page.pageNumber || (b.pageNumber === page.pageNumber && b.y >= image.top - 2)) ??
+        blocks[0];
+      owner.images.push(image);
+    }
+  }
+
+  return blocks.map(({ text, pageNumber, images }) => {
+    const [main] = [...images].sort((a, b) => b.area - a.area);
+    return { text, pageNumber, image: main?.file, extraImages: Math.max(0, images.length - 1) };
+  });
+}
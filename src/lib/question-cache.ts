@@ -0,0 +1,100 @@
+/**
+ * @fileOverview Browser-side copy of the question bank in IndexedDB.
+ *
+ * Holds the last synced questions plus the `syncedAt` marker returned by
+ * `handleSyncQuestions`, so a page load only has to ask the server for what changed.
+ * Every function degrades to a no-op / empty cache when IndexedDB is unavailable
+ * (server rendering, private browsing), which simply means a full fetch.
+ */
+import { type Question } from "@/types";
+
+// The backend is part of the name so switching NEXT_PUBLIC_QUESTION_BACKEND never
+// mixes records from two stores.
+const DB_NAME = `alsalam-qbank-${process.env.NEXT_PUBLIC_QUESTION_BACKEND === "local" ? "local" : "firestore"}`;
+const DB_VERSION = 1;
+const QUESTIONS_STORE = "questions";
+const META_STORE = "meta";
+const SYNCED_AT_KEY = "syncedAt";
+
+export type CachedBank = {
+  questions: Question[];
+  syncedAt: string | null;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available."));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(QUESTIONS_STORE)) db.createObjectStore(QUESTIONS_STORE, { keyPath: "id" });
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function readCachedBank(): Promise<CachedBank> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction([QUESTIONS_STORE, META_STORE], "readonly");
+    const [questions, syncedAt] = await Promise.all([
+      requestToPromise(tx.objectStore(QUESTIONS_STORE).getAll() as IDBRequest<Question[]>),
+      requestToPromise(tx.objectStore(META_STORE).get(SYNCED_AT_KEY) as IDBRequest<string | undefined>),
+    ]);
+    return { questions, syncedAt: syncedAt ?? null };
+  } catch (error) {
+    console.warn("Question cache unavailable; falling back to a full fetch.", error);
+    return { questions: [], syncedAt: null };
+  }
+}
+
+type CacheWrite = {
+  /** Drop every cached question before applying `put`. */
+  replace?: boolean;
+  put?: Question[];
+  remove?: string[];
+  /** Advances the sync marker; leave out for local edits that did not come from a sync. */
+  syncedAt?: string;
+};
+
+export async function writeCachedBank({ replace, put = [], remove = [], syncedAt }: CacheWrite): Promise<void> {
+  try {
+    const db = await openDb();
+    const tx = db.transaction([QUESTIONS_STORE, META_STORE], "readwrite");
+    const questions = tx.objectStore(QUESTIONS_STORE);
+    if (replace) questions.clear();
+    remove.forEach((id) => questions.delete(id));
+    put.forEach((q) => questions.put(q));
+    if (syncedAt) tx.objectStore(META_STORE).put(syncedAt, SYNCED_AT_KEY);
+    await transactionDone(tx);
+  } catch (error) {
+    console.warn("Could not update the question cache.", error);
+  }
+}
@@ -0,0 +1,67 @@
+// src/lib/question-diff.ts
+import { type Question } from "@/types";
+
+export type FieldChange = {
+  field: keyof Question;
+  label: string;
+  before: string;
+  after: string;
+};
+
+// Fields shown in the history diff, in display order. Timestamps are left out on purpose:
+// every revision changes them.
+const DIFF_FIELDS: { field: keyof Question; label: string }[] = [
+  { field: "questionText", label: "Question" },
+  { field: "options", label: "Options" },
+  { field: "correctAnswer", label: "Correct Answer" },
+  { field: "explanation", label: "Explanation" },
+  { field: "subject", label: "Subject" },
+  { field: "chapter", label: "Chapter" },
+  { field: "topicTags", label: "Tags" },
+  { field: "questionType", label: "Type" },
+  { field: "difficulty", label: "Difficulty" },
+  { field: "language", label: "Language" },
+  { field: "source", label: "Source" },
+  { field: "imageUrl", label: "Image" },
+];
+
+export function formatFieldValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) return value.map((v) => String(v ?? "")).join("\n");
+  return String(value);
+}
+
+/** Field-by-field changes going from `before` to `after`. */
+export function diffQuestions(before: Question, after: Question): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const { field, label } of DIFF_FIELDS) {
+    const a = formatFieldValue(before[field]);
+    const b = formatFieldValue(after[field]);
+    if (a !== b) changes.push({ field, label, before: a, after: b });
+  }
+  return changes;
+}
+
+export type MergeResult = {
+  merged: Question;
+  /** Fields both sides changed differently (`before` = theirs, `after` = mine); `merged` keeps mine. */
+  conflicts: FieldChange[];
+};
+
+/**
+ * Three-way merge of an edit (`mine`) with a version someone else saved (`theirs`),
+ * both starting from `base`. Fields only they changed are taken from `theirs`.
+ */
+export function mergeQuestions(base: Question, mine: Question, theirs: Question): MergeResult {
+  const merged: Question = { ...mine, updatedAt: theirs.updatedAt };
+  const conflicts: FieldChange[] = [];
+  for (const { field, label } of DIFF_FIELDS) {
+    const b = formatFieldValue(base[field]);
+    const m = formatFieldValue(mine[field]);
+    const t = formatFieldValue(theirs[field]);
+    if (t === b || t === m) continue;
+    if (m === b) (merged as Record<string, unknown>)[field] = theirs[field];
+    else conflicts.push({ field, label, before: t, after: m });
+  }
+  return { merged, conflicts };
+}
@@ -0,0 +1,171 @@
+/**
+ * @fileOverview Lifecycle of question images in Firebase Storage.
+ *
+ * Images live under `question-images/{questionId}/`. They are removed when their
+ * question is purged, or when the question's `imageUrl` is replaced and no revision in
+ * its history shows the old image either. The storage audit finds files that no
+ * question (live or trashed) points at any more; the server action leaves out those a
+ * revision still shows, so restoring a revision brings its image back.
+ *
+ * Every function takes the Storage instance as an optional last argument so it can
+ * be exercised against the Storage emulator.
+ */
+import {
+  ref,
+  listAll,
+  uploadBytes,
+  getDownloadURL,
+  deleteObject,
+  getMetadata,
+  getBytes,
+  type FirebaseStorage,
+  type StorageReference,
+} from "firebase/storage";
+import { storage as defaultStorage } from "@/lib/firebase";
+import { type Question } from "@/types";
+
+export const QUESTION_IMAGES_ROOT = "question-images";
+
+export type OrphanReason = "question-missing" | "image-replaced";
+
+export type OrphanedImage = {
+  path: string;
+  questionId: string;
+  reason: OrphanReason;
+  size: number;
+  updated: string;
+};
+
+export async function uploadQuestionImage(
+  questionId: string,
+  file: File,
+  storage: FirebaseStorage = defaultStorage
+): Promise<string> {
+  if (!file) throw new Error("No file provided for upload.");
+  if (!questionId) throw new Error("Question ID is required for image upload.");
+
+  const storageRef = ref(storage, `${QUESTION_IMAGES_ROOT}/${questionId}/${Date.now()}-${file.name}`);
+  const snapshot = await uploadBytes(storageRef, file);
+  return await getDownloadURL(snapshot.ref);
+}
+
+/**
+ * Storage path for a download URL, or null when the URL is not one of our question
+ * images (e.g. an external link or a file in another bucket).
+ */
+export function imagePathFromUrl(url: string | undefined, storage: FirebaseStorage = defaultStorage): string | null {
+  if (!url) return null;
+  try {
+    const imageRef = ref(storage, url);
+    if (imageRef.bucket !== ref(storage).bucket) return null;
+    return imageRef.fullPath.startsWith(`${QUESTION_IMAGES_ROOT}/`) ? imageRef.fullPath : null;
+  } catch {
+    return null;
+  }
+}
+
+const isNotFound = (error: unknown) => (error as { code?: string })?.code === "storage/object-not-found";
+
+async function deleteIfPresent(target: StorageReference) {
+  try {
+    await deleteObject(target);
+  } catch (error) {
+    if (!isNotFound(error)) throw error;
+  }
+}
+
+async function listFilesUnder(dir: StorageReference): Promise<StorageReference[]> {
+  const { items, prefixes } = await listAll(dir);
+  const nested = await Promise.all(prefixes.map(listFilesUnder));
+  return items.concat(...nested);
+}
+
+export type StoredImage = {
+  fileName: string;
+  contentType: string;
+  bytes: ArrayBuffer;
+};
+
+/** Downloads the image behind `url`, or null when it is not a question image or is gone. */
+export async function readImageByUrl(
+  url: string | undefined,
+  storage: FirebaseStorage = defaultStorage
+): Promise<StoredImage | null> {
+  const path = imagePathFromUrl(url, storage);
+  if (!path) return null;
+  const imageRef = ref(storage, path);
+  try {
+    const [bytes, metadata] = await Promise.all([getBytes(imageRef), getMetadata(imageRef)]);
+    return { fileName: imageRef.name, contentType: metadata.contentType ?? "application/octet-stream", bytes };
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    throw error;
+  }
+}
+
+/** Whether `url` is a question image that is still in storage. */
+export async function imageExists(url: string | undefined, storage: FirebaseStorage = defaultStorage) {
+  const path = imagePathFromUrl(url, storage);
+  if (!path) return false;
+  try {
+    await getMetadata(ref(storage, path));
+    return true;
+  } catch (error) {
+    if (isNotFound(error)) return false;
+    throw error;
+  }
+}
+
+/** Removes the image behind `url`. Returns false when the URL is not a question image. */
+export async function deleteImageByUrl(url: string | undefined, storage: FirebaseStorage = defaultStorage) {
+  const path = imagePathFromUrl(url, storage);
+  if (!path) return false;
+  await deleteIfPresent(ref(storage, path));
+  return true;
+}
+
+/** Removes every file stored for a question. Returns the deleted paths. */
+export async function deleteQuestionImages(questionId: string, storage: FirebaseStorage = defaultStorage) {
+  if (!questionId) return [];
+  const files = await listFilesUnder(ref(storage, `${QUESTION_IMAGES_ROOT}/${questionId}`));
+  await Promise.all(files.map(deleteIfPresent));
+  return files.map((file) => file.fullPath);
+}
+
+/**
+ * Files under `question-images/` that none of `questions` references. Pass trashed
+ * questions too, otherwise restoring them would bring back a broken image.
+ */
+export async function findOrphanedImages(
+  questions: Question[],
+  storage: FirebaseStorage = defaultStorage
+): Promise<OrphanedImage[]> {
+  const questionIds = new Set(questions.map((q) => q.id));
+  const referenced = new Set(
+    questions.map((q) => imagePathFromUrl(q.imageUrl, storage)).filter((p): p is string => !!p)
+  );
+
+  const files = await listFilesUnder(ref(storage, QUESTION_IMAGES_ROOT));
+  const orphans = files.filter((file) => !referenced.has(file.fullPath));
+
+  return Promise.all(
+    orphans.map(async (file) => {
+      const questionId = file.fullPath.split("/")[1] ?? "";
+      const metadata = await getMetadata(file).catch(() => null);
+      return {
+        path: file.fullPath,
+        questionId,
+        reason: questionIds.has(questionId) ? "image-replaced" : "question-missing",
+        size: metadata?.size ?? 0,
+        updated: metadata?.updated ?? "",
+      } satisfies OrphanedImage;
+    })
+  );
+}
+
+/** Deletes files by storage path. Paths outside `question-images/` are ignored. */
+export async function deleteImagesByPath(paths: string[], storage: FirebaseStorage = defaultStorage) {
+  const targets = paths.filter((p) => p.startsWith(`${QUESTION_IMAGES_ROOT}/`));
+  await Promise.all(targets.map((p) => deleteIfPresent(ref(storage, p))));
+  return targets;
+}
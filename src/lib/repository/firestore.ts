@@ -0,0 +1,345 @@
+// src/lib/repository/firestore.ts
+import { db } from '@/lib/firebase';
+import {
+  collection,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  orderBy,
+  query,
+  runTransaction,
+  updateDoc,
+  where,
+  writeBatch,
+  type DocumentData,
+  type QueryConstraint,
+  type WriteBatch,
+} from 'firebase/firestore';
+import { type Question, type QuestionRevision, type RevisionMeta } from '@/types';
+import {
+  QuestionConflictError,
+  isTrashed,
+  type NewQuestion,
+  type QuestionChanges,
+  type QuestionQuery,
+  type QuestionRepository,
+} from './types';
+
+const QUESTIONS_COLLECTION = 'questions';
+// Subcollection under each question document.
+const REVISIONS_COLLECTION = 'revisions';
+// One document per purged question, keyed by its id, so delta syncs can see the purge.
+const TOMBSTONES_COLLECTION = 'question-tombstones';
+// Firestore caps a batch at 500 writes; a revisioned update costs two.
+const BATCH_QUESTION_LIMIT = 200;
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out;
+}
+
+// Older documents store createdAt/updatedAt as Firestore Timestamps. Server actions can
+// only return plain objects, so timestamps are turned into ISO strings on the way out.
+function toIsoString(val: any): string {
+  if (!val) return '';
+  if (typeof val?.toDate === 'function') {
+    try {
+      return val.toDate().toISOString();
+    } catch {
+      /* noop */
+    }
+  }
+  return String(val);
+}
+
+export function fromFirestore(id: string, data: DocumentData): Question {
+  return {
+    ...(data as Omit<Question, 'id'>),
+    id,
+    createdAt: toIsoString(data.createdAt),
+    updatedAt: toIsoString(data.updatedAt),
+  };
+}
+
+function toFirestoreData(question: Question): DocumentData {
+  // The document ID is part of the reference, not the data itself
+  const { id: _id, ...data } = question;
+  return data;
+}
+
+function revisionRecord(snapshot: Question, meta: RevisionMeta): Omit<QuestionRevision, 'id'> {
+  return { ...meta, questionId: snapshot.id, snapshot, createdAt: new Date().toISOString() };
+}
+
+// Snapshots the stored version of each question into its revisions subcollection and
+// overwrites it with the new data, all in the given batch.
+async function writeWithRevisions(batch: WriteBatch, questions: Question[], meta: RevisionMeta) {
+  const current = await Promise.all(
+    questions.map((q) => getDoc(doc(db, QUESTIONS_COLLECTION, q.id)))
+  );
+
+  current.forEach((snapshot, i) => {
+    if (!snapshot.exists()) throw new Error(`Question ${questions[i].id} does not exist.`);
+    const revisionRef = doc(collection(snapshot.ref, REVISIONS_COLLECTION));
+    batch.set(revisionRef, revisionRecord(fromFirestore(snapshot.id, snapshot.data()), meta));
+    // A full overwrite so fields cleared by the update (or by a restore) are really removed.
+    batch.set(snapshot.ref, toFirestoreData(questions[i]));
+  });
+}
+
+export function createFirestoreRepository(): QuestionRepository {
+  const questionsCollection = collection(db, QUESTIONS_COLLECTION);
+
+  const runQuery = async (...constraints: QueryConstraint[]) => {
+    const snapshot = await getDocs(query(questionsCollection, ...constraints));
+    return snapshot.docs.map((d) => fromFirestore(d.id, d.data()));
+  };
+
+  const getQuestion = async (id: string) => {
+    const snapshot = await getDoc(doc(db, QUESTIONS_COLLECTION, id));
+    return snapshot.exists() ? fromFirestore(snapshot.id, snapshot.data()) : null;
+  };
+
+  return {
+    async list() {
+      // Most documents have no deletedAt field at all, which Firestore cannot match with
+      // an equality filter, so trashed questions are dropped in memory.
+      const questions = await runQuery(orderBy('createdAt', 'desc'));
+      return questions.filter((q) => !isTrashed(q));
+    },
+
+    get: getQuestion,
+
+    async createMany(questions: NewQuestion[]) {
+      const now = new Date().toISOString();
+      const saved: Question[] = [];
+
+      for (const part of chunk(questions, BATCH_QUESTION_LIMIT)) {
+        const batch = writeBatch(db);
+        part.forEach((question) => {
+          const docRef = doc(questionsCollection); // Automatically generate new doc ID
+          const questionData: Question = {
+            ...question,
+            id: docRef.id,
+            createdAt: now,
+            updatedAt: now,
+          };
+          batch.set(docRef, toFirestoreData(questionData));
+          saved.push(questionData);
+        });
+        await batch.commit();
+      }
+
+      return saved;
+    },
+
+    async update(question, revision, options) {
+      const expectedUpdatedAt = options?.expectedUpdatedAt;
+      if (expectedUpdatedAt) {
+        // Check and write in one transaction so two editors cannot both pass the check.
+        await runTransaction(db, async (tx) => {
+          const questionRef = doc(db, QUESTIONS_COLLECTION, question.id);
+          const snapshot = await tx.get(questionRef);
+          if (!snapshot.exists()) throw new Error(`Question ${question.id} does not exist.`);
+          const current = fromFirestore(snapshot.id, snapshot.data());
+          if (current.updatedAt !== expectedUpdatedAt) throw new QuestionConflictError(current);
+          if (revision) {
+            tx.set(doc(collection(questionRef, REVISIONS_COLLECTION)), revisionRecord(current, revision));
+            tx.set(questionRef, toFirestoreData(question));
+          } else {
+            tx.update(questionRef, toFirestoreData(question));
+          }
+        });
+        return;
+      }
+      if (!revision) {
+        await updateDoc(doc(db, QUESTIONS_COLLECTION, question.id), toFirestoreData(question));
+        return;
+      }
+      const batch = writeBatch(db);
+      await writeWithRevisions(batch, [question], revision);
+      await batch.commit();
+    },
+
+    async updateMany(questions, revision, options) {
+      const expected = options?.expectedUpdatedAt ?? {};
+      const conflicts: Question[] = [];
+      for (const part of chunk(questions, BATCH_QUESTION_LIMIT)) {
+        if (part.some((q) => expected[q.id])) {
+          // As in `update`, the check and the writes share a transaction. It may be retried,
+          // so only the conflicts of the run that commits are kept.
+          const partConflicts = await runTransaction(db, async (tx) => {
+            const refs = part.map((q) => doc(db, QUESTIONS_COLLECTION, q.id));
+            const snapshots = await Promise.all(refs.map((ref) => tx.get(ref)));
+            const found: Question[] = [];
+            snapshots.forEach((snapshot, i) => {
+              if (!snapshot.exists()) throw new Error(`Question ${part[i].id} does not exist.`);
+              const current = fromFirestore(snapshot.id, snapshot.data());
+              const expectedUpdatedAt = expected[current.id];
+              if (expectedUpdatedAt && current.updatedAt !== expectedUpdatedAt) {
+                found.push(current);
+              } else if (revision) {
+                tx.set(doc(collection(refs[i], REVISIONS_COLLECTION)), revisionRecord(current, revision));
+                tx.set(refs[i], toFirestoreData(part[i]));
+              } else {
+                tx.update(refs[i], toFirestoreData(part[i]));
+              }
+            });
+            return found;
+          });
+          conflicts.push(...partConflicts);
+          continue;
+        }
+        const batch = writeBatch(db);
+        if (revision) {
+          await writeWithRevisions(batch, part, revision);
+        } else {
+          part.forEach((q) => {
+            batch.update(doc(db, QUESTIONS_COLLECTION, q.id), toFirestoreData(q));
+          });
+        }
+        await batch.commit();
+      }
+      return conflicts;
+    },
+
+    async insertMany(questions) {
+      for (const part of chunk(questions, BATCH_QUESTION_LIMIT)) {
+        const batch = writeBatch(db);
+        part.forEach((q) => batch.set(doc(db, QUESTIONS_COLLECTION, q.id), toFirestoreData(q)));
+        await batch.commit();
+      }
+    },
+
+    async delete(id) {
+      const questionRef = doc(db, QUESTIONS_COLLECTION, id);
+      // Subcollections are not removed with their parent document.
+      const history = await getDocs(collection(questionRef, REVISIONS_COLLECTION));
+      // The question goes last, together with its tombstone, once its history is gone.
+      for (const part of chunk(history.docs.map((d) => d.ref), 2 * BATCH_QUESTION_LIMIT)) {
+        const batch = writeBatch(db);
+        part.forEach((ref) => batch.delete(ref));
+        await batch.commit();
+      }
+      const batch = writeBatch(db);
+      batch.delete(questionRef);
+      batch.set(doc(db, TOMBSTONES_COLLECTION, id), { purgedAt: new Date().toISOString() });
+      await batch.commit();
+    },
+
+    async trash(ids, actor) {
+      const now = new Date().toISOString();
+      for (const part of chunk(ids, 2 * BATCH_QUESTION_LIMIT)) {
+        const batch = writeBatch(db);
+        part.forEach((id) => {
+          batch.update(doc(db, QUESTIONS_COLLECTION, id), {
+            deletedAt: now,
+            deletedBy: actor,
+            updatedAt: now,
+          });
+        });
+        await batch.commit();
+      }
+    },
+
+    async restore(ids) {
+      const now = new Date().toISOString();
+      for (const part of chunk(ids, 2 * BATCH_QUESTION_LIMIT)) {
+        const batch = writeBatch(db);
+        part.forEach((id) => {
+          batch.update(doc(db, QUESTIONS_COLLECTION, id), {
+            deletedAt: deleteField(),
+            deletedBy: deleteField(),
+            updatedAt: now,
+          });
+        });
+        await batch.commit();
+      }
+      const restored = await Promise.all(ids.map(getQuestion));
+      return restored.filter((q): q is Question => q !== null);
+    },
+
+    async listTrash() {
+      const questions = await runQuery(where('deletedAt', '!=', null));
+      return questions.sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? ''));
+    },
+
+    async query(filter: QuestionQuery) {
+      const constraints: QueryConstraint[] = [];
+      if (filter.chapter) constraints.push(where('chapter', '==', filter.chapter));
+      if (filter.questionType) constraints.push(where('questionType', '==', filter.questionType));
+      // Ordering is applied in memory so equality filters don't need a composite index.
+      const results = await runQuery(...constraints);
+      return results
+        .filter((q) => !isTrashed(q))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+
+    async listChangedSince(since) {
+      // Documents whose updatedAt is still a legacy Timestamp never match a string range;
+      // they are only picked up by a full list, and any app write converts them.
+      const [changed, tombstones] = await Promise.all([
+        runQuery(where('updatedAt', '>', since)),
+        getDocs(query(collection(db, TOMBSTONES_COLLECTION), where('purgedAt', '>', since))),
+      ]);
+      return { changed, purgedIds: tombstones.docs.map((d) => d.id) };
+    },
+
+    async listRevisions(questionId) {
+      const snapshot = await getDocs(
+        query(
+          collection(db, QUESTIONS_COLLECTION, questionId, REVISIONS_COLLECTION),
+          orderBy('createdAt', 'desc')
+        )
+      );
+      return snapshot.docs.map((d) => ({ ...(d.data() as Omit<QuestionRevision, 'id'>), id: d.id }));
+    },
+  };
+}
+
+/**
+ * Live feed of questions written or purged after `since`, for the browser. The first
+ * call delivers everything already past the cutoff, later calls only what changed.
+ * Returns the unsubscribe function.
+ */
+export function subscribeToQuestionChanges(
+  since: string,
+  onChanges: (changes: QuestionChanges) => void,
+  onError: (error: Error) => void
+): () => void {
+  const questionsQuery = query(collection(db, QUESTIONS_COLLECTION), where('updatedAt', '>', since));
+  const tombstonesQuery = query(collection(db, TOMBSTONES_COLLECTION), where('purgedAt', '>', since));
+
+  const unsubscribeQuestions = onSnapshot(
+    questionsQuery,
+    (snapshot) => {
+      const changes: QuestionChanges = { changed: [], purgedIds: [] };
+      snapshot.docChanges().forEach((change) => {
+        // A document only leaves this query when it is deleted.
+        if (change.type === 'removed') changes.purgedIds.push(change.doc.id);
+        else changes.changed.push(fromFirestore(change.doc.id, change.doc.data()));
+      });
+      if (changes.changed.length || changes.purgedIds.length) onChanges(changes);
+    },
+    onError
+  );
+  const unsubscribeTombstones = onSnapshot(
+    tombstonesQuery,
+    (snapshot) => {
+      const purgedIds = snapshot
+        .docChanges()
+        .filter((change) => change.type === 'added')
+        .map((change) => change.doc.id);
+      if (purgedIds.length) onChanges({ changed: [], purgedIds });
+    },
+    onError
+  );
+
+  return () => {
+    unsubscribeQuestions();
+    unsubscribeTombstones();
+  };
+}
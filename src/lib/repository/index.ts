@@ -0,0 +1,61 @@
+// src/lib/repository/index.ts
+/**
+ * @fileOverview Storage-agnostic access to the question bank.
+ *
+ * Server actions talk to a `QuestionRepository` instead of Firestore directly, so the
+ * app can run against a live Firebase project or against a local JSON file / in-memory
+ * store. The backend is picked with `NEXT_PUBLIC_QUESTION_BACKEND` ("firestore" | "local").
+ */
+
+import { type QuestionRepository } from './types';
+import { createFirestoreRepository } from './firestore';
+import { createLocalRepository } from './local';
+import { createFirestoreTaxonomyStore, createLocalTaxonomyStore, type TaxonomyStore } from './taxonomy';
+
+export type {
+  NewQuestion,
+  QuestionChanges,
+  QuestionQuery,
+  QuestionRepository,
+  UpdateManyOptions,
+  UpdateOptions,
+} from './types';
+export { QuestionConflictError } from './types';
+export type { TaxonomyStore } from './taxonomy';
+
+export type QuestionBackend = 'firestore' | 'local';
+
+export function getQuestionBackend(): QuestionBackend {
+  return process.env.NEXT_PUBLIC_QUESTION_BACKEND === 'local' ? 'local' : 'firestore';
+}
+
+// Keep one instance per server process (and across dev hot reloads) so the
+// in-memory store does not reset between requests.
+const globalForRepository = globalThis as unknown as {
+  __questionRepository?: QuestionRepository;
+  __taxonomyStore?: TaxonomyStore;
+};
+
+export function getQuestionRepository(): QuestionRepository {
+  if (!globalForRepository.__questionRepository) {
+    globalForRepository.__questionRepository =
+      getQuestionBackend() === 'local'
+        ? createLocalRepository({
+            filePath: process.env.QUESTION_STORE_FILE,
+            seed: process.env.QUESTION_STORE_SEED,
+          })
+        : createFirestoreRepository();
+  }
+  return globalForRepository.__questionRepository;
+}
+
+/** Subjects and chapters, stored next to the questions of the same backend. */
+export function getTaxonomyStore(): TaxonomyStore {
+  if (!globalForRepository.__taxonomyStore) {
+    globalForRepository.__taxonomyStore =
+      getQuestionBackend() === 'local'
+        ? createLocalTaxonomyStore({ filePath: process.env.TAXONOMY_STORE_FILE })
+        : createFirestoreTaxonomyStore();
+  }
+  return globalForRepository.__taxonomyStore;
+}
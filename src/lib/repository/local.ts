@@ -0,0 +1,213 @@
+// src/lib/repository/local.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { type Question, type QuestionRevision, type RevisionMeta } from '@/types';
+import { mockQuestions } from '@/lib/mock-data';
+import {
+  QuestionConflictError,
+  isTrashed,
+  matchesQuery,
+  type NewQuestion,
+  type QuestionQuery,
+  type QuestionRepository,
+} from './types';
+
+type LocalRepositoryOptions = {
+  /** JSON file to persist to. When omitted the store lives in memory only. */
+  filePath?: string;
+  /** "mock" seeds an empty store with the fixtures from `mock-data.ts`. */
+  seed?: string;
+  /** Explicit initial records; takes precedence over `seed`. */
+  initialQuestions?: Question[];
+};
+
+// On-disk layout. Older files are a bare array of questions.
+type LocalStoreFile = {
+  questions: Question[];
+  revisions: QuestionRevision[];
+  tombstones?: Tombstone[];
+};
+
+type Tombstone = { id: string; purgedAt: string };
+
+const byCreatedAtDesc = (a: { createdAt: string }, b: { createdAt: string }) =>
+  b.createdAt.localeCompare(a.createdAt);
+
+export function createLocalRepository(options: LocalRepositoryOptions = {}): QuestionRepository {
+  const filePath = options.filePath ? path.resolve(options.filePath) : null;
+  const store = new Map<string, Question>();
+  const revisions: QuestionRevision[] = [];
+  const tombstones: Tombstone[] = [];
+  let loaded: Promise<void> | null = null;
+  // Serializes file writes so concurrent actions never interleave partial JSON.
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  const seedQuestions = (): Question[] => {
+    if (options.initialQuestions) return options.initialQuestions;
+    if (options.seed === 'mock') return mockQuestions;
+    return [];
+  };
+
+  const load = () => {
+    if (!loaded) {
+      loaded = (async () => {
+        let records: LocalStoreFile | null = null;
+        if (filePath) {
+          try {
+            const parsed = JSON.parse(await fs.readFile(filePath, 'utf8'));
+            records = Array.isArray(parsed) ? { questions: parsed, revisions: [] } : parsed;
+          } catch (error: any) {
+            if (error?.code !== 'ENOENT') throw error;
+          }
+        }
+        for (const q of records?.questions ?? seedQuestions()) store.set(q.id, { ...q });
+        revisions.push(...(records?.revisions ?? []));
+        tombstones.push(...(records?.tombstones ?? []));
+        if (!records && filePath && store.size > 0) await persist();
+      })();
+    }
+    return loaded;
+  };
+
+  const persist = () => {
+    if (!filePath) return Promise.resolve();
+    const data: LocalStoreFile = { questions: Array.from(store.values()), revisions, tombstones };
+    const snapshot = JSON.stringify(data, null, 2);
+    writeQueue = writeQueue.then(async () => {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, snapshot, 'utf8');
+    });
+    return writeQueue;
+  };
+
+  const requireExisting = (id: string) => {
+    const existing = store.get(id);
+    if (!existing) throw new Error(`Question ${id} does not exist.`);
+    return existing;
+  };
+
+  const recordRevisions = (previous: Question[], meta: RevisionMeta) => {
+    const now = new Date().toISOString();
+    previous.forEach((snapshot) => {
+      revisions.push({ ...meta, id: randomUUID(), questionId: snapshot.id, snapshot, createdAt: now });
+    });
+  };
+
+  return {
+    async list() {
+      await load();
+      return Array.from(store.values())
+        .filter((q) => !isTrashed(q))
+        .sort(byCreatedAtDesc);
+    },
+
+    async get(id) {
+      await load();
+      return store.get(id) ?? null;
+    },
+
+    async createMany(questions: NewQuestion[]) {
+      await load();
+      const now = new Date().toISOString();
+      const saved = questions.map((question) => ({
+        ...question,
+        id: randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+      }));
+      saved.forEach((q) => store.set(q.id, q));
+      await persist();
+      return saved;
+    },
+
+    async update(question, revision, options) {
+      await load();
+      const previous = requireExisting(question.id);
+      if (options?.expectedUpdatedAt && previous.updatedAt !== options.expectedUpdatedAt) {
+        throw new QuestionConflictError(previous);
+      }
+      if (revision) recordRevisions([previous], revision);
+      // Revisioned writes overwrite, matching the Firestore backend.
+      store.set(question.id, revision ? { ...question } : { ...previous, ...question });
+      await persist();
+    },
+
+    async updateMany(questions, revision, options) {
+      await load();
+      // Validate everything first so a missing id leaves the store untouched, like a batch.
+      const previous = questions.map((q) => requireExisting(q.id));
+      const expected = options?.expectedUpdatedAt ?? {};
+      const isConflict = (q: Question) => !!expected[q.id] && q.updatedAt !== expected[q.id];
+      const writes = questions
+        .map((question, i) => ({ question, previous: previous[i] }))
+        .filter((w) => !isConflict(w.previous));
+      if (revision) recordRevisions(writes.map((w) => w.previous), revision);
+      writes.forEach((w) => store.set(w.question.id, revision ? { ...w.question } : { ...w.previous, ...w.question }));
+      await persist();
+      return previous.filter(isConflict);
+    },
+
+    async insertMany(questions) {
+      await load();
+      questions.forEach((q) => store.set(q.id, { ...q }));
+      await persist();
+    },
+
+    async delete(id) {
+      await load();
+      if (store.delete(id)) tombstones.push({ id, purgedAt: new Date().toISOString() });
+      for (let i = revisions.length - 1; i >= 0; i--) {
+        if (revisions[i].questionId === id) revisions.splice(i, 1);
+      }
+      await persist();
+    },
+
+    async trash(ids, actor) {
+      await load();
+      const now = new Date().toISOString();
+      const targets = ids.map(requireExisting);
+      targets.forEach((q) => store.set(q.id, { ...q, deletedAt: now, deletedBy: actor, updatedAt: now }));
+      await persist();
+    },
+
+    async restore(ids) {
+      await load();
+      const now = new Date().toISOString();
+      const restored = ids.map(requireExisting).map(({ deletedAt: _d, deletedBy: _b, ...q }) => ({
+        ...q,
+        updatedAt: now,
+      }));
+      restored.forEach((q) => store.set(q.id, q));
+      await persist();
+      return restored;
+    },
+
+    async listTrash() {
+      await load();
+      return Array.from(store.values())
+        .filter(isTrashed)
+        .sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? ''));
+    },
+
+    async query(filter: QuestionQuery) {
+      await load();
+      return Array.from(store.values())
+        .filter((q) => matchesQuery(q, filter))
+        .sort(byCreatedAtDesc);
+    },
+
+    async listChangedSince(since) {
+      await load();
+      return {
+        changed: Array.from(store.values()).filter((q) => q.updatedAt > since),
+        purgedIds: tombstones.filter((t) => t.purgedAt > since).map((t) => t.id),
+      };
+    },
+
+    async listRevisions(questionId) {
+      await load();
+      return revisions.filter((r) => r.questionId === questionId).sort(byCreatedAtDesc);
+    },
+  };
+}
@@ -0,0 +1,61 @@
+// src/lib/repository/taxonomy.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { DEFAULT_TAXONOMY } from '@/lib/taxonomy';
+import { type Taxonomy } from '@/types';
+
+export interface TaxonomyStore {
+  /** The saved taxonomy, or the default one when none was saved yet. */
+  get(): Promise<Taxonomy>;
+  /** Replaces the taxonomy and returns it as stored. */
+  save(taxonomy: Taxonomy): Promise<Taxonomy>;
+}
+
+// A single settings document holds the whole tree; it is small and always read at once.
+const SETTINGS_COLLECTION = 'settings';
+const TAXONOMY_DOC = 'taxonomy';
+
+export function createFirestoreTaxonomyStore(): TaxonomyStore {
+  const ref = doc(db, SETTINGS_COLLECTION, TAXONOMY_DOC);
+  return {
+    async get() {
+      const snapshot = await getDoc(ref);
+      return snapshot.exists() ? (snapshot.data() as Taxonomy) : DEFAULT_TAXONOMY;
+    },
+
+    async save(taxonomy) {
+      const stored = { ...taxonomy, updatedAt: new Date().toISOString() };
+      await setDoc(ref, stored);
+      return stored;
+    },
+  };
+}
+
+export function createLocalTaxonomyStore(options: { filePath?: string } = {}): TaxonomyStore {
+  const filePath = options.filePath ? path.resolve(options.filePath) : null;
+  let current: Taxonomy | null = null;
+
+  return {
+    async get() {
+      if (!current && filePath) {
+        try {
+          current = JSON.parse(await fs.readFile(filePath, 'utf8')) as Taxonomy;
+        } catch (error: any) {
+          if (error?.code !== 'ENOENT') throw error;
+        }
+      }
+      return current ?? DEFAULT_TAXONOMY;
+    },
+
+    async save(taxonomy) {
+      current = { ...taxonomy, updatedAt: new Date().toISOString() };
+      if (filePath) {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, JSON.stringify(current, null, 2), 'utf8');
+      }
+      return current;
+    },
+  };
+}
@@ -0,0 +1,84 @@
+// src/lib/repository/types.ts
+import { type Question, type QuestionRevision, type RevisionMeta } from '@/types';
+
+export type NewQuestion = Omit<Question, 'id' | 'createdAt' | 'updatedAt'>;
+
+export type QuestionQuery = {
+  chapter?: string;
+  questionType?: Question['questionType'];
+};
+
+export type UpdateOptions = {
+  /**
+   * The `updatedAt` the caller's copy was based on. When the stored question has moved
+   * on since, the write is refused with a `QuestionConflictError`.
+   */
+  expectedUpdatedAt?: string;
+};
+
+export type UpdateManyOptions = {
+  /** Question id -> the `updatedAt` the caller's copy was based on; see `UpdateOptions`. */
+  expectedUpdatedAt?: Record<string, string>;
+};
+
+/** Thrown by `update` when someone else saved the question first. */
+export class QuestionConflictError extends Error {
+  constructor(public readonly current: Question) {
+    super(`Question ${current.id} was changed by someone else.`);
+    this.name = 'QuestionConflictError';
+  }
+}
+
+export type QuestionChanges = {
+  /** Questions written after the cutoff, trashed ones included so callers can drop them. */
+  changed: Question[];
+  /** Questions permanently deleted after the cutoff. */
+  purgedIds: string[];
+};
+
+export interface QuestionRepository {
+  /** All questions that are not in the trash, newest first. */
+  list(): Promise<Question[]>;
+  get(id: string): Promise<Question | null>;
+  /** Assigns ids and timestamps, writes the records in batches and returns what was stored. */
+  createMany(questions: NewQuestion[]): Promise<Question[]>;
+  /**
+   * Overwrites a question. With `revision`, the stored version is snapshotted into the
+   * question's history in the same write.
+   */
+  update(question: Question, revision?: RevisionMeta, options?: UpdateOptions): Promise<void>;
+  /**
+   * Overwrites several questions at once. Those that changed since their expected
+   * `updatedAt` are left alone and returned as stored; the rest are written.
+   */
+  updateMany(questions: Question[], revision?: RevisionMeta, options?: UpdateManyOptions): Promise<Question[]>;
+  /**
+   * Writes complete records under their own ids, e.g. when restoring a backup. A stored
+   * question with the same id is replaced without a revision.
+   */
+  insertMany(questions: Question[]): Promise<void>;
+  /** Permanently removes a question and its history, leaving a tombstone for `listChangedSince`. */
+  delete(id: string): Promise<void>;
+  /** Moves questions to the trash; they stay readable through `get` and `listTrash`. */
+  trash(ids: string[], actor: string): Promise<void>;
+  /** Takes questions out of the trash and returns them as stored. */
+  restore(ids: string[]): Promise<Question[]>;
+  /** Trashed questions, most recently deleted first. */
+  listTrash(): Promise<Question[]>;
+  query(filter: QuestionQuery): Promise<Question[]>;
+  /** Everything written or purged after `since` (an ISO timestamp). */
+  listChangedSince(since: string): Promise<QuestionChanges>;
+  /** Prior versions of a question, newest first. */
+  listRevisions(questionId: string): Promise<QuestionRevision[]>;
+}
+
+export function isTrashed(question: Question): boolean {
+  return !!question.deletedAt;
+}
+
+export function matchesQuery(question: Question, filter: QuestionQuery): boolean {
+  if (isTrashed(question)) return false;
+  if (filter.chapter && question.chapter !== filter.chapter) return false;
+  if (filter.questionType && question.questionType !== filter.questionType) return false;
+  return true;
+}
@@ -0,0 +1,198 @@
+/**
+ * @fileOverview Local full-text search over the question bank.
+ *
+ * An inverted index over the stem, options, explanation, tags and source, ranked with
+ * BM25 per field and a boost per field, so a term in the stem counts for more than the
+ * same term in the explanation. Text goes through `normalizeText` with English stemming,
+ * and Arabic words lose their article and attached conjunctions, so "والتشفير" finds
+ * "التشفير" and "تشفير", and "encrypts" finds "encrypted". Every query word must match;
+ * the last one also matches as a prefix (the user is still typing it), and longer words
+ * tolerate a typo.
+ */
+import { type Question } from "@/types";
+import { normalizeText, stripArabicArticle } from "@/lib/normalize-text";
+
+const SEARCH_FIELDS = ["questionText", "options", "explanation", "topicTags", "source"] as const;
+type SearchField = (typeof SEARCH_FIELDS)[number];
+
+const FIELD_BOOST: Record<SearchField, number> = {
+  questionText: 3,
+  options: 2,
+  explanation: 1,
+  topicTags: 2,
+  source: 1,
+};
+
+// Standard BM25 constants.
+const K1 = 1.2;
+const B = 0.75;
+// A prefix or near match is worth less than the word itself.
+const PREFIX_WEIGHT = 0.7;
+const TYPO_WEIGHT = 0.5;
+// Words at least this long may have one typo; twice this long, two.
+const MIN_TYPO_LENGTH = 4;
+const MAX_EXPANSIONS = 30;
+
+type Posting = { doc: number; tf: number[] };
+
+export type SearchIndex = {
+  ids: string[];
+  /** Token count per document and field. */
+  lengths: number[][];
+  averageLengths: number[];
+  postings: Map<string, Posting[]>;
+  /** Every indexed term, sorted, for prefix lookups. */
+  terms: string[];
+};
+
+export type SearchHit = {
+  id: string;
+  score: number;
+  /** Index terms that matched, for highlighting. */
+  terms: string[];
+};
+
+export function tokenize(text: string): string[] {
+  return normalizeText(text, { stem: true }).split(" ").filter(Boolean).map(stripArabicArticle);
+}
+
+function fieldText(q: Question, field: SearchField): string {
+  const value = q[field];
+  return Array.isArray(value) ? value.join("\n") : value ?? "";
+}
+
+export function buildSearchIndex(questions: Question[]): SearchIndex {
+  const postings = new Map<string, Posting[]>();
+  const lengths = questions.map((q, doc) =>
+    SEARCH_FIELDS.map((field, f) => {
+      const tokens = tokenize(fieldText(q, field));
+      for (const token of tokens) {
+        const list = postings.get(token) ?? [];
+        if (list.length === 0) postings.set(token, list);
+        let posting = list[list.length - 1];
+        if (posting?.doc !== doc) {
+          posting = { doc, tf: SEARCH_FIELDS.map(() => 0) };
+          list.push(posting);
+        }
+        posting.tf[f]++;
+      }
+      return tokens.length;
+    })
+  );
+  const averageLengths = SEARCH_FIELDS.map(
+    (_, f) => lengths.reduce((sum, l) => sum + l[f], 0) / (questions.length || 1) || 1
+  );
+  return {
+    ids: questions.map((q) => q.id),
+    lengths,
+    averageLengths,
+    postings,
+    terms: [...postings.keys()].sort(),
+  };
+}
+
+// Levenshtein distance, giving up once it exceeds `max`.
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Index terms a query word stands for, with the weight each one counts for.
+function expand(index: SearchIndex, word: string, asPrefix: boolean): Map<string, number> {
+  const expansions = new Map<string, number>();
+  if (index.postings.has(word)) expansions.set(word, 1);
+
+  if (asPrefix) {
+    let lo = 0;
+    let hi = index.terms.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (index.terms[mid] < word) lo = mid + 1;
+      else hi = mid;
+    }
+    for (let i = lo; i < index.terms.length && index.terms[i].startsWith(word); i++) {
+      if (expansions.size >= MAX_EXPANSIONS) break;
+      if (!expansions.has(index.terms[i])) expansions.set(index.terms[i], PREFIX_WEIGHT);
+    }
+  }
+
+  if (expansions.size === 0 && word.length >= MIN_TYPO_LENGTH) {
+    const maxTypos = word.length >= MIN_TYPO_LENGTH * 2 ? 2 : 1;
+    for (const term of index.terms) {
+      if (expansions.size >= MAX_EXPANSIONS) break;
+      if (term[0] !== word[0] && term[1] !== word[1]) continue;
+      if (editDistance(word, term, maxTypos) <= maxTypos) expansions.set(term, TYPO_WEIGHT);
+    }
+  }
+  return expansions;
+}
+
+function bm25(index: SearchIndex, posting: Posting, idf: number): number {
+  let score = 0;
+  posting.tf.forEach((tf, f) => {
+    if (tf === 0) return;
+    const norm = 1 - B + B * (index.lengths[posting.doc][f] / index.averageLengths[f]);
+    score += FIELD_BOOST[SEARCH_FIELDS[f]] * idf * ((tf * (K1 + 1)) / (tf + K1 * norm));
+  });
+  return score;
+}
+
+/** Questions matching every word of `query`, best first. */
+export function searchQuestions(index: SearchIndex, query: string): SearchHit[] {
+  const words = [...new Set(tokenize(query))];
+  if (words.length === 0) return [];
+  const total = index.ids.length;
+
+  // Per document: summed score and matched terms, plus how many query words matched.
+  const hits = new Map<number, { score: number; terms: Set<string>; matched: number }>();
+  words.forEach((word, w) => {
+    const expansions = expand(index, word, w === words.length - 1);
+    // Each query word counts once per document, through its best-scoring expansion.
+    const best = new Map<number, { score: number; term: string }>();
+    for (const [term, weight] of expansions) {
+      const list = index.postings.get(term) ?? [];
+      const idf = Math.log(1 + (total - list.length + 0.5) / (list.length + 0.5));
+      for (const posting of list) {
+        const score = bm25(index, posting, idf) * weight;
+        if (score > (best.get(posting.doc)?.score ?? 0)) best.set(posting.doc, { score, term });
+      }
+    }
+    for (const [doc, { score, term }] of best) {
+      const hit = hits.get(doc) ?? { score: 0, terms: new Set<string>(), matched: 0 };
+      if (hit.matched !== w) continue;
+      hit.score += score;
+      hit.terms.add(term);
+      hit.matched++;
+      hits.set(doc, hit);
+    }
+  });
+
+  return [...hits.entries()]
+    .filter(([, hit]) => hit.matched === words.length)
+    .map(([doc, hit]) => ({ id: index.ids[doc], score: hit.score, terms: [...hit.terms] }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/** Start and end offsets in `text` of the words that fold to one of `terms`. */
+export function highlightRanges(text: string, terms: string[]): [number, number][] {
+  if (!text || terms.length === 0) return [];
+  const wanted = new Set(terms);
+  const ranges: [number, number][] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}\p{M}]+/gu)) {
+    if (tokenize(match[0]).some((term) => wanted.has(term))) {
+      ranges.push([match.index!, match.index! + match[0].length]);
+    }
+  }
+  return ranges;
+}
@@ -0,0 +1,156 @@
+/**
+ * @fileOverview Turns spreadsheet rows (CSV or XLSX) into question drafts.
+ *
+ * The user maps columns to question fields; every mapped cell is read as text. Options
+ * live in one column per letter (A–F) and the answer column holds letters such as "B"
+ * or "A, C". A question with more than one answer letter becomes a checkbox question.
+ */
+import * as XLSX from "xlsx";
+import { detectLanguage } from "@/lib/formats/common";
+import { type ImportedQuestion } from "@/lib/formats/types";
+
+export const OPTION_LETTERS = ["A", "B", "C", "D", "E", "F"] as const;
+
+export type ColumnField =
+  | "questionText"
+  | `option${(typeof OPTION_LETTERS)[number]}`
+  | "answer"
+  | "explanation"
+  | "chapter"
+  | "difficulty"
+  | "tags";
+
+export const COLUMN_FIELDS: { field: ColumnField; label: string; required?: boolean }[] = [
+  { field: "questionText", label: "Question", required: true },
+  ...OPTION_LETTERS.map((letter) => ({ field: `option${letter}` as ColumnField, label: `Option ${letter}` })),
+  { field: "answer", label: "Answer letters", required: true },
+  { field: "explanation", label: "Explanation" },
+  { field: "chapter", label: "Chapter" },
+  { field: "difficulty", label: "Difficulty" },
+  { field: "tags", label: "Tags" },
+];
+
+/** Field -> index of the column it is read from, or null when it is not mapped. */
+export type ColumnMapping = Record<ColumnField, number | null>;
+
+export type SpreadsheetData = {
+  headers: string[];
+  rows: string[][];
+};
+
+/**
+ * Reads the first sheet of a CSV or XLSX file. CSV is decoded as UTF-8 first, since
+ * the sheet reader would otherwise guess a legacy encoding and garble Arabic text.
+ */
+export function readSpreadsheet(data: ArrayBuffer, fileName: string, hasHeaderRow = true): SpreadsheetData {
+  const workbook = fileName.toLowerCase().endsWith(".csv")
+    ? XLSX.read(new TextDecoder("utf-8").decode(data), { type: "string" })
+    : XLSX.read(data, { type: "array" });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return { headers: [], rows: [] };
+
+  const table = XLSX.utils
+    .sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: "", blankrows: false })
+    .map((row) => row.map((cell) => String(cell ?? "").trim()));
+  const width = Math.max(0, ...table.map((row) => row.length));
+  const padded = table.map((row) => [...row, ...Array(width - row.length).fill("")]);
+
+  if (!hasHeaderRow) {
+    return { headers: padded[0]?.map((_, i) => `Column ${XLSX.utils.encode_col(i)}`) ?? [], rows: padded };
+  }
+  const [headers = [], ...rows] = padded;
+  return { headers: headers.map((h, i) => h || `Column ${XLSX.utils.encode_col(i)}`), rows };
+}
+
+// Header names (lower case, punctuation stripped) that usually mean each field.
+const HEADER_ALIASES: Record<ColumnField, string[]> = {
+  questionText: ["question", "question text", "stem", "prompt", "السؤال", "نص السؤال"],
+  optionA: ["a", "option a", "choice a", "answer a", "أ"],
+  optionB: ["b", "option b", "choice b", "answer b", "ب"],
+  optionC: ["c", "option c", "choice c", "answer c", "ج"],
+  optionD: ["d", "option d", "choice d", "answer d", "د"],
+  optionE: ["e", "option e", "choice e", "answer e", "هـ"],
+  optionF: ["f", "option f", "choice f", "answer f", "و"],
+  answer: ["answer", "answers", "correct", "correct answer", "correct answers", "key", "الإجابة", "الاجابة"],
+  explanation: ["explanation", "rationale", "reason", "الشرح", "التوضيح"],
+  chapter: ["chapter", "unit", "الفصل", "الوحدة"],
+  difficulty: ["difficulty", "level", "الصعوبة", "المستوى"],
+  tags: ["tags", "topics", "topic tags", "keywords", "الوسوم"],
+};
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[_\-:.()]/g, " ").replace(/\s+/g, " ").trim();
+
+/** A first guess at the mapping from the header names. Unrecognized fields stay unmapped. */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const taken = new Set<number>();
+  const mapping = {} as ColumnMapping;
+  for (const { field } of COLUMN_FIELDS) {
+    const index = normalized.findIndex((h, i) => !taken.has(i) && HEADER_ALIASES[field].includes(h));
+    mapping[field] = index === -1 ? null : index;
+    if (index !== -1) taken.add(index);
+  }
+  return mapping;
+}
+
+// "B", "a, c", "A;C", "AC" -> ["A", "C"]. Anything else is not a letter answer.
+function parseAnswerLetters(value: string): string[] | null {
+  const compact = value.toUpperCase().replace(/[\s,;/|&]+/g, "");
+  if (!compact || !/^[A-F]+$/.test(compact)) return null;
+  return [...new Set(compact.split(""))];
+}
+
+/**
+ * One draft per row, skipping rows with no question text. Values are passed through
+ * as written; the preview validates them with the same schema the server uses.
+ */
+export function rowsToDrafts(
+  rows: string[][],
+  mapping: ColumnMapping,
+  defaults: { subjectOf?: (chapter: string) => string | undefined; source?: string } = {}
+): ImportedQuestion[] {
+  const cell = (row: string[], field: ColumnField) => {
+    const index = mapping[field];
+    return index === null || index === undefined ? "" : (row[index] ?? "").trim();
+  };
+
+  return rows
+    .filter((row) => cell(row, "questionText"))
+    .map((row) => {
+      const options = OPTION_LETTERS.map((letter) => ({ letter, text: cell(row, `option${letter}`) })).filter(
+        (o) => o.text
+      );
+      const rawAnswer = cell(row, "answer");
+      // An answer that is an option's text ("DAC", "ACE") is that option, not letters.
+      const byText = options.find((o) => o.text.toLowerCase() === rawAnswer.toLowerCase());
+      const letters = byText ? null : parseAnswerLetters(rawAnswer);
+      const answers = byText
+        ? [byText.text]
+        : letters
+          ? letters.map((l) => options.find((o) => o.letter === l)?.text ?? l)
+          : rawAnswer
+            ? [rawAnswer]
+            : [];
+      const questionText = cell(row, "questionText");
+      const chapter = cell(row, "chapter");
+      const tags = cell(row, "tags")
+        .split(/[,;|]/)
+        .map((t) => t.trim())
+        .filter(Boolean);
+
+      return {
+        questionText,
+        options: options.map((o) => o.text),
+        correctAnswer: answers.length > 1 ? answers : answers[0] ?? "",
+        explanation: cell(row, "explanation") || undefined,
+        subject: (chapter && defaults.subjectOf?.(chapter)) || "",
+        chapter,
+        topicTags: tags.length > 0 ? tags : undefined,
+        questionType: answers.length > 1 ? "checkbox" : "mcq",
+        difficulty: cell(row, "difficulty") || "medium",
+        language: detectLanguage(questionText),
+        source: defaults.source,
+      };
+    });
+}
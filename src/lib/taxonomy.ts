@@ -0,0 +1,120 @@
+/**
+ * @fileOverview Helpers over the subject/chapter taxonomy, shared by the server
+ * (AI prompts, categorization) and the browser (filters, sorting).
+ */
+import { type Taxonomy, type TaxonomySubject } from "@/types";
+
+const SECURITY_PLUS_CHAPTERS = [
+  "Chapter 1: Summarizing Fundamental Security Concepts",
+  "Chapter 2: Comparing Threat Types",
+  "Chapter 3: Explaining Appropriate Cryptographic Solutions",
+  "Chapter 4: Implement Identity and Access Management",
+  "Chapter 5: Maintain Enterprise Campus Network Architecture",
+  "Chapter 6: Secure Cloud Network Architecture",
+  "Chapter 7: Explain Resiliency and Site Security Concepts",
+  "Chapter 8: Evaluate Network Security Capabilities",
+  "Chapter 9: Explain Vulnerability Management",
+  "Chapter 10: Assess Endpoint Security Capabilities",
+  "Chapter 11: Enhance Application Security Capabilities",
+  "Chapter 12: Explain Alerting and Monitoring Concepts",
+  "Chapter 13: Analyze Indicators of Malicious Activity",
+  "Chapter 14: Summarize Security Governance Concepts",
+  "Chapter 15: Explain Risk Management Processes",
+  "Chapter 16: Summarize Data Protection and Compliance Concepts",
+];
+
+/** Used until an admin saves a taxonomy: the Security+ bank the app started with. */
+export const DEFAULT_TAXONOMY: Taxonomy = {
+  subjects: [
+    {
+      id: "cyber-security",
+      name: "Cyber Security",
+      chapters: SECURITY_PLUS_CHAPTERS.map((name, i) => ({ id: `cyber-security-${i + 1}`, name })),
+    },
+  ],
+};
+
+/** The subject called `name`, falling back to the first one. */
+export function findSubject(taxonomy: Taxonomy, name?: string): TaxonomySubject {
+  const key = name?.trim().toLowerCase();
+  return taxonomy.subjects.find((s) => s.name.toLowerCase() === key) ?? taxonomy.subjects[0];
+}
+
+export function chapterNames(subject: TaxonomySubject): string[] {
+  return subject.chapters.map((c) => c.name);
+}
+
+const legacyChapterNumber = (chapter: string) => {
+  const match = chapter?.match?.(/Chapter (\d+)/);
+  return match ? parseInt(match[1], 10) : Infinity;
+};
+
+/**
+ * Sort key for a chapter name: subjects in taxonomy order, chapters in their listed
+ * order. Chapters the taxonomy does not know go last, by their "Chapter N" number.
+ */
+export function createChapterRank(taxonomy: Taxonomy): (chapter: string) => number {
+  const ranks = new Map<string, number>();
+  let next = 0;
+  for (const subject of taxonomy.subjects) {
+    for (const chapter of subject.chapters) {
+      if (!ranks.has(chapter.name)) ranks.set(chapter.name, next++);
+    }
+  }
+  return (chapter) => ranks.get(chapter) ?? next + legacyChapterNumber(chapter);
+}
+
+export type ChapterGroup = { subject: string; chapters: string[] };
+
+/**
+ * Chapters grouped by subject for pickers and filters. Chapters that only appear on
+ * questions (e.g. from before the taxonomy existed) are listed under "Other".
+ */
+export function groupChapters(taxonomy: Taxonomy, usedChapters: Iterable<string> = []): ChapterGroup[] {
+  const groups = taxonomy.subjects.map((s) => ({ subject: s.name, chapters: chapterNames(s) }));
+  const known = new Set(groups.flatMap((g) => g.chapters));
+  const rank = createChapterRank(taxonomy);
+  const other = [...new Set(usedChapters)].filter((c) => c && !known.has(c)).sort((a, b) => rank(a) - rank(b));
+  return other.length > 0 ? [...groups, { subject: "Other", chapters: other }] : groups;
+}
+
+/** The subject that lists `chapter`, if any. */
+export function subjectOfChapter(taxonomy: Taxonomy, chapter: string): TaxonomySubject | undefined {
+  return taxonomy.subjects.find((s) => s.chapters.some((c) => c.name === chapter));
+}
+
+const mapChapters = (
+  taxonomy: Taxonomy,
+  update: (subject: TaxonomySubject) => TaxonomySubject["chapters"]
+): Taxonomy => ({
+  ...taxonomy,
+  subjects: taxonomy.subjects.map((s) => ({ ...s, chapters: update(s) })),
+});
+
+/**
+ * Renames a chapter in place. When `to` is already listed, `from` is dropped instead,
+ * since the two chapters are now one.
+ */
+export function renameChapterInTaxonomy(taxonomy: Taxonomy, from: string, to: string): Taxonomy {
+  if (subjectOfChapter(taxonomy, to)) return removeChapterFromTaxonomy(taxonomy, from);
+  return mapChapters(taxonomy, (s) => s.chapters.map((c) => (c.name === from ? { ...c, name: to } : c)));
+}
+
+export function removeChapterFromTaxonomy(taxonomy: Taxonomy, name: string): Taxonomy {
+  return mapChapters(taxonomy, (s) => s.chapters.filter((c) => c.name !== name));
+}
+
+/**
+ * Lists `name` right after `after` in the same subject. Returns `taxonomy` itself when
+ * `name` is already listed or `after` is not.
+ */
+export function insertChapterAfter(taxonomy: Taxonomy, after: string, name: string, id: string): Taxonomy {
+  if (subjectOfChapter(taxonomy, name) || !subjectOfChapter(taxonomy, after)) return taxonomy;
+  return mapChapters(taxonomy, (s) => {
+    const index = s.chapters.findIndex((c) => c.name === after);
+    if (index === -1) return s.chapters;
+    const chapters = [...s.chapters];
+    chapters.splice(index + 1, 0, { id, name });
+    return chapters;
+  });
+}
@@ -0,0 +1,167 @@
+/**
+ * @fileOverview Finds likely translation pairs between Arabic and English questions.
+ *
+ * The two texts share no words, so they cannot be compared directly. What survives
+ * translation are anchors: Latin terms and acronyms left in the Arabic text ("TPM",
+ * "Kerberos"), numbers, and acronyms of the English terms they stand for ("Trusted
+ * Platform Module" -> "tpm"). Arabic questions are scored against English ones with the
+ * same type and option count by how many of their anchors the English stem, options
+ * and correct answers contain. The best few per Arabic question go to the AI to confirm.
+ */
+import { type Question } from "@/types";
+import { mapArabicDigits } from "@/lib/normalize-text";
+
+/** English questions sent to the AI per Arabic question. */
+export const MAX_TRANSLATION_CANDIDATES = 5;
+// Below this a candidate is not worth an AI call. A shared chapter alone reaches it, so
+// questions without anchors are still matched within their chapter.
+const MIN_CANDIDATE_SCORE = 0.1;
+const SAME_CHAPTER_BONUS = 0.1;
+const MIN_WORD_LENGTH = 3;
+
+export type TranslationCandidate = {
+  question: Question;
+  /** 0-1 from the local comparison; the AI has the last word. */
+  score: number;
+};
+
+export type TranslationCandidates = {
+  question: Question;
+  candidates: TranslationCandidate[];
+};
+
+type Anchors = { stem: Set<string>; options: Set<string>; answers: Set<string> };
+
+const answersOf = (q: Question) =>
+  Array.isArray(q.correctAnswer) ? q.correctAnswer : q.correctAnswer ? [q.correctAnswer] : [];
+
+// Initials of each run of capitalized words: "Public Key Infrastructure" -> "pki".
+function acronymsOf(text: string): string[] {
+  const runs = text.match(/\b[A-Z][a-z]+(?:[\s-]+(?:of\s+|and\s+)?[A-Z][a-z]+)+/g) ?? [];
+  return runs.map((run) =>
+    run
+      .split(/[\s-]+/)
+      .filter((word) => /^[A-Z]/.test(word))
+      .map((word) => word[0])
+      .join("")
+      .toLowerCase()
+  );
+}
+
+/** Terms of `text` that read the same in both languages: Latin words, acronyms, numbers. */
+export function anchorTokens(text: string): Set<string> {
+  const latin = mapArabicDigits(text ?? "");
+  const tokens = new Set<string>();
+  for (const word of latin.match(/[A-Za-z][A-Za-z0-9]*|\d+(?:\.\d+)?/g) ?? []) {
+    const isAcronym = word.length >= 2 && word === word.toUpperCase();
+    if (isAcronym || /^\d/.test(word) || word.length >= MIN_WORD_LENGTH) tokens.add(word.toLowerCase());
+  }
+  for (const acronym of acronymsOf(latin)) tokens.add(acronym);
+  return tokens;
+}
+
+function anchorsOf(q: Question): Anchors {
+  return {
+    stem: anchorTokens(q.questionText),
+    options: anchorTokens((q.options ?? []).join("\n")),
+    answers: anchorTokens(answersOf(q).join("\n")),
+  };
+}
+
+// Share of the Arabic anchors found on the English side; null when there are none.
+function coverage(arabic: Set<string>, english: Set<string>): number | null {
+  if (arabic.size === 0) return null;
+  let found = 0;
+  for (const token of arabic) if (english.has(token)) found++;
+  return found / arabic.size;
+}
+
+// The answers weigh most: a translation keeps its answer, even when the stem is reworded.
+function anchorScore(arabic: Anchors, english: Anchors, englishAll: Set<string>): number {
+  const parts: [number | null, number][] = [
+    [coverage(arabic.stem, englishAll), 0.3],
+    [coverage(arabic.options, english.options), 0.3],
+    [coverage(arabic.answers, english.answers), 0.4],
+  ];
+  let score = 0;
+  let weight = 0;
+  for (const [value, w] of parts) {
+    if (value === null) continue;
+    score += value * w;
+    weight += w;
+  }
+  return weight > 0 ? score / weight : 0;
+}
+
+// Only questions of the same shape can be translations of each other.
+const shapeKey = (q: Question) => `${q.questionType}:${q.options?.length ?? 0}`;
+
+/**
+ * For each Arabic question without a linked translation, the unlinked English questions
+ * most likely to be its translation, best first. Arabic questions without any candidate
+ * are left out.
+ */
+export function findTranslationCandidates(
+  questions: Question[],
+  maxCandidates: number = MAX_TRANSLATION_CANDIDATES
+): TranslationCandidates[] {
+  const unlinked = questions.filter((q) => !q.translationId);
+  const arabic = unlinked.filter((q) => q.language === "ar");
+  const english = unlinked
+    .filter((q) => q.language === "en")
+    .map((question) => {
+      const anchors = anchorsOf(question);
+      return { question, anchors, all: new Set([...anchors.stem, ...anchors.options, ...anchors.answers]) };
+    });
+
+  // English questions by shape, then by anchor and by chapter within it.
+  const byShape = new Map<string, { byToken: Map<string, number[]>; byChapter: Map<string, number[]> }>();
+  const push = (map: Map<string, number[]>, key: string, index: number) =>
+    map.set(key, [...(map.get(key) ?? []), index]);
+  english.forEach((entry, index) => {
+    const key = shapeKey(entry.question);
+    const bucket = byShape.get(key) ?? { byToken: new Map(), byChapter: new Map() };
+    byShape.set(key, bucket);
+    for (const token of entry.all) push(bucket.byToken, token, index);
+    if (entry.question.chapter) push(bucket.byChapter, entry.question.chapter, index);
+  });
+
+  const results: TranslationCandidates[] = [];
+  for (const question of arabic) {
+    const bucket = byShape.get(shapeKey(question));
+    if (!bucket) continue;
+    const anchors = anchorsOf(question);
+    const indexes = new Set(question.chapter ? bucket.byChapter.get(question.chapter) ?? [] : []);
+    for (const token of [...anchors.stem, ...anchors.options, ...anchors.answers]) {
+      for (const index of bucket.byToken.get(token) ?? []) indexes.add(index);
+    }
+
+    const candidates = [...indexes]
+      .map((index) => {
+        const entry = english[index];
+        const sameChapter = !!question.chapter && entry.question.chapter === question.chapter;
+        const score =
+          anchorScore(anchors, entry.anchors, entry.all) * (1 - SAME_CHAPTER_BONUS) +
+          (sameChapter ? SAME_CHAPTER_BONUS : 0);
+        return { question: entry.question, score };
+      })
+      .filter((c) => c.score >= MIN_CANDIDATE_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, maxCandidates);
+    if (candidates.length > 0) results.push({ question, candidates });
+  }
+  return results;
+}
+
+/**
+ * The translation's options in the order of `question`'s, or null when they cannot be
+ * lined up: a different count, or correct answers at other positions (options shuffled).
+ */
+export function alignedOptions(question: Question, translation: Question): string[] | null {
+  const options = question.options ?? [];
+  const translated = translation.options ?? [];
+  if (options.length === 0 || options.length !== translated.length) return null;
+  const answerPositions = (q: Question, list: string[]) =>
+    list.flatMap((option, index) => (answersOf(q).includes(option) ? [index] : [])).join(",");
+  return answerPositions(question, options) === answerPositions(translation, translated) ? translated : null;
+}
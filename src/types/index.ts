@@ -1,17 +1,301 @@
-export type Question = {
-  id: string;
-  questionText: string;
+import { z } from "zod";
+
+/* ---------------------------------- */
+/* Enum normalization                 */
+/* ---------------------------------- */
+
+// Free-text values (mostly from the LLM) that mean one of the canonical enum values.
+const QUESTION_TYPE_ALIASES: Record<string, string> = {
+  "multiple choice": "mcq",
+  "multiple-choice": "mcq",
+  "single choice": "mcq",
+  single: "mcq",
+  checkboxes: "checkbox",
+  "multiple answer": "checkbox",
+  "multiple answers": "checkbox",
+  "multi-select": "checkbox",
+  multiselect: "checkbox",
+  multi: "checkbox",
+};
+
+const DIFFICULTY_ALIASES: Record<string, string> = {
+  simple: "easy",
+  med: "medium",
+  moderate: "medium",
+  intermediate: "medium",
+  difficult: "hard",
+  advanced: "hard",
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  english: "en",
+  eng: "en",
+  arabic: "ar",
+  ara: "ar",
+  "عربي": "ar",
+  "العربية": "ar",
+};
+
+function normalizeEnumValue(val: unknown, aliases: Record<string, string>): unknown {
+  if (typeof val !== "string") return val;
+  const key = val.trim().toLowerCase();
+  return aliases[key] ?? key;
+}
+
+function normalizedEnum<const T extends [string, ...string[]]>(values: T, aliases: Record<string, string>) {
+  return z.preprocess(
+    (val) => normalizeEnumValue(val, aliases),
+    z.enum(values, { errorMap: () => ({ message: `Must be one of: ${values.join(", ")}.` }) })
+  );
+}
+
+/* ---------------------------------- */
+/* Answer coercion                    */
+/* ---------------------------------- */
+
+const LETTER_ANSWER = /^[A-Fa-f]$/;
+
+// "A" / "A, C" style answers are mapped back to the option text they point at.
+function resolveAnswerToken(token: string, options: string[]): string {
+  if (options.includes(token)) return token;
+  if (LETTER_ANSWER.test(token)) {
+    const idx = token.toUpperCase().charCodeAt(0) - 65;
+    if (idx < options.length) return options[idx];
+  }
+  return token;
+}
+
+function coerceAnswer(raw: Record<string, any>): Record<string, any> {
+  const options: string[] = Array.isArray(raw.options)
+    ? raw.options.map((o: unknown) => String(o ?? "").trim()).filter(Boolean)
+    : [];
+  let answer = raw.correctAnswer;
+  if (answer === undefined || answer === null || options.length === 0) return raw;
+  // The type decides how the answer is read, so aliases such as "multiple answer" count.
+  const questionType = normalizeEnumValue(raw.questionType, QUESTION_TYPE_ALIASES);
+
+  if (typeof answer === "string") {
+    const trimmed = answer.trim();
+    if (questionType === "checkbox" && !options.includes(trimmed)) {
+      answer = trimmed.split(/\s*,\s*/).filter(Boolean);
+    } else {
+      answer = trimmed;
+    }
+  }
+
+  if (Array.isArray(answer)) {
+    answer = answer.map((a) => resolveAnswerToken(String(a ?? "").trim(), options)).filter(Boolean);
+    if (questionType === "mcq" && answer.length === 1) answer = answer[0];
+  } else {
+    answer = resolveAnswerToken(answer, options);
+    if (questionType === "checkbox") answer = answer ? [answer] : [];
+  }
+
+  return { ...raw, questionType, options, correctAnswer: answer };
+}
+
+/* ---------------------------------- */
+/* Question schema                    */
+/* ---------------------------------- */
+
+const trimmedStringList = z
+  .array(z.string().trim())
+  .transform((list) => list.filter(Boolean));
+
+const questionDraftShape = {
+  questionText: z.string().trim().min(1, "Question text is required."),
+  options: trimmedStringList.optional(),
+  correctAnswer: z.union([z.string().trim(), z.array(z.string().trim())]).optional(),
+  explanation: z.string().optional(),
+  subject: z.string().trim().default(""),
+  chapter: z.string().trim().default(""),
+  topicTags: trimmedStringList.optional(),
+  questionType: normalizedEnum(["mcq", "checkbox"], QUESTION_TYPE_ALIASES),
+  difficulty: normalizedEnum(["easy", "medium", "hard"], DIFFICULTY_ALIASES),
+  language: normalizedEnum(["ar", "en"], LANGUAGE_ALIASES),
+  source: z.string().optional(),
+  imageUrl: z.string().optional(),
+};
+
+type AnswerFields = {
   options?: string[];
   correctAnswer?: string | string[];
-  explanation?: string;
-  subject: string;
-  chapter: string;
-  topicTags?: string[];
-  questionType: 'mcq' | 'checkbox';
-  difficulty: 'easy' | 'medium' | 'hard';
-  language: 'ar' | 'en';
-  source?: string;
+  questionType: "mcq" | "checkbox";
+};
+
+type AnswerIssue = { field: "options" | "correctAnswer"; message: string };
+
+function findAnswerIssues(q: AnswerFields): AnswerIssue[] {
+  const options = q.options ?? [];
+  if (options.length === 0) return [];
+
+  const issues: AnswerIssue[] = [];
+  if (new Set(options).size !== options.length) {
+    issues.push({ field: "options", message: "Options must be unique." });
+  }
+
+  if (q.questionType === "mcq") {
+    if (typeof q.correctAnswer !== "string" || !q.correctAnswer) {
+      issues.push({ field: "correctAnswer", message: "A multiple choice question needs exactly one correct answer." });
+    } else if (!options.includes(q.correctAnswer)) {
+      issues.push({ field: "correctAnswer", message: `"${q.correctAnswer}" is not one of the options.` });
+    }
+    return issues;
+  }
+
+  if (!Array.isArray(q.correctAnswer) || q.correctAnswer.length === 0) {
+    issues.push({ field: "correctAnswer", message: "A checkbox question needs a list of one or more correct answers." });
+    return issues;
+  }
+  const missing = q.correctAnswer.filter((a) => !options.includes(a));
+  if (missing.length > 0) {
+    issues.push({
+      field: "correctAnswer",
+      message: `Not among the options: ${missing.map((a) => `"${a}"`).join(", ")}.`,
+    });
+  }
+  return issues;
+}
+
+function checkAnswer(q: AnswerFields, ctx: z.RefinementCtx) {
+  for (const issue of findAnswerIssues(q)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [issue.field], message: issue.message });
+  }
+}
+
+const withAnswerCoercion = (val: unknown) =>
+  val && typeof val === "object" && !Array.isArray(val) ? coerceAnswer(val as Record<string, any>) : val;
+
+/** A question as produced by the parser or an import, before it has an id or timestamps. */
+export const QuestionDraftSchema = z.preprocess(
+  withAnswerCoercion,
+  z.object(questionDraftShape).superRefine(checkAnswer)
+);
+
+/** A stored question. Used to validate every write that goes through the repository. */
+export const QuestionSchema = z.preprocess(
+  withAnswerCoercion,
+  z
+    .object({
+      ...questionDraftShape,
+      id: z.string().min(1, "Question ID is required."),
+      createdAt: z.string(),
+      updatedAt: z.string(),
+      // Set while the question is in the trash.
+      deletedAt: z.string().optional(),
+      deletedBy: z.string().optional(),
+      // Ids of duplicates merged into this question, so links to them can follow it.
+      mergedFrom: z.array(z.string()).optional(),
+      // Id of the same question in the other language; set on both questions of a pair.
+      translationId: z.string().optional(),
+    })
+    .superRefine(checkAnswer)
+);
+
+export type QuestionDraft = z.infer<typeof QuestionDraftSchema>;
+export type Question = z.infer<typeof QuestionSchema>;
+
+/** Field name -> first validation message for that field. */
+export type QuestionFieldErrors = Partial<Record<keyof Question | "form", string>>;
+
+export type QuestionValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: QuestionFieldErrors };
+
+function toFieldErrors(error: z.ZodError, input: unknown): QuestionFieldErrors {
+  const errors: QuestionFieldErrors = {};
+  for (const issue of error.issues) {
+    const field = (issue.path[0] as keyof QuestionFieldErrors | undefined) ?? "form";
+    if (!errors[field]) errors[field] = issue.message;
+  }
+  // Zod skips refinements when a field fails, so answer problems are checked separately
+  // to report them in the same round as e.g. a bad difficulty.
+  const coerced = withAnswerCoercion(input) as Partial<AnswerFields> | undefined;
+  if (coerced && (coerced.questionType === "mcq" || coerced.questionType === "checkbox")) {
+    for (const issue of findAnswerIssues(coerced as AnswerFields)) {
+      if (!errors[issue.field]) errors[issue.field] = issue.message;
+    }
+  }
+  return errors;
+}
+
+export function validateQuestionDraft(input: unknown): QuestionValidationResult<QuestionDraft> {
+  const result = QuestionDraftSchema.safeParse(input);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, errors: toFieldErrors(result.error, input) };
+}
+
+export function validateQuestion(input: unknown): QuestionValidationResult<Question> {
+  const result = QuestionSchema.safeParse(input);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, errors: toFieldErrors(result.error, input) };
+}
+
+/* ---------------------------------- */
+/* Revisions                          */
+/* ---------------------------------- */
+
+/** Which write produced a revision. */
+export type RevisionAction = "edit" | "categorize" | "batch-categorize" | "restore" | "chapter-change" | "merge" | "translation-link";
+
+/** Who made a change and why; recorded with the revision it creates. */
+export type RevisionMeta = {
+  actor: string;
+  action: RevisionAction;
+};
+
+/** A snapshot of a question as it was right before an update. */
+export type QuestionRevision = RevisionMeta & {
+  id: string;
+  questionId: string;
+  snapshot: Question;
   createdAt: string;
-  updatedAt: string;
-  imageUrl?: string;
 };
+
+/* ---------------------------------- */
+/* Taxonomy                           */
+/* ---------------------------------- */
+
+// Questions store subject and chapter by name; ids only identify entries while editing.
+const ChapterSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, "Chapter names cannot be empty."),
+});
+
+const SubjectSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().trim().min(1, "Subject names cannot be empty."),
+    // In display and sorting order.
+    chapters: z.array(ChapterSchema),
+  })
+  .superRefine((subject, ctx) => {
+    const names = subject.chapters.map((c) => c.name.toLowerCase());
+    const dupes = names.filter((n, i) => names.indexOf(n) !== i);
+    if (dupes.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["chapters"],
+        message: `"${subject.name}" lists a chapter more than once: ${[...new Set(dupes)].join(", ")}.`,
+      });
+    }
+  });
+
+/** The subjects (courses) hosted by the bank and their ordered chapters. */
+export const TaxonomySchema = z
+  .object({
+    subjects: z.array(SubjectSchema).min(1, "Add at least one subject."),
+    updatedAt: z.string().optional(),
+  })
+  .superRefine((taxonomy, ctx) => {
+    const names = taxonomy.subjects.map((s) => s.name.toLowerCase());
+    if (new Set(names).size !== names.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["subjects"], message: "Subject names must be unique." });
+    }
+  });
+
+export type TaxonomyChapter = z.infer<typeof ChapterSchema>;
+export type TaxonomySubject = z.infer<typeof SubjectSchema>;
+export type Taxonomy = z.infer<typeof TaxonomySchema>;
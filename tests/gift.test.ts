@@ -0,0 +1,53 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { type Question } from "@/types";
+import { parseGift, toGift } from "@/lib/formats/gift";
+
+const base = {
+  difficulty: "medium",
+  subject: "Security",
+  chapter: "Cryptography",
+  createdAt: "2024-01-01",
+  updatedAt: "2024-01-01",
+} as const;
+
+const questions: Question[] = [
+  {
+    ...base,
+    id: "1",
+    questionText: "Which key decrypts a message?\n\nAssume {public} key crypto: A ~ B = C.",
+    options: ["The private key", "The public key"],
+    correctAnswer: "The private key",
+    questionType: "mcq",
+    language: "en",
+    explanation: "Only the owner holds the private key.\n\nThe public key #1 only encrypts.",
+    topicTags: ["pki", "keys"],
+  },
+  {
+    ...base,
+    id: "2",
+    questionText: "أي مما يلي خوارزميات تشفير متماثل؟",
+    options: ["AES", "DES", "RSA"],
+    correctAnswer: ["AES", "DES"],
+    questionType: "checkbox",
+    language: "ar",
+    explanation: "الفقرة الأولى.\n\nالفقرة الثانية.",
+  },
+];
+
+test("GIFT export imports back unchanged, including blank lines in stems and explanations", () => {
+  const { questions: imported, warnings } = parseGift(toGift(questions));
+  assert.deepEqual(warnings, []);
+  assert.equal(imported.length, questions.length);
+  imported.forEach((q, i) => {
+    const original = questions[i];
+    assert.equal(q.questionText, original.questionText);
+    assert.deepEqual(q.options, original.options);
+    assert.deepEqual(q.correctAnswer, original.correctAnswer);
+    assert.equal(q.questionType, original.questionType);
+    assert.equal(q.explanation, original.explanation);
+    assert.equal(q.chapter, original.chapter);
+    assert.equal(q.language, original.language);
+    assert.deepEqual(q.topicTags, original.topicTags);
+  });
+});
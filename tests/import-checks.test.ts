@@ -0,0 +1,11 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { stripJunk } from "@/lib/import-checks";
+
+test("stripJunk removes dump-site links but keeps hostnames that belong to the question", () => {
+  assert.equal(
+    stripJunk("A user visits example.com and is sent to evil.net. What happened? www.examtopics.com/discussions/1"),
+    "A user visits example.com and is sent to evil.net. What happened?"
+  );
+  assert.equal(stripJunk("Which body publishes comptia.org objectives? CertyIQ"), "Which body publishes comptia.org objectives?");
+});
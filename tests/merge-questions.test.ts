@@ -0,0 +1,65 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { type Question } from "@/types";
+import { type QuestionRepository } from "@/lib/repository";
+import { buildMergedQuestion, defaultMergeChoices } from "@/lib/merge-questions";
+import { handleMergeQuestions } from "@/lib/actions";
+
+const question = (id: string, createdAt: string): Question => ({
+  id,
+  questionText: "Which port does HTTPS use?",
+  options: ["80", "443"],
+  correctAnswer: "443",
+  questionType: "mcq",
+  difficulty: "easy",
+  language: "en",
+  subject: "Security",
+  chapter: "Networks",
+  createdAt,
+  updatedAt: createdAt,
+});
+
+// Like Firestore's set(), which rejects undefined field values.
+function assertNoUndefined(value: unknown, path = "question") {
+  if (value === undefined) assert.fail(`${path} is undefined`);
+  if (value && typeof value === "object") {
+    for (const [key, child] of Object.entries(value)) assertNoUndefined(child, `${path}.${key}`);
+  }
+}
+
+function fakeRepository(questions: Question[]) {
+  const store = new Map(questions.map((q) => [q.id, q]));
+  const written: Question[] = [];
+  const trashed: string[] = [];
+  const repository = {
+    async get(id: string) {
+      return store.get(id) ?? null;
+    },
+    async update(q: Question) {
+      assertNoUndefined(q);
+      written.push(q);
+      store.set(q.id, q);
+    },
+    async trash(ids: string[]) {
+      trashed.push(...ids);
+    },
+  } as unknown as QuestionRepository;
+  return { repository, written, trashed };
+}
+
+test("a merge without image, tags or explanation writes no undefined fields", async () => {
+  const group = [question("a", "2024-02-01"), question("b", "2023-01-01")];
+  const merged = buildMergedQuestion(group, "a", defaultMergeChoices(group, "a"));
+  for (const key of ["explanation", "imageUrl", "topicTags"]) assert.equal(key in merged, false, key);
+
+  const { repository, written, trashed } = fakeRepository(group);
+  (globalThis as { __questionRepository?: QuestionRepository }).__questionRepository = repository;
+  // Undefined keys as the client may send them must not reach the repository either.
+  const result = await handleMergeQuestions({ ...merged, imageUrl: undefined, explanation: undefined }, ["b"]);
+
+  assert.equal(result.success, true);
+  assert.equal(written.length, 1);
+  assert.deepEqual(written[0].mergedFrom, ["b"]);
+  assert.equal(written[0].createdAt, "2023-01-01");
+  assert.deepEqual(trashed, ["b"]);
+});
@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import {
+  foldArabic,
+  mapArabicDigits,
+  normalizeText,
+  stemEnglish,
+  stripArabicArticle,
+} from "@/lib/normalize-text";
+import { diceSimilarity } from "@/components/qbank/similar-options";
+
+type Pair = [string, string];
+
+const corpus: Record<
+  "fold" | "digits" | "article" | "stem" | "same" | "sameWhenStemmed" | "different",
+  Pair[]
+> = JSON.parse(readFileSync(new URL("./fixtures/normalization-pairs.json", import.meta.url), "utf8"));
+
+const checkEach = (pairs: Pair[], fn: (text: string) => string) => {
+  for (const [input, expected] of pairs) assert.equal(fn(input), expected, `for ${JSON.stringify(input)}`);
+};
+
+test("foldArabic removes marks and unifies letter variants", () => checkEach(corpus.fold, foldArabic));
+
+test("mapArabicDigits maps both Arabic-Indic digit sets to 0-9", () => checkEach(corpus.digits, mapArabicDigits));
+
+test("stripArabicArticle removes the article and attached conjunctions", () =>
+  checkEach(corpus.article, stripArabicArticle));
+
+test("stemEnglish reduces inflections and leaves other words alone", () => checkEach(corpus.stem, stemEnglish));
+
+test("spellings of the same text normalize alike", () => {
+  for (const [a, b] of corpus.same) {
+    assert.equal(normalizeText(a), normalizeText(b), `${a} / ${b}`);
+    assert.equal(diceSimilarity(a, b), 1, `${a} / ${b}`);
+  }
+  for (const [a, b] of corpus.sameWhenStemmed) {
+    assert.notEqual(normalizeText(a), normalizeText(b), `${a} / ${b}`);
+    assert.equal(normalizeText(a, { stem: true }), normalizeText(b, { stem: true }), `${a} / ${b}`);
+  }
+});
+
+test("different texts stay different", () => {
+  for (const [a, b] of corpus.different) {
+    assert.notEqual(normalizeText(a, { stem: true }), normalizeText(b, { stem: true }), `${a} / ${b}`);
+  }
+});
@@ -0,0 +1,91 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { JSDOM } from "jsdom";
+import { type Question } from "@/types";
+import { buildQtiPackage, parseQtiPackage } from "@/lib/formats/qti";
+
+// Import parses with the browser's DOMParser.
+globalThis.DOMParser = new JSDOM().window.DOMParser;
+
+const base = {
+  subject: "Security",
+  createdAt: "2024-01-01",
+  updatedAt: "2024-01-01",
+} as const;
+
+const questions: Question[] = [
+  {
+    ...base,
+    id: "mcq/1",
+    questionText: "Which key decrypts a message?\nAssume <public> key crypto & \"RSA\".",
+    options: ["The private key", "The public key", "Both"],
+    correctAnswer: "The private key",
+    questionType: "mcq",
+    difficulty: "easy",
+    language: "en",
+    chapter: "Cryptography",
+    explanation: "Only the owner holds the private key.\n\nThe public key only encrypts.",
+    topicTags: ["pki", "keys"],
+  },
+  {
+    ...base,
+    id: "checkbox-2",
+    questionText: "أيٌّ مما يلي خوارزمياتُ تشفيرٍ متماثل؟",
+    options: ["AES", "DES", "RSA", "المفتاح العام"],
+    correctAnswer: ["AES", "DES"],
+    questionType: "checkbox",
+    difficulty: "hard",
+    language: "ar",
+    chapter: "التشفير",
+    explanation: "الفقرة الأولى.\nالفقرة الثانية.",
+    topicTags: ["تشفير"],
+  },
+  {
+    ...base,
+    id: "tf-3",
+    questionText: "A firewall filters traffic.",
+    options: ["True", "False"],
+    correctAnswer: "True",
+    questionType: "mcq",
+    difficulty: "medium",
+    language: "en",
+    chapter: "Networks",
+  },
+];
+
+// A 1x1 PNG.
+const PNG = "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
+
+test("QTI export imports back unchanged, with images and Arabic text", async () => {
+  const images = {
+    "mcq/1": { fileName: "diagram 1.png", contentType: "image/png", data: PNG },
+    "checkbox-2": { fileName: "مخطط.png", contentType: "image/png", data: PNG },
+  };
+  const result = await parseQtiPackage(await buildQtiPackage(questions, images));
+
+  assert.deepEqual(result.warnings, []);
+  assert.equal(result.questions.length, questions.length);
+  result.questions.forEach((imported, i) => {
+    const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...original } = questions[i];
+    assert.deepEqual(imported, {
+      ...original,
+      explanation: original.explanation,
+      topicTags: original.topicTags,
+      source: "QTI",
+    });
+  });
+
+  const [first, second, third] = result.images;
+  assert.equal(first?.type, "image/png");
+  assert.equal(Buffer.from(await first!.arrayBuffer()).toString("base64"), PNG);
+  assert.equal(second?.type, "image/png");
+  assert.equal(Buffer.from(await second!.arrayBuffer()).toString("base64"), PNG);
+  assert.equal(third, undefined);
+});
+
+test("questions without options are left out of the package", async () => {
+  const noOptions: Question = { ...questions[2], id: "open-4", options: [], correctAnswer: "" };
+  const result = await parseQtiPackage(await buildQtiPackage([noOptions, questions[2]]));
+  assert.deepEqual(result.warnings, []);
+  assert.deepEqual(result.questions.map((q) => q.questionText), [questions[2].questionText]);
+});
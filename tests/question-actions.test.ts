@@ -0,0 +1,152 @@
+import { beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { type Question } from "@/types";
+import { type QuestionRepository } from "@/lib/repository";
+import { createLocalRepository } from "@/lib/repository/local";
+import {
+  handleDeleteQuestion,
+  handleLinkTranslations,
+  handleListRevisions,
+  handleMergeQuestions,
+  handlePurgeQuestions,
+  handleRestoreQuestions,
+  handleRestoreRevision,
+  handleSyncQuestions,
+  handleUpdateMultipleQuestions,
+  handleUpdateQuestion,
+} from "@/lib/actions";
+
+const question = (id: string, fields: Partial<Question> = {}): Question => ({
+  id,
+  questionText: `Question ${id}`,
+  options: ["80", "443"],
+  correctAnswer: "443",
+  questionType: "mcq",
+  difficulty: "easy",
+  language: "en",
+  subject: "Security",
+  chapter: "Networks",
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  ...fields,
+});
+
+let repository: QuestionRepository;
+
+// Every test starts from its own in-memory bank: a, b and c in English, ar in Arabic.
+beforeEach(() => {
+  repository = createLocalRepository({
+    initialQuestions: [question("a"), question("b"), question("c"), question("ar", { language: "ar" })],
+  });
+  (globalThis as { __questionRepository?: QuestionRepository }).__questionRepository = repository;
+});
+
+const stored = async (id: string) => (await repository.get(id))!;
+
+test("an update based on an old version is refused with the stored one", async () => {
+  const first = await handleUpdateQuestion({ ...question("a"), chapter: "Crypto" }, undefined, question("a").updatedAt);
+  assert.equal(first.success, true);
+
+  const second = await handleUpdateQuestion({ ...question("a"), chapter: "Malware" }, undefined, question("a").updatedAt);
+  assert.equal(second.success, false);
+  assert.equal(second.conflict?.chapter, "Crypto");
+  assert.equal((await stored("a")).chapter, "Crypto");
+});
+
+test("a batch update writes what is current, reports the rest and returns the written records", async () => {
+  await handleUpdateQuestion({ ...question("b"), chapter: "Crypto" });
+  const result = await handleUpdateMultipleQuestions(
+    [question("a", { chapter: "Malware" }), question("b", { chapter: "Malware" })],
+    undefined,
+    { a: question("a").updatedAt, b: question("b").updatedAt }
+  );
+
+  assert.equal(result.success, false);
+  assert.deepEqual(result.conflicts?.map((q) => q.id), ["b"]);
+  assert.deepEqual(result.questions.map((q) => q.id), ["a"]);
+  assert.deepEqual(result.questions[0], await stored("a"));
+  assert.notEqual(result.questions[0].updatedAt, question("a").updatedAt);
+  assert.equal((await stored("b")).chapter, "Crypto");
+});
+
+test("trash, restore and purge", async () => {
+  assert.equal((await handleDeleteQuestion("a")).success, true);
+  assert.deepEqual((await repository.list()).map((q) => q.id).sort(), ["ar", "b", "c"]);
+
+  const restored = await handleRestoreQuestions(["a"]);
+  assert.equal(restored.restoredQuestions[0].deletedAt, undefined);
+
+  // Only trashed questions can be purged.
+  const live = await handlePurgeQuestions(["a"]);
+  assert.deepEqual(live.purgedIds, []);
+  await handleDeleteQuestion("a");
+  const purged = await handlePurgeQuestions(["a"]);
+  assert.deepEqual(purged.purgedIds, ["a"]);
+  assert.equal(await repository.get("a"), null);
+});
+
+test("a delta sync returns changed and purged questions only", async () => {
+  const since = new Date().toISOString();
+  await handleUpdateQuestion({ ...question("a"), chapter: "Crypto" });
+  await handleDeleteQuestion("b");
+  await handlePurgeQuestions(["b"]);
+
+  const sync = await handleSyncQuestions(since);
+  assert.equal(sync.full, false);
+  assert.deepEqual(sync.questions.map((q) => q.id), ["a"]);
+  assert.deepEqual(sync.purgedIds, ["b"]);
+  assert.equal((await handleSyncQuestions(null)).full, true);
+});
+
+test("restoring a revision brings back the content but keeps links and merges", async () => {
+  await handleUpdateQuestion({ ...question("a"), questionText: "Edited" });
+  await handleLinkTranslations([["a", "ar"]]);
+  await handleMergeQuestions(await stored("a"), ["c"]);
+  const [beforeEdit] = (await handleListRevisions("a")).filter((r) => r.snapshot.questionText === "Question a");
+
+  const stale = await handleRestoreRevision("a", beforeEdit.id, "admin", question("a").updatedAt);
+  assert.equal(stale.success, false);
+  assert.ok(stale.conflict);
+
+  const result = await handleRestoreRevision("a", beforeEdit.id);
+  assert.equal(result.success, true);
+  assert.equal(result.question?.questionText, "Question a");
+  assert.equal(result.question?.translationId, "ar");
+  assert.deepEqual(result.question?.mergedFrom, ["c"]);
+  assert.equal((await stored("ar")).translationId, "a");
+});
+
+test("linking a question replaces its partner's old link on both sides", async () => {
+  await handleLinkTranslations([["a", "ar"]]);
+  const result = await handleLinkTranslations([["b", "ar"]]);
+  assert.equal(result.success, true);
+  assert.equal((await stored("ar")).translationId, "b");
+  assert.equal((await stored("b")).translationId, "ar");
+  assert.equal((await stored("a")).translationId, undefined);
+});
+
+test("trashing or purging a question unlinks its partner", async () => {
+  await handleLinkTranslations([["a", "ar"]]);
+  await handleDeleteQuestion("a");
+  assert.equal((await stored("ar")).translationId, undefined);
+
+  await handleRestoreQuestions(["a"]);
+  await handleLinkTranslations([["a", "ar"]]);
+  // Links made after a question went to the trash are dropped when it is purged.
+  await repository.trash(["a"], "admin");
+  await handlePurgeQuestions(["a"]);
+  assert.equal((await stored("ar")).translationId, undefined);
+});
+
+test("a merge moves the retired copy's translation link onto the survivor", async () => {
+  await handleLinkTranslations([["b", "ar"]]);
+  const survivor = await stored("a");
+  const result = await handleMergeQuestions(survivor, ["b"], "admin", survivor.updatedAt);
+
+  assert.equal(result.success, true);
+  assert.equal(result.question?.translationId, "ar");
+  assert.deepEqual(result.question, await stored("a"));
+  assert.equal((await stored("ar")).translationId, "a");
+  assert.equal((await stored("b")).translationId, undefined);
+  assert.ok((await stored("b")).deletedAt);
+});
@@ -0,0 +1,36 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { validateQuestionDraft } from "@/types";
+
+const draft = {
+  questionText: "Which are symmetric ciphers?",
+  options: ["AES", "RSA", "DES"],
+  difficulty: "medium",
+  language: "en",
+};
+
+test("answers are read by the question type, also when it is given by an alias", () => {
+  for (const questionType of ["checkbox", "multiple answer", " Multi-Select "]) {
+    const result = validateQuestionDraft({ ...draft, questionType, correctAnswer: "A, C" });
+    assert.ok(result.success, `${questionType}: ${JSON.stringify(!result.success && result.errors)}`);
+    assert.equal(result.data.questionType, "checkbox");
+    assert.deepEqual(result.data.correctAnswer, ["AES", "DES"]);
+  }
+
+  const single = validateQuestionDraft({ ...draft, questionType: "Single Choice", correctAnswer: ["B"] });
+  assert.ok(single.success);
+  assert.equal(single.data.questionType, "mcq");
+  assert.equal(single.data.correctAnswer, "RSA");
+});
+
+test("answer problems are reported for aliased types alongside other field errors", () => {
+  const result = validateQuestionDraft({
+    ...draft,
+    questionType: "multiple answer",
+    correctAnswer: "A, Z",
+    difficulty: "impossible",
+  });
+  assert.ok(!result.success);
+  assert.ok(result.errors.difficulty);
+  assert.equal(result.errors.correctAnswer, 'Not among the options: "Z".');
+});
@@ -0,0 +1,17 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseQuizBlock } from "@/lib/formats/quiz-text";
+
+test("an answer that is the text of an option is not read as glued letters", () => {
+  const question = parseQuizBlock(
+    ["1. Which access control model lets owners grant access?", "A. MAC", "B. RBAC", "C. ABAC", "D. DAC", "Answer: DAC"].join("\n")
+  );
+  assert.equal(question?.questionType, "mcq");
+  assert.equal(question?.correctAnswer, "DAC");
+});
+
+test("glued letters still name several options", () => {
+  const question = parseQuizBlock(["Pick two.", "A. MAC", "B. RBAC", "C. ABAC", "D. DAC", "Answer: AC"].join("\n"));
+  assert.equal(question?.questionType, "checkbox");
+  assert.deepEqual(question?.correctAnswer, ["MAC", "ABAC"]);
+});
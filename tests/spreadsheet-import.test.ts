@@ -0,0 +1,26 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { guessColumnMapping, rowsToDrafts } from "@/lib/spreadsheet-import";
+
+const headers = ["Question", "Option A", "Option B", "Option C", "Option D", "Option E", "Answer"];
+const mapping = guessColumnMapping(headers);
+
+test("an answer cell that is an option's text is that option, not letters", () => {
+  const [dac, ace] = rowsToDrafts(
+    [
+      ["Owners grant access under which model?", "MAC", "RBAC", "ABAC", "DAC", "", "DAC"],
+      ["Which entry grants access on a network object?", "ACL", "ACE", "DACL", "SACL", "", "ace"],
+    ],
+    mapping
+  );
+  assert.equal(dac.questionType, "mcq");
+  assert.equal(dac.correctAnswer, "DAC");
+  assert.equal(ace.questionType, "mcq");
+  assert.equal(ace.correctAnswer, "ACE");
+});
+
+test("answer letters still pick options", () => {
+  const [draft] = rowsToDrafts([["Pick two.", "MAC", "RBAC", "ABAC", "DAC", "ACE", "A, C"]], mapping);
+  assert.equal(draft.questionType, "checkbox");
+  assert.deepEqual(draft.correctAnswer, ["MAC", "ABAC"]);
+});